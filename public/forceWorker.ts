@@ -1,5 +0,0 @@
-self.onmessage = (event) => {
-  const data = event.data;
-  // Add force calculation logic here
-  self.postMessage(data);
-}; 
\ No newline at end of file
@@ -1,64 +1,40 @@
-import axios, { AxiosError, AxiosResponse } from 'axios';
+import axios, { AxiosRequestConfig, AxiosResponse } from 'axios';
+import { rejectWithApiError } from './api-error';
+import { SearchType } from '../models/search-result';
 
-// Configure the base URL for the Axios instance
-axios.defaults.baseURL = process.env.REACT_APP_API_URL || 'http://localhost:8000';
+export const defaultApiUrl = process.env.REACT_APP_API_URL || 'http://localhost:8000';
+
+// Configure the base URL for the Axios instance; searches override it with
+// the connection settings chosen in the app
+axios.defaults.baseURL = defaultApiUrl;
 axios.defaults.withCredentials = true;
 
 const responseBody = (response: AxiosResponse) => response.data;
 
-// Intercept responses to handle errors globally
-axios.interceptors.response.use(
-  async (response) => {
-    return response;
-  },
-  (error: AxiosError<any, any>) => {
-    const { data, status } = error.response!;
-    switch (status) {
-      case 400:
-        if (data.errors) {
-          const modelStateErrors: string[] = [];
-          for (const key in data.errors) {
-            if (data.errors[key]) {
-              modelStateErrors.push(data.errors[key]);
-            }
-          }
-          console.error('Validation errors:', modelStateErrors.flat());
-        } else {
-          console.error('Bad request:', data.title);
-        }
-        break;
-      case 401:
-        console.error('Unauthorized:', data.title || 'Unauthorized');
-        break;
-      case 403:
-        console.error('Forbidden: You are not allowed to do that!');
-        break;
-      case 500:
-        console.error('Server Error:', data.title || 'Server Error!');
-        break;
-      default:
-        console.error('An unexpected error occurred.');
-        break;
-    }
-    return Promise.reject(error.response);
-  }
-);
+// Turn failed requests into ApiErrors, including network failures and
+// timeouts, which have no response
+axios.interceptors.response.use((response) => response, rejectWithApiError);
 
 const requests = {
-  get: (url: string, params?: URLSearchParams) =>
-    axios.get(url, { params }).then(responseBody),
+  get: (url: string, params?: URLSearchParams, config?: AxiosRequestConfig) =>
+    axios.get(url, { params, ...config }).then(responseBody),
   post: (url: string, body: {}) => axios.post(url, body).then(responseBody),
   put: (url: string, body: {}) => axios.put(url, body).then(responseBody),
   delete: (url: string) => axios.delete(url).then(responseBody),
 };
 
 const Search = {
-  global: (query: string) => requests.get('search/global', new URLSearchParams({ query })),
-  local: (query: string) => requests.get('search/local', new URLSearchParams({ query })),
+  global: (query: string, config?: AxiosRequestConfig) => requests.get('search/global', new URLSearchParams({ query }), config),
+  local: (query: string, config?: AxiosRequestConfig) => requests.get('search/local', new URLSearchParams({ query }), config),
+  drift: (query: string, config?: AxiosRequestConfig) => requests.get('search/drift', new URLSearchParams({ query }), config),
+  basic: (query: string, config?: AxiosRequestConfig) => requests.get('search/basic', new URLSearchParams({ query }), config),
+  // Resolves to the raw streamed body; pass onDownloadProgress to read it as it arrives
+  stream: (searchType: SearchType, query: string, config?: AxiosRequestConfig): Promise<string> =>
+    requests.get(`search/${searchType}`, new URLSearchParams({ query, stream: 'true' }), { responseType: 'text', ...config }),
 };
 
 const Status = {
-  check: () => requests.get('status'),
+  check: (config?: AxiosRequestConfig) => requests.get('status', undefined, config),
 };
 
 const agent = {
@@ -0,0 +1,131 @@
+import axios, { AxiosError } from "axios";
+
+export type ApiErrorKind =
+  | "network"
+  | "timeout"
+  | "validation"
+  | "unauthorized"
+  | "forbidden"
+  | "not-found"
+  | "server"
+  | "unknown";
+
+export const apiErrorTitles: Record<ApiErrorKind, string> = {
+  network: "Server Unreachable",
+  timeout: "Request Timed Out",
+  validation: "Invalid Request",
+  unauthorized: "Unauthorized",
+  forbidden: "Forbidden",
+  "not-found": "Not Found",
+  server: "Server Error",
+  unknown: "Search Failed",
+};
+
+export class ApiError extends Error {
+  kind: ApiErrorKind;
+  status?: number;
+  // Failures on the way to the server, or of a busy server, may pass on a
+  // second try; requests the server rejected won't
+  retryable: boolean;
+
+  constructor(
+    message: string,
+    kind: ApiErrorKind,
+    status?: number,
+    retryable = false
+  ) {
+    super(message);
+    this.name = "ApiError";
+    this.kind = kind;
+    this.status = status;
+    this.retryable = retryable;
+  }
+}
+
+const RETRYABLE_STATUSES = [429, 502, 503, 504];
+
+const getStatusKind = (status: number): ApiErrorKind => {
+  switch (status) {
+    case 400:
+    case 422:
+      return "validation";
+    case 401:
+      return "unauthorized";
+    case 403:
+      return "forbidden";
+    case 404:
+      return "not-found";
+    default:
+      return status >= 500 ? "server" : "unknown";
+  }
+};
+
+// FastAPI answers with {detail}, ASP.NET with {title, errors} and OpenAI
+// with {error: {message}}
+const getErrorDetail = (data: any): string | undefined => {
+  if (typeof data === "string") return data || undefined;
+  if (data?.errors) {
+    return Object.values(data.errors).flat().filter(Boolean).join(" ");
+  }
+  const detail = data?.detail ?? data?.error?.message ?? data?.title;
+  if (Array.isArray(detail)) {
+    return detail.map((item) => item?.msg ?? String(item)).join(" ");
+  }
+  return detail ? String(detail) : undefined;
+};
+
+const fromAxiosError = (error: AxiosError<any>): ApiError => {
+  const url = [error.config?.baseURL, error.config?.url]
+    .filter(Boolean)
+    .join("/")
+    .replace(/([^:])\/\/+/g, "$1/");
+  if (
+    error.code === AxiosError.ECONNABORTED ||
+    error.code === AxiosError.ETIMEDOUT
+  ) {
+    return new ApiError(
+      `${url} did not answer within ${(error.config?.timeout ?? 0) / 1000} s.`,
+      "timeout",
+      undefined,
+      true
+    );
+  }
+  if (!error.response) {
+    // The browser hides why: the server may be down, or it didn't allow
+    // requests from this origin
+    return new ApiError(
+      `Could not reach ${url}. Check that the server is running and allows requests from ${window.location.origin} (CORS).`,
+      "network",
+      undefined,
+      true
+    );
+  }
+  const { status, statusText, data } = error.response;
+  const detail = getErrorDetail(data);
+  return new ApiError(
+    `${status} ${statusText || apiErrorTitles[getStatusKind(status)]}${
+      detail ? `: ${detail}` : ""
+    }`,
+    getStatusKind(status),
+    status,
+    RETRYABLE_STATUSES.includes(status)
+  );
+};
+
+export const toApiError = (error: unknown): ApiError => {
+  if (error instanceof ApiError) return error;
+  if (axios.isAxiosError(error)) return fromAxiosError(error);
+  return new ApiError(
+    error instanceof Error ? error.message : String(error),
+    "unknown"
+  );
+};
+
+// Response interceptor turning failed requests into ApiErrors. Cancelled
+// requests are passed on as they are so they can be told apart.
+export const rejectWithApiError = (error: unknown) => {
+  if (axios.isAxiosError(error) && error.code === AxiosError.ERR_CANCELED) {
+    return Promise.reject(error);
+  }
+  return Promise.reject(toApiError(error));
+};
@@ -0,0 +1,489 @@
+import axios, { AxiosRequestConfig } from "axios";
+import agent, { defaultApiUrl } from "./agent";
+import { ApiError, rejectWithApiError } from "./api-error";
+import {
+  createSearchStreamParser,
+  SearchStreamOptions,
+  streamProgressHandler,
+} from "./search-stream";
+import { SearchResult, SearchType } from "../models/search-result";
+import {
+  MockRecording,
+  ResponseMapping,
+  SearchBackendSettings,
+  SearchBackendType,
+} from "../models/search-backend";
+import { isDriftTree, searchTypes } from "../utils/search-results";
+
+export interface SearchBackend {
+  search: (
+    query: string,
+    searchType: SearchType,
+    options?: SearchStreamOptions
+  ) => Promise<SearchResult>;
+  // Resolves to false instead of rejecting when the backend is unreachable
+  checkStatus: () => Promise<boolean>;
+}
+
+export const searchBackendLabels: Record<SearchBackendType, string> = {
+  "graphrag-api": "graphrag-api",
+  openai: "OpenAI-compatible",
+  rest: "Custom REST",
+  mock: "Mock (recorded results)",
+};
+
+const emptyMapping: ResponseMapping = {
+  response: "",
+  context_data: "",
+  context_text: "",
+  completion_time: "",
+  llm_calls: "",
+  prompt_tokens: "",
+};
+
+// Endpoint, auth and mapping defaults applied when switching backend type
+export const searchBackendPresets: Record<
+  SearchBackendType,
+  Partial<SearchBackendSettings>
+> = {
+  "graphrag-api": {
+    baseUrl: defaultApiUrl,
+    withCredentials: true,
+  },
+  openai: {
+    baseUrl: "http://localhost:8000/v1",
+    localPath: "chat/completions",
+    globalPath: "chat/completions",
+    driftPath: "chat/completions",
+    basicPath: "chat/completions",
+    statusPath: "models",
+    method: "POST",
+    authHeader: "Authorization",
+    localModel: "graphrag-local-search",
+    globalModel: "graphrag-global-search",
+    driftModel: "graphrag-drift-search",
+    basicModel: "graphrag-basic-search",
+    responseMapping: {
+      ...emptyMapping,
+      response: "choices.0.message.content",
+      context_data: "context_data",
+      context_text: "context_text",
+      prompt_tokens: "usage.prompt_tokens",
+    },
+  },
+  rest: {
+    baseUrl: defaultApiUrl,
+    localPath: "search/local",
+    globalPath: "search/global",
+    driftPath: "search/drift",
+    basicPath: "search/basic",
+    statusPath: "status",
+    method: "GET",
+    authHeader: "Authorization",
+    responseMapping: {
+      response: "response",
+      context_data: "context_data",
+      context_text: "context_text",
+      completion_time: "completion_time",
+      llm_calls: "llm_calls",
+      prompt_tokens: "prompt_tokens",
+    },
+  },
+  mock: {},
+};
+
+export const defaultSearchBackendSettings: SearchBackendSettings = {
+  type: "graphrag-api",
+  baseUrl: "",
+  localPath: "",
+  globalPath: "",
+  driftPath: "",
+  basicPath: "",
+  statusPath: "",
+  method: "GET",
+  authHeader: "",
+  authValue: "",
+  withCredentials: false,
+  timeoutSeconds: 300,
+  retries: 1,
+  streaming: false,
+  localModel: "",
+  globalModel: "",
+  driftModel: "",
+  basicModel: "",
+  responseMapping: emptyMapping,
+  mockRecordings: [],
+  ...searchBackendPresets.rest,
+  ...searchBackendPresets["graphrag-api"],
+};
+
+const getPath = (value: any, path: string) =>
+  path
+    .split(".")
+    .filter(Boolean)
+    .reduce((current, key) => current?.[key], value);
+
+// Maps a raw response body onto SearchResult; unmapped fields fall back to
+// the field of the same name so plain graphrag-api responses need no mapping
+export const mapSearchResult = (
+  body: any,
+  mapping: ResponseMapping
+): SearchResult => {
+  if (typeof body === "string") {
+    return {
+      response: body,
+      context_data: {},
+      context_text: "",
+      completion_time: 0,
+      llm_calls: 0,
+      prompt_tokens: 0,
+    };
+  }
+  const field = (key: keyof ResponseMapping) =>
+    mapping[key] ? getPath(body, mapping[key]) : body?.[key];
+
+  // DRIFT without a reduce step answers with its tree of follow-up queries
+  const response = field("response");
+  const driftTree = isDriftTree(response) ? response : body?.drift_tree;
+  return {
+    reduce_context_data: body?.reduce_context_data,
+    reduce_context_text: body?.reduce_context_text,
+    map_responses: body?.map_responses,
+    drift_tree: driftTree,
+    response:
+      typeof response === "string"
+        ? response
+        : isDriftTree(response)
+          ? ""
+          : JSON.stringify(response ?? ""),
+    context_data: field("context_data") ?? {},
+    context_text: field("context_text") ?? "",
+    completion_time: Number(field("completion_time") ?? 0),
+    llm_calls: Number(field("llm_calls") ?? 0),
+    prompt_tokens: Number(field("prompt_tokens") ?? 0),
+  };
+};
+
+const searchPaths = (
+  settings: SearchBackendSettings
+): Record<SearchType, string> => ({
+  local: settings.localPath,
+  global: settings.globalPath,
+  drift: settings.driftPath,
+  basic: settings.basicPath,
+});
+
+const searchModels = (
+  settings: SearchBackendSettings
+): Record<SearchType, string> => ({
+  local: settings.localModel,
+  global: settings.globalModel,
+  drift: settings.driftModel,
+  basic: settings.basicModel,
+});
+
+// Status checks are polled, so they give up quickly instead of retrying
+const STATUS_TIMEOUT_MS = 5000;
+
+const connectionConfig = (
+  settings: SearchBackendSettings
+): AxiosRequestConfig => ({
+  baseURL: settings.baseUrl || defaultApiUrl,
+  withCredentials: settings.withCredentials,
+  timeout: settings.timeoutSeconds * 1000,
+  headers:
+    settings.authHeader && settings.authValue
+      ? { [settings.authHeader]: settings.authValue }
+      : undefined,
+});
+
+const createHttpClient = (settings: SearchBackendSettings) => {
+  const client = axios.create(connectionConfig(settings));
+  client.interceptors.response.use((response) => response, rejectWithApiError);
+  return client;
+};
+
+const checkHttpStatus = async (
+  client: ReturnType<typeof createHttpClient>,
+  path: string
+) => {
+  try {
+    await client.get(path, { timeout: STATUS_TIMEOUT_MS });
+    return true;
+  } catch (err) {
+    return false;
+  }
+};
+
+const delay = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const cancel = () => {
+      clearTimeout(timer);
+      reject(new DOMException("Search cancelled", "AbortError"));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", cancel);
+      resolve();
+    }, ms);
+    if (signal?.aborted) cancel();
+    signal?.addEventListener("abort", cancel, { once: true });
+  });
+
+// Tries the search again after failures that may pass, waiting 1 s, 2 s,
+// 4 s... in between. A streamed search starts over with an empty result.
+const withRetries = async <T>(
+  send: () => Promise<T>,
+  retries: number,
+  signal?: AbortSignal
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await send();
+    } catch (err) {
+      if (attempt >= retries || !(err instanceof ApiError && err.retryable)) {
+        throw err;
+      }
+      console.warn(`Search failed, retrying (${attempt + 1}/${retries})`, err);
+      await delay(1000 * 2 ** attempt, signal);
+    }
+  }
+};
+
+// Sends a request for a streamed response and parses the body as it arrives
+const requestStream = async (
+  send: (config: AxiosRequestConfig) => Promise<string>,
+  { signal, onUpdate }: SearchStreamOptions,
+  mapBody: (body: any) => SearchResult
+) => {
+  const parser = createSearchStreamParser(onUpdate);
+  const text = await send({
+    signal,
+    responseType: "text",
+    onDownloadProgress: streamProgressHandler(parser),
+  });
+  return parser.finish(text, mapBody);
+};
+
+const createRestBackend = (settings: SearchBackendSettings): SearchBackend => {
+  const client = createHttpClient(settings);
+  const mapBody = (body: any) =>
+    mapSearchResult(body, settings.responseMapping);
+  return {
+    search: async (query, searchType, options = {}) => {
+      const url = searchPaths(settings)[searchType];
+      const payload = settings.streaming ? { query, stream: true } : { query };
+      const send = async (config: AxiosRequestConfig) =>
+        (settings.method === "GET"
+          ? await client.get(url, { ...config, params: payload })
+          : await client.post(url, payload, config)
+        ).data;
+      return withRetries(
+        async () =>
+          settings.streaming
+            ? requestStream(send, options, mapBody)
+            : mapBody(await send({ signal: options.signal })),
+        settings.retries,
+        options.signal
+      );
+    },
+    checkStatus: () => checkHttpStatus(client, settings.statusPath),
+  };
+};
+
+const createOpenAIBackend = (
+  settings: SearchBackendSettings
+): SearchBackend => {
+  const client = createHttpClient(settings);
+  const mapBody = (body: any) =>
+    mapSearchResult(body, settings.responseMapping);
+  return {
+    search: async (query, searchType, options = {}) => {
+      const start = performance.now();
+      const send = async (config: AxiosRequestConfig) =>
+        (
+          await client.post(
+            searchPaths(settings)[searchType],
+            {
+              model: searchModels(settings)[searchType],
+              messages: [{ role: "user", content: query }],
+              stream: settings.streaming,
+            },
+            config
+          )
+        ).data;
+      const result = await withRetries(
+        async () =>
+          settings.streaming
+            ? requestStream(send, options, mapBody)
+            : mapBody(await send({ signal: options.signal })),
+        settings.retries,
+        options.signal
+      );
+      return {
+        ...result,
+        completion_time:
+          result.completion_time || Math.round(performance.now() - start),
+        llm_calls: result.llm_calls || 1,
+      };
+    },
+    checkStatus: () => checkHttpStatus(client, settings.statusPath),
+  };
+};
+
+// Plays a recording back the way a streaming server sends it: the context
+// first, then the map answers one by one, then the response a few words at
+// a time
+const replayRecording = async (
+  result: SearchResult,
+  { signal, onUpdate }: SearchStreamOptions
+) => {
+  const { response, map_responses, ...fields } = result;
+  let partial: SearchResult = { ...fields, response: "" };
+  onUpdate?.(partial);
+  for (const mapResponse of map_responses ?? []) {
+    await delay(200, signal);
+    partial = {
+      ...partial,
+      map_responses: [...(partial.map_responses ?? []), mapResponse],
+    };
+    onUpdate?.(partial);
+  }
+  const words = typeof response === "string" ? response.split(/(?<=\s)/) : [];
+  for (let index = 0; index < words.length; index += 3) {
+    await delay(30, signal);
+    partial = {
+      ...partial,
+      response: partial.response + words.slice(index, index + 3).join(""),
+    };
+    onUpdate?.(partial);
+  }
+  return result;
+};
+
+const normalizeQuery = (query: string) => query.trim().toLowerCase();
+
+// Replays the recording for the same query and search type, falling back to
+// any recording of that search type
+const createMockBackend = ({
+  mockRecordings,
+  streaming,
+}: SearchBackendSettings): SearchBackend => ({
+  search: async (query, searchType, options = {}) => {
+    const sameType = mockRecordings.filter(
+      (recording) => recording.searchType === searchType
+    );
+    const recording =
+      sameType.find(
+        (candidate) => normalizeQuery(candidate.query) === normalizeQuery(query)
+      ) ?? sameType[0];
+    if (!recording) {
+      throw new Error(`No recorded ${searchType} search results to replay`);
+    }
+    return streaming
+      ? replayRecording(recording.result, options)
+      : recording.result;
+  },
+  checkStatus: async () => mockRecordings.length > 0,
+});
+
+const createGraphragApiBackend = (
+  settings: SearchBackendSettings
+): SearchBackend => {
+  const connection = connectionConfig(settings);
+  return {
+    search: (query, searchType, options = {}) =>
+      withRetries(
+        () =>
+          settings.streaming
+            ? requestStream(
+                (config) =>
+                  agent.Search.stream(searchType, query, {
+                    ...connection,
+                    ...config,
+                  }),
+                options,
+                (body) => body
+              )
+            : agent.Search[searchType](query, {
+                ...connection,
+                signal: options.signal,
+              }),
+        settings.retries,
+        options.signal
+      ),
+    checkStatus: async () => {
+      try {
+        const response = await agent.Status.check({
+          ...connection,
+          timeout: STATUS_TIMEOUT_MS,
+        });
+        return response.status === "Server is up and running";
+      } catch (error) {
+        return false;
+      }
+    },
+  };
+};
+
+export const createSearchBackend = (
+  settings: SearchBackendSettings
+): SearchBackend => {
+  switch (settings.type) {
+    case "openai":
+      return createOpenAIBackend(settings);
+    case "rest":
+      return createRestBackend(settings);
+    case "mock":
+      return createMockBackend(settings);
+    default:
+      return createGraphragApiBackend(settings);
+  }
+};
+
+const isSearchResult = (value: any): value is SearchResult =>
+  value !== null && typeof value === "object" && "response" in value;
+
+// Bare results don't say which search produced them; map responses mark
+// global search and a follow-up query tree marks DRIFT
+const inferSearchType = (result: any): SearchType =>
+  result.drift_tree || isDriftTree(result.response)
+    ? "drift"
+    : result.map_responses || result.reduce_context_data
+      ? "global"
+      : "local";
+
+// Accepts a SearchResult, a recording, or an array of either. Bare results
+// are named after the file.
+export const parseMockRecordings = (
+  json: unknown,
+  fileName: string
+): MockRecording[] => {
+  const items = Array.isArray(json) ? json : [json];
+  const query = fileName.replace(/\.json$/i, "");
+  return items.flatMap((item: any): MockRecording[] => {
+    if (isSearchResult(item?.result)) {
+      return [
+        {
+          query: String(item.query ?? query),
+          searchType: searchTypes.includes(item.searchType)
+            ? item.searchType
+            : inferSearchType(item.result),
+          result: item.result,
+        },
+      ];
+    }
+    if (isSearchResult(item)) {
+      return [
+        {
+          query,
+          searchType: inferSearchType(item),
+          result: item,
+        },
+      ];
+    }
+    console.warn(
+      `Skipping an entry of ${fileName} that is not a search result`
+    );
+    return [];
+  });
+};
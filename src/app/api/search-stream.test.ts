@@ -0,0 +1,89 @@
+import { SearchResult } from "../models/search-result";
+import { createSearchStreamParser } from "./search-stream";
+
+// The worker client creates its worker from import.meta.url, which jest can't
+// load; only its abort check is used here
+jest.mock("../utils/parquet-worker-client", () => ({
+  isAbortError: (err: unknown) =>
+    err instanceof DOMException && err.name === "AbortError",
+}));
+
+const mapBody = (body: any): SearchResult => ({ ...body, mapped: true });
+
+// Feeds the body in growing prefixes, the way download progress reports it
+const parse = (chunks: string[]) => {
+  const updates: string[] = [];
+  const parser = createSearchStreamParser((partial) =>
+    updates.push(partial.response)
+  );
+  let body = "";
+  chunks.forEach((chunk) => {
+    body += chunk;
+    parser.push(body);
+  });
+  return { result: parser.finish(body, mapBody), updates };
+};
+
+describe("createSearchStreamParser", () => {
+  it("parses server-sent events split across chunks", () => {
+    const { result, updates } = parse([
+      'data: {"context_data": {"entities": [{"id": 1}]}}\n\n',
+      'data: "Hel',
+      'lo"\n\ndata: wor',
+      "ld\n\n",
+      "data: [DONE]\n\n",
+    ]);
+
+    expect(updates).toEqual(["", "Hello", "Helloworld"]);
+    expect(result.response).toBe("Helloworld");
+    expect(result.context_data).toEqual({ entities: [{ id: 1 }] });
+  });
+
+  it("joins multi-line SSE data and wraps map responses", () => {
+    const { result } = parse([
+      "event: map_response\r\n",
+      'data: {"response": "part one",\r\ndata: "llm_calls": 1}\r\n\r\n',
+      ": keep-alive\n\n",
+      'data: {"token": "Answer"}\n\n',
+    ]);
+
+    expect(result.map_responses).toEqual([
+      { response: "part one", llm_calls: 1 },
+    ]);
+    expect(result.response).toBe("Answer");
+  });
+
+  it("parses newline-delimited JSON and keeps the final result", () => {
+    const { result, updates } = parse([
+      '{"delta": "Hi"}\n{"choices": [{"delta": {"content": " there"}}],',
+      ' "usage": {"prompt_tokens": 12}}\n',
+      '{"response": "", "completion_time": 3.5, "llm_calls": 2}',
+    ]);
+
+    expect(updates).toEqual(["Hi", "Hi there", "Hi there"]);
+    expect(result).toMatchObject({
+      response: "Hi there",
+      prompt_tokens: 12,
+      completion_time: 3.5,
+      llm_calls: 2,
+    });
+  });
+
+  it("treats plain text as the response", () => {
+    const { result } = parse(["The answer ", "is 42"]);
+
+    expect(result.response).toBe("The answer is 42");
+  });
+
+  it("hands a body that isn't streamed to mapBody", () => {
+    const body = JSON.stringify({ response: "Done", context_data: {} });
+    const { result, updates } = parse([body.slice(0, 10), body.slice(10)]);
+
+    expect(updates).toEqual([]);
+    expect(result).toEqual({
+      response: "Done",
+      context_data: {},
+      mapped: true,
+    });
+  });
+});
@@ -0,0 +1,185 @@
+import axios, { AxiosProgressEvent } from "axios";
+import { SearchResult } from "../models/search-result";
+import { isAbortError } from "../utils/parquet-worker-client";
+
+export interface SearchStreamOptions {
+  signal?: AbortSignal;
+  // Called with the result accumulated so far each time more of it arrives
+  onUpdate?: (partial: SearchResult) => void;
+}
+
+export const isSearchCancelled = (err: unknown) =>
+  axios.isCancel(err) || isAbortError(err);
+
+const emptyResult = (): SearchResult => ({
+  response: "",
+  context_data: {},
+  context_text: "",
+  completion_time: 0,
+  llm_calls: 0,
+  prompt_tokens: 0,
+});
+
+// Events are recognised by their fields: plain text, {token} or {delta} and
+// OpenAI chat completion chunks append to the response; {map_response} adds
+// one global search map answer; anything else with SearchResult fields
+// (context first, the complete result last) is merged in
+const applyEvent = (result: SearchResult, event: any): SearchResult => {
+  if (typeof event === "string") {
+    return { ...result, response: result.response + event };
+  }
+  if (event === null || typeof event !== "object") return result;
+
+  const token =
+    event.choices?.[0]?.delta?.content ??
+    (typeof event.token === "string" ? event.token : undefined) ??
+    (typeof event.delta === "string" ? event.delta : undefined);
+  if (token !== undefined || event.choices) {
+    return {
+      ...result,
+      response: result.response + (token ?? ""),
+      prompt_tokens: event.usage?.prompt_tokens ?? result.prompt_tokens,
+    };
+  }
+  if (event.map_response !== undefined) {
+    const mapResponse =
+      typeof event.map_response === "string"
+        ? { ...emptyResult(), response: event.map_response }
+        : event.map_response;
+    return {
+      ...result,
+      map_responses: [...(result.map_responses ?? []), mapResponse],
+    };
+  }
+
+  const { response, ...fields } = event;
+  return {
+    ...result,
+    ...fields,
+    // The final event may repeat the answer or leave it out
+    response:
+      typeof response === "string" && response ? response : result.response,
+  };
+};
+
+// SSE blocks are separated by a blank line. Event names are ignored except
+// "map_response", whose data may be a bare SearchResult.
+const parseServerSentEvent = (block: string) => {
+  let name: string | undefined;
+  const data: string[] = [];
+  block.split(/\r?\n/).forEach((line) => {
+    if (line.startsWith("event:")) name = line.slice(6).trim();
+    else if (line.startsWith("data:"))
+      data.push(line.slice(5).replace(/^ /, ""));
+  });
+  const text = data.join("\n");
+  if (!text || text === "[DONE]") return undefined;
+
+  // Tokens come as plain text or JSON strings; numbers etc. stay text
+  let value: unknown = text;
+  try {
+    const parsed = JSON.parse(text);
+    if (typeof parsed === "string" || typeof parsed === "object") {
+      value = parsed ?? text;
+    }
+  } catch {
+    // Plain text token
+  }
+  return name === "map_response" ? { map_response: value } : value;
+};
+
+// Parses an SSE, newline-delimited JSON or plain text body as it downloads.
+// A server that ignores the request to stream answers with one JSON body
+// instead, which is only recognised once the download completes.
+export const createSearchStreamParser = (
+  onUpdate?: (partial: SearchResult) => void
+) => {
+  let result = emptyResult();
+  let received = 0;
+  let buffer = "";
+  let format: "sse" | "ndjson" | "text" | undefined;
+  let events = 0;
+
+  const apply = (event: unknown) => {
+    if (event === undefined) return;
+    events++;
+    result = applyEvent(result, event);
+    onUpdate?.(result);
+  };
+
+  const detectFormat = () => {
+    const start = buffer.trimStart();
+    if (format || !start) return;
+    format = /^(data|event|id|retry):|^:/.test(start)
+      ? "sse"
+      : start.startsWith("{")
+        ? "ndjson"
+        : "text";
+  };
+
+  const consume = (flush: boolean) => {
+    if (format === "text") {
+      apply(buffer || undefined);
+      buffer = "";
+      return;
+    }
+    const separator = format === "sse" ? /\r?\n\r?\n/ : /\r?\n/;
+    const parts = buffer.split(separator);
+    buffer = flush ? "" : (parts.pop() ?? "");
+    parts.forEach((part) => {
+      if (!part.trim()) return;
+      if (format === "sse") {
+        apply(parseServerSentEvent(part));
+        return;
+      }
+      try {
+        apply(JSON.parse(part));
+      } catch {
+        // Not newline-delimited after all; handled as a whole at the end
+      }
+    });
+  };
+
+  return {
+    // Takes the whole body downloaded so far
+    push: (text: string) => {
+      buffer += text.slice(received);
+      received = text.length;
+      detectFormat();
+      if (format) consume(false);
+    },
+    // Takes the complete body; one that turns out not to be streamed is
+    // handed to mapBody as parsed JSON
+    finish: (
+      text: string,
+      mapBody: (body: any) => SearchResult
+    ): SearchResult => {
+      if (text.length > received) {
+        buffer += text.slice(received);
+        received = text.length;
+      }
+      detectFormat();
+      if (events === 0 && format !== "sse") {
+        let body: unknown;
+        try {
+          body = JSON.parse(text);
+        } catch {
+          body = undefined;
+        }
+        if (body !== undefined) return mapBody(body);
+      }
+      consume(true);
+      return result;
+    },
+  };
+};
+
+// Axios download progress handler feeding the parser; XHR exposes the body
+// received so far as responseText
+export const streamProgressHandler =
+  (parser: ReturnType<typeof createSearchStreamParser>) =>
+  (progress: AxiosProgressEvent) => {
+    const text = (progress.event?.target as XMLHttpRequest | undefined)
+      ?.responseText;
+    if (typeof text === "string") parser.push(text);
+  };
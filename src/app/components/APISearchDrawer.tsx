@@ -20,39 +20,125 @@ import {
   Collapse,
   Link,
   Alert,
+  Autocomplete,
+  Tooltip,
+  LinearProgress,
+  Chip,
 } from "@mui/material";
 import CloseIcon from "@mui/icons-material/Close";
 import ExpandMoreIcon from "@mui/icons-material/ExpandMore";
 import ExpandLessIcon from "@mui/icons-material/ExpandLess";
-import { SearchResult } from "../models/search-result";
+import ContentCopyIcon from "@mui/icons-material/ContentCopy";
+import SettingsIcon from "@mui/icons-material/Settings";
+import StopIcon from "@mui/icons-material/Stop";
+import CircleIcon from "@mui/icons-material/Circle";
+import { SearchResult, SearchType } from "../models/search-result";
+import { SearchBackendSettings } from "../models/search-backend";
+import { searchBackendLabels } from "../api/search-backends";
+import SearchBackendDialog from "./SearchBackendDialog";
+import DriftTreeView from "./DriftTreeView";
+import SearchHistoryPanel from "./SearchHistoryPanel";
+import AnswerMarkdown from "./AnswerMarkdown";
+import GlobalSearchInspector from "./GlobalSearchInspector";
+import { Citation } from "../utils/citations";
+import { SearchHistoryEntry } from "../models/search-history";
+import {
+  getContextText,
+  searchTypeLabels,
+  searchTypes,
+} from "../utils/search-results";
+import {
+  defaultLocalContextOptions,
+  LocalContextOptions,
+} from "../utils/local-context";
 
 interface APISearchDrawerProps {
   apiDrawerOpen: boolean;
   toggleDrawer: (open: boolean) => () => void;
-  handleApiSearch: (
-    query: string,
-    searchType: "local" | "global"
-  ) => Promise<void>;
+  handleApiSearch: (query: string, searchType: SearchType) => Promise<void>;
+  onCancelSearch: () => void;
+  onCitationClick: (citation: Citation) => void;
+  canResolveCitation: (citation: Citation) => boolean;
   apiSearchResults: SearchResult | null;
   localSearchEnabled: boolean;
   globalSearchEnabled: boolean;
+  basicSearchEnabled: boolean;
   hasCovariates: boolean;
   serverUp: boolean;
+  serverLastChecked: Date | null;
+  onCheckServerStatus: () => void;
+  searchBackendSettings: SearchBackendSettings;
+  onSaveSearchBackendSettings: (settings: SearchBackendSettings) => void;
+  searchHistory: SearchHistoryEntry[];
+  onOpenHistoryEntry: (entry: SearchHistoryEntry) => void;
+  onRenameHistoryEntry: (entry: SearchHistoryEntry, name: string) => void;
+  onToggleHistoryStar: (entry: SearchHistoryEntry) => void;
+  onDeleteHistoryEntry: (id: string) => void;
+  onExportHistory: () => void;
+  entityNames: string[];
+  handleBuildContext?: (
+    query: string,
+    seedNames: string[],
+    options: LocalContextOptions
+  ) => void;
 }
 
+const searchButtonColors: Record<
+  SearchType,
+  "primary" | "success" | "secondary" | "info"
+> = {
+  local: "primary",
+  global: "success",
+  drift: "secondary",
+  basic: "info",
+};
+
+const contextOptionFields: {
+  key: keyof LocalContextOptions;
+  label: string;
+  step: number;
+}[] = [
+  { key: "maxTokens", label: "Max Tokens", step: 1000 },
+  { key: "textUnitProp", label: "Text Unit Share", step: 0.05 },
+  { key: "communityProp", label: "Community Share", step: 0.05 },
+  { key: "topKEntities", label: "Top K Entities", step: 1 },
+  { key: "topKRelationships", label: "Top K Relationships", step: 1 },
+];
+
 const APISearchDrawer: React.FC<APISearchDrawerProps> = ({
   apiDrawerOpen,
   toggleDrawer,
   handleApiSearch,
+  onCancelSearch,
+  onCitationClick,
+  canResolveCitation,
   apiSearchResults,
   localSearchEnabled,
   globalSearchEnabled,
+  basicSearchEnabled,
   hasCovariates,
   serverUp,
+  serverLastChecked,
+  onCheckServerStatus,
+  searchBackendSettings,
+  onSaveSearchBackendSettings,
+  searchHistory,
+  onOpenHistoryEntry,
+  onRenameHistoryEntry,
+  onToggleHistoryStar,
+  onDeleteHistoryEntry,
+  onExportHistory,
+  entityNames,
+  handleBuildContext,
 }) => {
   const [query, setQuery] = useState<string>("");
-  const [loadingLocal, setLoadingLocal] = useState<boolean>(false);
-  const [loadingGlobal, setLoadingGlobal] = useState<boolean>(false);
+  const [seedNames, setSeedNames] = useState<string[]>([]);
+  const [contextOptions, setContextOptions] = useState<LocalContextOptions>(
+    defaultLocalContextOptions
+  );
+  const [showContextOptions, setShowContextOptions] = useState(false);
+  const [backendDialogOpen, setBackendDialogOpen] = useState(false);
+  const [loadingType, setLoadingType] = useState<SearchType | null>(null);
   const [expandedTables, setExpandedTables] = useState<{
     [key: string]: boolean;
   }>({});
@@ -68,21 +154,31 @@ const APISearchDrawer: React.FC<APISearchDrawerProps> = ({
     }
   }, [apiSearchResults]);
 
-  const handleSearch = async (searchType: "local" | "global") => {
-    if (searchType === "local") {
-      setLoadingLocal(true);
-    } else {
-      setLoadingGlobal(true);
-    }
+  // DRIFT starts from community reports and then runs local searches
+  const searchEnabled: Record<SearchType, boolean> = {
+    local: localSearchEnabled,
+    global: globalSearchEnabled,
+    drift: localSearchEnabled,
+    basic: basicSearchEnabled,
+  };
 
+  const handleSearch = async (searchType: SearchType) => {
+    setLoadingType(searchType);
     try {
       await handleApiSearch(query, searchType);
     } finally {
-      if (searchType === "local") {
-        setLoadingLocal(false);
-      } else {
-        setLoadingGlobal(false);
-      }
+      setLoadingType(null);
+    }
+  };
+
+  const handleCopyContext = async () => {
+    if (!apiSearchResults) return;
+    try {
+      await navigator.clipboard.writeText(
+        getContextText(apiSearchResults.context_text)
+      );
+    } catch (err) {
+      console.error("Failed to copy the context to the clipboard", err);
     }
   };
 
@@ -110,6 +206,52 @@ const APISearchDrawer: React.FC<APISearchDrawerProps> = ({
         >
           <CloseIcon />
         </IconButton>
+        <Tooltip
+          title={
+            serverLastChecked
+              ? `Checked at ${serverLastChecked.toLocaleTimeString()}, click to check now`
+              : "Checking the search backend"
+          }
+        >
+          <Chip
+            size="small"
+            icon={<CircleIcon />}
+            color={
+              serverLastChecked === null
+                ? "default"
+                : serverUp
+                  ? "success"
+                  : "error"
+            }
+            label={`${searchBackendLabels[searchBackendSettings.type]}: ${
+              serverLastChecked === null
+                ? "Checking"
+                : serverUp
+                  ? "Connected"
+                  : searchBackendSettings.type === "mock"
+                    ? "No Recordings"
+                    : "Unreachable"
+            }`}
+            onClick={onCheckServerStatus}
+            sx={{ position: "absolute", top: 12, left: 16 }}
+          />
+        </Tooltip>
+        <Tooltip
+          title={`Search Backend: ${searchBackendLabels[searchBackendSettings.type]}`}
+        >
+          <IconButton
+            onClick={() => setBackendDialogOpen(true)}
+            sx={{ position: "absolute", top: 8, right: 48 }}
+          >
+            <SettingsIcon />
+          </IconButton>
+        </Tooltip>
+        <SearchBackendDialog
+          open={backendDialogOpen}
+          settings={searchBackendSettings}
+          onClose={() => setBackendDialogOpen(false)}
+          onSave={onSaveSearchBackendSettings}
+        />
 
         {/* First Row: TextField */}
         <Box sx={{ display: "flex", flexDirection: "column", gap: 2 }}>
@@ -128,39 +270,132 @@ const APISearchDrawer: React.FC<APISearchDrawerProps> = ({
 
           {/* Second Row: Buttons */}
           <Box sx={{ display: "flex", gap: 2 }}>
-            <Button
-              variant="contained"
-              sx={{ flex: 1, whiteSpace: "normal", textAlign: "center" }}
-              onClick={() => handleSearch("local")}
-              disabled={
-                !serverUp ||
-                !localSearchEnabled ||
-                loadingLocal ||
-                loadingGlobal
-              }
-            >
-              {loadingLocal ? <CircularProgress size={24} /> : "Local Search"}
-            </Button>
-            <Button
-              variant="contained"
-              color="success"
-              sx={{ flex: 1, whiteSpace: "normal", textAlign: "center" }}
-              onClick={() => handleSearch("global")}
-              disabled={
-                !serverUp ||
-                !globalSearchEnabled ||
-                loadingLocal ||
-                loadingGlobal
-              }
-            >
-              {loadingGlobal ? <CircularProgress size={24} /> : "Global Search"}
-            </Button>
+            {searchTypes.map((searchType) => (
+              <Button
+                key={searchType}
+                variant="contained"
+                color={searchButtonColors[searchType]}
+                sx={{ flex: 1, whiteSpace: "normal", textAlign: "center" }}
+                onClick={() => handleSearch(searchType)}
+                disabled={
+                  !serverUp ||
+                  !searchEnabled[searchType] ||
+                  loadingType !== null
+                }
+              >
+                {loadingType === searchType ? (
+                  <CircularProgress size={24} />
+                ) : (
+                  searchTypeLabels[searchType]
+                )}
+              </Button>
+            ))}
+            {loadingType !== null && (
+              <Button
+                variant="outlined"
+                color="error"
+                startIcon={<StopIcon />}
+                onClick={onCancelSearch}
+              >
+                Cancel
+              </Button>
+            )}
           </Box>
 
-          {!serverUp && (
+          {handleBuildContext && (
+            <Card variant="outlined">
+              <CardHeader
+                title="Offline Local Context"
+                subheader="Assemble the local search context in the browser from the seed entities, or the entities matching the query"
+                action={
+                  <IconButton
+                    onClick={() => setShowContextOptions(!showContextOptions)}
+                  >
+                    {showContextOptions ? (
+                      <ExpandLessIcon />
+                    ) : (
+                      <ExpandMoreIcon />
+                    )}
+                  </IconButton>
+                }
+              />
+              <CardContent
+                sx={{ display: "flex", flexDirection: "column", gap: 2 }}
+              >
+                <Autocomplete
+                  multiple
+                  options={entityNames}
+                  value={seedNames}
+                  onChange={(_, value) => setSeedNames(value)}
+                  renderInput={(params) => (
+                    <TextField {...params} label="Seed Entities" />
+                  )}
+                />
+                <Collapse in={showContextOptions}>
+                  <Box sx={{ display: "flex", gap: 1, flexWrap: "wrap" }}>
+                    {contextOptionFields.map(({ key, label, step }) => (
+                      <TextField
+                        key={key}
+                        type="number"
+                        size="small"
+                        label={label}
+                        value={contextOptions[key]}
+                        inputProps={{ min: 0, step }}
+                        onChange={(e) =>
+                          setContextOptions({
+                            ...contextOptions,
+                            [key]: Number(e.target.value),
+                          })
+                        }
+                        sx={{ width: 160 }}
+                      />
+                    ))}
+                  </Box>
+                </Collapse>
+                <Button
+                  variant="outlined"
+                  onClick={() =>
+                    handleBuildContext(query, seedNames, contextOptions)
+                  }
+                  disabled={seedNames.length === 0 && !query.trim()}
+                >
+                  Build Context
+                </Button>
+              </CardContent>
+            </Card>
+          )}
+
+          <SearchHistoryPanel
+            history={searchHistory}
+            onOpen={(entry) => {
+              setQuery(entry.query);
+              onOpenHistoryEntry(entry);
+            }}
+            onRename={onRenameHistoryEntry}
+            onToggleStar={onToggleHistoryStar}
+            onDelete={onDeleteHistoryEntry}
+            onExport={onExportHistory}
+          />
+
+          {!serverUp && searchBackendSettings.type === "mock" && (
+            <Alert severity="error" sx={{ mt: 1 }}>
+              No recorded search results. Import some in the search backend
+              settings to use the mock backend.
+            </Alert>
+          )}
+          {!serverUp &&
+            (searchBackendSettings.type === "openai" ||
+              searchBackendSettings.type === "rest") && (
+              <Alert severity="error" sx={{ mt: 1 }}>
+                The search backend at {searchBackendSettings.baseUrl} is not
+                reachable. Check the search backend settings.
+              </Alert>
+            )}
+          {!serverUp && searchBackendSettings.type === "graphrag-api" && (
             <Alert severity="error" sx={{ mt: 1 }}>
-              Server is not running. Please start the server to use the API.
-              Follow the instructions at{" "}
+              The server at {searchBackendSettings.baseUrl} is not running.
+              Please start the server to use the API, or change its address in
+              the search backend settings. Follow the instructions at{" "}
               <Link
                 href="https://github.com/noworneverev/graphrag-api"
                 target="_blank"
@@ -174,8 +409,8 @@ const APISearchDrawer: React.FC<APISearchDrawerProps> = ({
           {!localSearchEnabled && (
             <Alert severity="warning" sx={{ mt: 1 }}>
               Please enable "Include Text Unit" and "Include Communities"
-              {hasCovariates && ', and "Include Covariates"'} to use Local
-              Search.
+              {hasCovariates && ', and "Include Covariates"'} to use Local and
+              DRIFT Search.
             </Alert>
           )}
           {!globalSearchEnabled && (
@@ -183,6 +418,11 @@ const APISearchDrawer: React.FC<APISearchDrawerProps> = ({
               Please enable "Include Communities" to use Global Search.
             </Alert>
           )}
+          {!basicSearchEnabled && (
+            <Alert severity="warning" sx={{ mt: 1 }}>
+              Please enable "Include Text Unit" to use Basic Search.
+            </Alert>
+          )}
         </Box>
 
         {apiSearchResults && (
@@ -191,15 +431,71 @@ const APISearchDrawer: React.FC<APISearchDrawerProps> = ({
             <Card sx={{ marginTop: 2 }}>
               <CardHeader title="Search Results" />
               <CardContent>
-                <Typography variant="body1" sx={{ whiteSpace: "pre-wrap" }}>
-                  {apiSearchResults.response}
-                </Typography>
+                {loadingType !== null && (
+                  <Box sx={{ mb: 2 }}>
+                    {apiSearchResults.map_responses && (
+                      <Typography variant="body2" color="textSecondary">
+                        Map phase: {apiSearchResults.map_responses.length}{" "}
+                        {apiSearchResults.map_responses.length === 1
+                          ? "response"
+                          : "responses"}{" "}
+                        received
+                      </Typography>
+                    )}
+                    <LinearProgress />
+                  </Box>
+                )}
+                <AnswerMarkdown
+                  text={apiSearchResults.response}
+                  onCitationClick={onCitationClick}
+                  canResolveCitation={canResolveCitation}
+                />
               </CardContent>
             </Card>
 
+            {apiSearchResults.drift_tree && (
+              <Card sx={{ marginTop: 2 }}>
+                <CardHeader
+                  title="Follow-up Queries"
+                  subheader="The primer query and the follow-up queries DRIFT search explored, by score"
+                />
+                <CardContent>
+                  <DriftTreeView tree={apiSearchResults.drift_tree} />
+                </CardContent>
+              </Card>
+            )}
+
+            {apiSearchResults.map_responses &&
+              apiSearchResults.map_responses.length > 0 && (
+                <Card sx={{ marginTop: 2 }}>
+                  <CardHeader
+                    title="Map/Reduce"
+                    subheader="The points each global search map call scored, and which of them the reduce step was given"
+                  />
+                  <CardContent>
+                    <GlobalSearchInspector
+                      result={apiSearchResults}
+                      onCitationClick={onCitationClick}
+                      canResolveCitation={canResolveCitation}
+                    />
+                  </CardContent>
+                </Card>
+              )}
+
             {/* Metadata Card */}
             <Card sx={{ marginTop: 2 }}>
-              <CardHeader title="Metadata" />
+              <CardHeader
+                title="Metadata"
+                action={
+                  apiSearchResults.context_text && (
+                    <Tooltip title="Copy Prompt Context">
+                      <IconButton onClick={handleCopyContext}>
+                        <ContentCopyIcon />
+                      </IconButton>
+                    </Tooltip>
+                  )
+                }
+              />
               <CardContent>
                 <Typography variant="body2">
                   <strong>Completion Time:</strong>{" "}
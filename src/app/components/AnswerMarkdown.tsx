@@ -0,0 +1,59 @@
+import React, { useMemo } from "react";
+import { Box, Link } from "@mui/material";
+import Markdown, { Components } from "react-markdown";
+import { Citation, linkCitations, parseCitationHref } from "../utils/citations";
+import CitationChip from "./CitationChip";
+
+interface AnswerMarkdownProps {
+  text: string;
+  variant?: "body1" | "body2";
+  onCitationClick?: (citation: Citation) => void;
+  canResolveCitation?: (citation: Citation) => boolean;
+}
+
+const AnswerMarkdown: React.FC<AnswerMarkdownProps> = ({
+  text,
+  variant = "body1",
+  onCitationClick,
+  canResolveCitation,
+}) => {
+  const markdown = useMemo(() => linkCitations(text), [text]);
+
+  const components: Components = {
+    a: ({ href, children }) => {
+      const citation = parseCitationHref(href);
+      if (!citation) {
+        return (
+          <Link href={href} target="_blank" rel="noopener noreferrer">
+            {children}
+          </Link>
+        );
+      }
+      return (
+        <CitationChip
+          citation={citation}
+          label={children}
+          onCitationClick={onCitationClick}
+          canResolveCitation={canResolveCitation}
+        />
+      );
+    },
+  };
+
+  return (
+    <Box
+      sx={{
+        typography: variant,
+        "& p": { mt: 0, mb: 1.5 },
+        "& h1, & h2, & h3, & h4": { mt: 2, mb: 1 },
+        "& ul, & ol": { mt: 0, mb: 1.5, pl: 3 },
+        "& pre": { overflowX: "auto" },
+        "& > :last-child": { mb: 0 },
+      }}
+    >
+      <Markdown components={components}>{markdown}</Markdown>
+    </Box>
+  );
+};
+
+export default AnswerMarkdown;
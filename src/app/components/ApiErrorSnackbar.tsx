@@ -0,0 +1,40 @@
+import React from "react";
+import { Alert, AlertTitle, Snackbar } from "@mui/material";
+import { ApiError, apiErrorTitles } from "../api/api-error";
+
+interface ApiErrorSnackbarProps {
+  error: ApiError | null;
+  onClose: () => void;
+}
+
+const ApiErrorSnackbar: React.FC<ApiErrorSnackbarProps> = ({
+  error,
+  onClose,
+}) => (
+  <Snackbar
+    open={error !== null}
+    autoHideDuration={10000}
+    onClose={(_, reason) => {
+      if (reason !== "clickaway") onClose();
+    }}
+    anchorOrigin={{ vertical: "bottom", horizontal: "center" }}
+    // Above the search drawer the failed search was started from
+    sx={{ zIndex: 1700 }}
+  >
+    <Alert
+      severity={error?.kind === "timeout" ? "warning" : "error"}
+      variant="filled"
+      onClose={onClose}
+      sx={{ maxWidth: 600 }}
+    >
+      {error && (
+        <>
+          <AlertTitle>{apiErrorTitles[error.kind]}</AlertTitle>
+          {error.message}
+        </>
+      )}
+    </Alert>
+  </Snackbar>
+);
+
+export default ApiErrorSnackbar;
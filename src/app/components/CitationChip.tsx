@@ -0,0 +1,34 @@
+import React from "react";
+import { Chip } from "@mui/material";
+import { Citation, getCitationLabel } from "../utils/citations";
+
+interface CitationChipProps {
+  citation: Citation;
+  label?: React.ReactNode;
+  onCitationClick?: (citation: Citation) => void;
+  // Citations of rows that aren't in the displayed graph are disabled
+  canResolveCitation?: (citation: Citation) => boolean;
+}
+
+const CitationChip: React.FC<CitationChipProps> = ({
+  citation,
+  label,
+  onCitationClick,
+  canResolveCitation,
+}) => {
+  const resolvable = canResolveCitation?.(citation) ?? false;
+  return (
+    <Chip
+      component="span"
+      size="small"
+      variant="outlined"
+      color={resolvable ? "primary" : "default"}
+      label={label ?? getCitationLabel(citation)}
+      disabled={!resolvable || !onCitationClick}
+      onClick={() => onCitationClick?.(citation)}
+      sx={{ mx: 0.25, verticalAlign: "baseline" }}
+    />
+  );
+};
+
+export default CitationChip;
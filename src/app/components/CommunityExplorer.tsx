@@ -0,0 +1,293 @@
+import React, { useMemo, useState } from "react";
+import {
+  Box,
+  Breadcrumbs,
+  IconButton,
+  Link,
+  Paper,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+  useTheme,
+} from "@mui/material";
+import CloseIcon from "@mui/icons-material/Close";
+import * as d3 from "d3";
+import {
+  CommunityHierarchyNode,
+  getCommunityPath,
+  getOwnSize,
+} from "../utils/community-hierarchy";
+
+type HierarchyView = "sunburst" | "treemap" | "icicle";
+
+interface CommunityExplorerProps {
+  hierarchy: CommunityHierarchyNode;
+  // The community the graph is filtered to, null for the whole graph
+  selected: CommunityHierarchyNode | null;
+  onSelect: (community: CommunityHierarchyNode | null) => void;
+  onClose: () => void;
+}
+
+const WIDTH = 420;
+const HEIGHT = 320;
+const RADIUS = HEIGHT / 2;
+const LABEL_MIN_WIDTH = 40;
+
+const VIEWS: { value: HierarchyView; label: string }[] = [
+  { value: "sunburst", label: "Sunburst" },
+  { value: "treemap", label: "Treemap" },
+  { value: "icicle", label: "Icicle" },
+];
+
+type LayoutNode = d3.HierarchyRectangularNode<CommunityHierarchyNode>;
+
+const describe = ({ data }: LayoutNode) =>
+  data.level < 0
+    ? `${data.title}: ${data.children.length} top-level communities`
+    : `${data.title} · level ${data.level} · size ${data.size}${
+        data.rank !== null ? ` · rank ${data.rank}` : ""
+      }`;
+
+const CommunityExplorer: React.FC<CommunityExplorerProps> = ({
+  hierarchy,
+  selected,
+  onSelect,
+  onClose,
+}) => {
+  const theme = useTheme();
+  const [view, setView] = useState<HierarchyView>("sunburst");
+  const [hovered, setHovered] = useState<LayoutNode | null>(null);
+  // Zooming follows the graph filter: the selected community fills the chart
+  const focus = selected ?? hierarchy;
+  const path = useMemo(
+    () => getCommunityPath(hierarchy, focus) ?? [hierarchy],
+    [hierarchy, focus]
+  );
+
+  const rankColor = useMemo(() => {
+    const ranks: number[] = [];
+    const collect = (node: CommunityHierarchyNode) => {
+      if (node.rank !== null) ranks.push(node.rank);
+      node.children.forEach(collect);
+    };
+    collect(hierarchy);
+    const [min, max] = d3.extent(ranks);
+    return d3
+      .scaleSequential(d3.interpolateYlOrRd)
+      .domain([min ?? 0, max !== undefined && max > (min ?? 0) ? max : 10]);
+  }, [hierarchy]);
+
+  const fill = ({ data }: LayoutNode) =>
+    data.rank === null ? theme.palette.grey[400] : rankColor(data.rank);
+
+  const root = useMemo(() => {
+    const node = d3
+      .hierarchy(focus, (community) => community.children)
+      .sum(getOwnSize)
+      .sort((a, b) => (b.value ?? 0) - (a.value ?? 0));
+    switch (view) {
+      case "treemap":
+        return d3
+          .treemap<CommunityHierarchyNode>()
+          .size([WIDTH, HEIGHT])
+          .paddingTop(14)
+          .paddingInner(1)
+          .round(true)(node);
+      case "icicle":
+        return d3.partition<CommunityHierarchyNode>().size([HEIGHT, WIDTH])(
+          node
+        );
+      default:
+        return d3
+          .partition<CommunityHierarchyNode>()
+          .size([2 * Math.PI, RADIUS])(node);
+    }
+  }, [focus, view]);
+
+  const arc = d3
+    .arc<LayoutNode>()
+    .startAngle((node) => node.x0)
+    .endAngle((node) => node.x1)
+    .innerRadius((node) => node.y0)
+    .outerRadius((node) => node.y1 - 1)
+    .padAngle(0.002);
+
+  // Clicking a community zooms into it, clicking the one in focus zooms out
+  const handleClick = (node: LayoutNode) => {
+    if (node.depth > 0) {
+      onSelect(node.data);
+    } else if (path.length > 1) {
+      const parent = path[path.length - 2];
+      onSelect(parent === hierarchy ? null : parent);
+    }
+  };
+
+  const nodeKey = (node: LayoutNode) => `${node.data.community}-${node.depth}`;
+
+  const nodeProps = (node: LayoutNode) => ({
+    fill: fill(node),
+    stroke: theme.palette.background.paper,
+    style: { cursor: "pointer" },
+    onClick: () => handleClick(node),
+    onMouseEnter: () => setHovered(node),
+    onMouseLeave: () => setHovered(null),
+  });
+
+  const renderChart = () => {
+    const nodes = root.descendants();
+    if (view === "sunburst") {
+      return (
+        <g transform={`translate(${WIDTH / 2},${HEIGHT / 2})`}>
+          {nodes.map((node) =>
+            node.depth === 0 ? (
+              <circle key={nodeKey(node)} {...nodeProps(node)} r={node.y1} />
+            ) : (
+              <path
+                key={nodeKey(node)}
+                {...nodeProps(node)}
+                d={arc(node) ?? undefined}
+              />
+            )
+          )}
+        </g>
+      );
+    }
+    // The icicle lays levels out left to right: x is depth, y is size
+    const rect = (node: LayoutNode) =>
+      view === "icicle"
+        ? {
+            x: node.y0,
+            y: node.x0,
+            width: node.y1 - node.y0,
+            height: node.x1 - node.x0,
+          }
+        : {
+            x: node.x0,
+            y: node.y0,
+            width: node.x1 - node.x0,
+            height: node.y1 - node.y0,
+          };
+    return nodes.map((node) => {
+      const { x, y, width, height } = rect(node);
+      return (
+        <g key={nodeKey(node)}>
+          <rect
+            {...nodeProps(node)}
+            x={x}
+            y={y}
+            width={Math.max(0, width - 1)}
+            height={Math.max(0, height - 1)}
+          />
+          {width > LABEL_MIN_WIDTH && height > 12 && (
+            <text
+              x={x + 3}
+              y={y + 11}
+              fontSize={10}
+              fill={theme.palette.text.primary}
+              pointerEvents="none"
+            >
+              {node.data.title.slice(0, Math.floor(width / 6))}
+            </text>
+          )}
+        </g>
+      );
+    });
+  };
+
+  return (
+    <Paper
+      elevation={6}
+      sx={{
+        position: "absolute",
+        bottom: 10,
+        right: 10,
+        zIndex: 1400,
+        padding: 1.5,
+        width: WIDTH + 24,
+      }}
+    >
+      <Box
+        sx={{
+          display: "flex",
+          justifyContent: "space-between",
+          alignItems: "center",
+          mb: 1,
+        }}
+      >
+        <Typography variant="h6">Communities</Typography>
+        <IconButton size="small" onClick={onClose}>
+          <CloseIcon />
+        </IconButton>
+      </Box>
+
+      {hierarchy.children.length === 0 ? (
+        <Typography variant="body2" color="textSecondary">
+          No communities are loaded. Drop the communities and community reports
+          parquet files to explore the community hierarchy.
+        </Typography>
+      ) : (
+        <>
+          <Box
+            sx={{
+              display: "flex",
+              justifyContent: "space-between",
+              alignItems: "center",
+              mb: 1,
+            }}
+          >
+            <ToggleButtonGroup
+              size="small"
+              exclusive
+              value={view}
+              onChange={(_, value) => value && setView(value)}
+            >
+              {VIEWS.map(({ value, label }) => (
+                <ToggleButton key={value} value={value}>
+                  {label}
+                </ToggleButton>
+              ))}
+            </ToggleButtonGroup>
+            <Typography variant="caption" color="textSecondary">
+              Size: entities · Color: rank
+            </Typography>
+          </Box>
+
+          <Breadcrumbs maxItems={4} sx={{ mb: 1 }}>
+            {path.map((community, index) =>
+              index === path.length - 1 ? (
+                <Typography key={community.community} variant="body2">
+                  {community.title}
+                </Typography>
+              ) : (
+                <Link
+                  key={community.community}
+                  component="button"
+                  variant="body2"
+                  onClick={() =>
+                    onSelect(community === hierarchy ? null : community)
+                  }
+                >
+                  {community.title}
+                </Link>
+              )
+            )}
+          </Breadcrumbs>
+
+          <svg width={WIDTH} height={HEIGHT}>
+            {renderChart()}
+          </svg>
+
+          <Typography variant="body2" color="textSecondary" noWrap>
+            {hovered
+              ? describe(hovered)
+              : selected
+                ? `Graph filtered to ${selected.title}`
+                : "Click a community to filter the graph to it"}
+          </Typography>
+        </>
+      )}
+    </Paper>
+  );
+};
+
+export default CommunityExplorer;
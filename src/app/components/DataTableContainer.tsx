@@ -18,6 +18,13 @@ import {
   communityReportColumns,
 } from "../models/community-report";
 import { Covariate, covariateColumns } from "../models/covariate";
+import { Node, nodeColumns } from "../models/node";
+import { DiffRecord, diffColumns, IndexDiff } from "../models/index-diff";
+import {
+  getSchemaFileName,
+  getVersionAdapter,
+  GraphRAGVersion,
+} from "../utils/graphrag-versions";
 
 interface DataTableContainerProps {
   selectedTable: string;
@@ -30,6 +37,8 @@ interface DataTableContainerProps {
       | "communities"
       | "communityReports"
       | "covariates"
+      | "nodes"
+      | "diff"
     >
   ) => void;
   entities: Entity[];
@@ -39,6 +48,9 @@ interface DataTableContainerProps {
   communities: Community[];
   communityReports: CommunityReport[];
   covariates: Covariate[];
+  nodes: Node[];
+  graphragVersion: GraphRAGVersion | null;
+  indexDiff: IndexDiff | null;
 }
 
 const DataTableContainer: React.FC<DataTableContainerProps> = ({
@@ -51,7 +63,21 @@ const DataTableContainer: React.FC<DataTableContainerProps> = ({
   communities,
   communityReports,
   covariates,
+  nodes,
+  graphragVersion,
+  indexDiff,
 }) => {
+  const fileName = (schema: string) =>
+    getSchemaFileName(schema, graphragVersion ?? undefined);
+
+  const diffRecords: DiffRecord[] = indexDiff
+    ? [
+        ...indexDiff.entities,
+        ...indexDiff.relationships,
+        ...indexDiff.communities,
+      ].filter((record) => record.status !== "unchanged")
+    : [];
+
   return (
     <>
       <Drawer
@@ -108,13 +134,34 @@ const DataTableContainer: React.FC<DataTableContainerProps> = ({
           >
             <ListItemText primary="Covariates" />
           </ListItemButton>
+
+          <ListItemButton
+            selected={selectedTable === "nodes"}
+            onClick={() => setSelectedTable("nodes")}
+          >
+            <ListItemText primary="Nodes" />
+          </ListItemButton>
+
+          {indexDiff && (
+            <ListItemButton
+              selected={selectedTable === "diff"}
+              onClick={() => setSelectedTable("diff")}
+            >
+              <ListItemText primary="Index Diff" />
+            </ListItemButton>
+          )}
         </List>
+        {graphragVersion && (
+          <Typography variant="caption" color="text.secondary" sx={{ px: 2 }}>
+            {getVersionAdapter(graphragVersion).label} artifacts
+          </Typography>
+        )}
       </Drawer>
       <Box p={3} sx={{ flexGrow: 1, overflow: "auto" }}>
         {selectedTable === "entities" && (
           <>
             <Typography variant="h4" gutterBottom>
-              Entities (create_final_entities.parquet)
+              Entities ({fileName("entity")})
             </Typography>
             <DataTable columns={entityColumns} data={entities} />
           </>
@@ -122,7 +169,7 @@ const DataTableContainer: React.FC<DataTableContainerProps> = ({
         {selectedTable === "relationships" && (
           <>
             <Typography variant="h4" gutterBottom>
-              Relationships (create_final_relationships.parquet)
+              Relationships ({fileName("relationship")})
             </Typography>
             <DataTable columns={relationshipColumns} data={relationships} />
           </>
@@ -130,7 +177,7 @@ const DataTableContainer: React.FC<DataTableContainerProps> = ({
         {selectedTable === "documents" && (
           <>
             <Typography variant="h4" gutterBottom>
-              Documents (create_final_documents.parquet)
+              Documents ({fileName("document")})
             </Typography>
             <DataTable columns={documentColumns} data={documents} />
           </>
@@ -138,7 +185,7 @@ const DataTableContainer: React.FC<DataTableContainerProps> = ({
         {selectedTable === "textunits" && (
           <>
             <Typography variant="h4" gutterBottom>
-              TextUnits (create_final_text_units.parquet)
+              TextUnits ({fileName("text_unit")})
             </Typography>
             <DataTable columns={textUnitColumns} data={textunits} />
           </>
@@ -146,7 +193,7 @@ const DataTableContainer: React.FC<DataTableContainerProps> = ({
         {selectedTable === "communities" && (
           <>
             <Typography variant="h4" gutterBottom>
-              Communities (create_final_communities.parquet)
+              Communities ({fileName("community")})
             </Typography>
             <DataTable columns={communityColumns} data={communities} />
           </>
@@ -154,7 +201,7 @@ const DataTableContainer: React.FC<DataTableContainerProps> = ({
         {selectedTable === "communityReports" && (
           <>
             <Typography variant="h4" gutterBottom>
-              Community Reports (create_final_community_reports.parquet)
+              Community Reports ({fileName("community_report")})
             </Typography>
             <DataTable
               columns={communityReportColumns}
@@ -165,11 +212,27 @@ const DataTableContainer: React.FC<DataTableContainerProps> = ({
         {selectedTable === "covariates" && (
           <>
             <Typography variant="h4" gutterBottom>
-              Covariates (create_final_covariates.parquet)
+              Covariates ({fileName("covariate")})
             </Typography>
             <DataTable columns={covariateColumns} data={covariates} />
           </>
         )}
+        {selectedTable === "nodes" && (
+          <>
+            <Typography variant="h4" gutterBottom>
+              Nodes ({fileName("node")})
+            </Typography>
+            <DataTable columns={nodeColumns} data={nodes} />
+          </>
+        )}
+        {selectedTable === "diff" && indexDiff && (
+          <>
+            <Typography variant="h4" gutterBottom>
+              Index Diff ({diffRecords.length} changes)
+            </Typography>
+            <DataTable columns={diffColumns} data={diffRecords} />
+          </>
+        )}
       </Box>
     </>
   );
@@ -25,6 +25,7 @@ import { documentColumns } from "../models/document";
 import { covariateColumns } from "../models/covariate";
 import { MRT_ColumnDef } from "material-react-table";
 import { entityColumns } from "../models/entity";
+import { nodeColumns } from "../models/node";
 
 interface DetailDrawerProps {
   bottomDrawerOpen: boolean;
@@ -105,6 +106,11 @@ const DetailDrawer: React.FC<DetailDrawerProps> = ({
         validAccessorKeys.add(tc.accessorKey);
       }
     });
+    nodeColumns.forEach((tc) => {
+      if (tc.accessorKey) {
+        validAccessorKeys.add(tc.accessorKey);
+      }
+    });
     validAccessorKeys.add("uuid");
     return customNodeColumns.filter(
       (column) =>
@@ -182,6 +188,9 @@ const DetailDrawer: React.FC<DetailDrawerProps> = ({
                   Covariate Type: {selectedNode.covariate_type}
                 </Typography>
               )}
+              {selectedNode.claim_type && (
+                <Typography>Claim Type: {selectedNode.claim_type}</Typography>
+              )}
               <Typography>Type: {selectedNode.type}</Typography>
               {selectedNode.title && (
                 <Typography>Title: {selectedNode.title}</Typography>
@@ -210,6 +219,16 @@ const DetailDrawer: React.FC<DetailDrawerProps> = ({
                     Human Readable ID: {selectedNode.human_readable_id}
                   </Typography>
                 ))} */}
+              {selectedNode.community !== undefined &&
+                selectedNode.type !== "COMMUNITY" && (
+                  <Typography>
+                    Community: {selectedNode.community} (level{" "}
+                    {selectedNode.level})
+                  </Typography>
+                )}
+              {selectedNode.degree !== undefined && (
+                <Typography>Degree: {selectedNode.degree}</Typography>
+              )}
               {selectedNode.raw_content && (
                 <Typography>Raw Content: {selectedNode.raw_content}</Typography>
               )}
@@ -0,0 +1,109 @@
+import React, { useMemo, useState } from "react";
+import {
+  Box,
+  Chip,
+  Collapse,
+  IconButton,
+  List,
+  ListItem,
+  Typography,
+} from "@mui/material";
+import ExpandMoreIcon from "@mui/icons-material/ExpandMore";
+import ChevronRightIcon from "@mui/icons-material/ChevronRight";
+import { DriftNode, DriftTree } from "../models/search-result";
+import { getDriftHierarchy } from "../utils/search-results";
+
+interface DriftTreeViewProps {
+  tree: DriftTree;
+}
+
+interface DriftTreeItemProps {
+  node: DriftNode;
+  childNodes: Map<number, DriftNode[]>;
+  depth: number;
+}
+
+const DriftTreeItem: React.FC<DriftTreeItemProps> = ({
+  node,
+  childNodes,
+  depth,
+}) => {
+  const [expanded, setExpanded] = useState(depth === 0);
+  const children = childNodes.get(node.id) ?? [];
+  // Follow-ups the search didn't get to are only listed on their parent
+  const pending = (node.follow_up_queries ?? []).filter(
+    (query) => !children.some((child) => child.query === query)
+  );
+  const hasDetails = !!node.answer || children.length > 0 || pending.length > 0;
+
+  return (
+    <>
+      <ListItem
+        disableGutters
+        sx={{ pl: depth * 2, alignItems: "flex-start" }}
+        secondaryAction={
+          node.score !== null && node.score !== undefined ? (
+            <Chip size="small" label={`score ${node.score}`} />
+          ) : undefined
+        }
+      >
+        <IconButton
+          size="small"
+          disabled={!hasDetails}
+          onClick={() => setExpanded(!expanded)}
+        >
+          {expanded ? <ExpandMoreIcon /> : <ChevronRightIcon />}
+        </IconButton>
+        <Typography variant="body2" sx={{ pt: 0.75, pr: 10 }}>
+          <strong>{node.query}</strong>
+        </Typography>
+      </ListItem>
+      <Collapse in={expanded} timeout="auto" unmountOnExit>
+        <Box sx={{ pl: depth * 2 + 5 }}>
+          {node.answer && (
+            <Typography
+              variant="body2"
+              color="textSecondary"
+              sx={{ whiteSpace: "pre-wrap", mb: 1 }}
+            >
+              {node.answer}
+            </Typography>
+          )}
+          {pending.map((query) => (
+            <Typography key={query} variant="body2" color="textSecondary">
+              • {query} (not searched)
+            </Typography>
+          ))}
+        </Box>
+        {children.map((child) => (
+          <DriftTreeItem
+            key={child.id}
+            node={child}
+            childNodes={childNodes}
+            depth={depth + 1}
+          />
+        ))}
+      </Collapse>
+    </>
+  );
+};
+
+// The primer query and the follow-up queries DRIFT search explored from it
+const DriftTreeView: React.FC<DriftTreeViewProps> = ({ tree }) => {
+  const { roots, children } = useMemo(() => getDriftHierarchy(tree), [tree]);
+
+  return (
+    <List dense disablePadding>
+      {roots.map((node) => (
+        <DriftTreeItem
+          key={node.id}
+          node={node}
+          childNodes={children}
+          depth={0}
+        />
+      ))}
+    </List>
+  );
+};
+
+export default DriftTreeView;
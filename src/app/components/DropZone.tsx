@@ -41,7 +41,8 @@ const DropZone: React.FC<DropZoneProps> = ({
         <Typography variant="body1">Drop the files here...</Typography>
       ) : (
         <Typography variant="body1">
-          Drag 'n' drop parquet files here, or click to select files
+          Drag 'n' drop parquet files or a GraphRAG output folder (including
+          lancedb) here, or click to select files
         </Typography>
       )}
     </Box>
@@ -0,0 +1,388 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import {
+  Box,
+  FormControl,
+  IconButton,
+  InputLabel,
+  LinearProgress,
+  MenuItem,
+  Paper,
+  Select,
+  ToggleButton,
+  Tooltip,
+  Typography,
+  useTheme,
+} from "@mui/material";
+import CloseIcon from "@mui/icons-material/Close";
+import GestureIcon from "@mui/icons-material/Gesture";
+import * as d3 from "d3";
+import { CustomNode } from "../models/custom-graph-data";
+import {
+  MAX_TSNE_POINTS,
+  ProjectionMethod,
+  projectEmbeddingsInWorker,
+} from "../utils/projection-worker-client";
+import { isAbortError } from "../utils/parquet-worker-client";
+import { EmbeddingKey, embeddingKeys } from "../utils/semantic-search";
+
+interface EmbeddingExplorerProps {
+  nodes: CustomNode[];
+  highlightNodes: Set<CustomNode>;
+  getTypeColor: (node: CustomNode) => string;
+  onHoverNode: (node: CustomNode | null) => void;
+  onSelectNode: (node: CustomNode) => void;
+  onLassoSelect: (nodes: CustomNode[]) => void;
+  onClose: () => void;
+}
+
+const WIDTH = 420;
+const HEIGHT = 320;
+const PADDING = 12;
+const POINT_RADIUS = 3;
+const HOVER_DISTANCE = 6;
+
+const METHODS: { value: ProjectionMethod; label: string }[] = [
+  { value: "umap", label: "UMAP" },
+  { value: "tsne", label: "t-SNE" },
+  { value: "pca", label: "PCA" },
+];
+
+// Vectors of a different length than most of the others can't be projected
+// together, so only the most common dimension is kept
+const getEmbeddedNodes = (nodes: CustomNode[], key: EmbeddingKey) => {
+  const embedded = nodes.filter((node) => (node[key]?.length ?? 0) > 0);
+  const dimensions = d3.rollup(
+    embedded,
+    (group) => group.length,
+    (node) => node[key]!.length
+  );
+  const dimension = Array.from(dimensions.entries()).sort(
+    (a, b) => b[1] - a[1]
+  )[0]?.[0];
+  return embedded.filter((node) => node[key]!.length === dimension);
+};
+
+const EmbeddingExplorer: React.FC<EmbeddingExplorerProps> = ({
+  nodes,
+  highlightNodes,
+  getTypeColor,
+  onHoverNode,
+  onSelectNode,
+  onLassoSelect,
+  onClose,
+}) => {
+  const theme = useTheme();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const availableKeys = embeddingKeys.filter((key) =>
+    nodes.some((node) => (node[key]?.length ?? 0) > 0)
+  );
+  const [embeddingKey, setEmbeddingKey] = useState<EmbeddingKey>(
+    availableKeys[0] ?? "description_embedding"
+  );
+  const [method, setMethod] = useState<ProjectionMethod>("umap");
+  const [colorBy, setColorBy] = useState<"type" | "community">("type");
+  const [points, setPoints] = useState<[number, number][] | null>(null);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [hovered, setHovered] = useState<CustomNode | null>(null);
+  const [lassoMode, setLassoMode] = useState(false);
+  const [lassoPath, setLassoPath] = useState<[number, number][] | null>(null);
+
+  const embeddedNodes = useMemo(
+    () => getEmbeddedNodes(nodes, embeddingKey),
+    [nodes, embeddingKey]
+  );
+  // Filtering the graph hands over new node objects; the projection only
+  // needs redoing when the set of embedded nodes changes
+  const embeddedNodesKey = useMemo(
+    () => embeddedNodes.map((node) => node.id).join("\n"),
+    [embeddedNodes]
+  );
+  const tsneTooLarge = embeddedNodes.length > MAX_TSNE_POINTS;
+  const projectionMethod = method === "tsne" && tsneTooLarge ? "umap" : method;
+
+  useEffect(() => {
+    setPoints(null);
+    setError(null);
+    if (embeddedNodes.length === 0) return;
+
+    const abortController = new AbortController();
+    setProgress(0);
+    projectEmbeddingsInWorker(
+      embeddedNodes.map((node) => node[embeddingKey]!),
+      projectionMethod,
+      setProgress,
+      abortController.signal
+    )
+      .then((result) => {
+        setPoints(result);
+        setProgress(null);
+      })
+      .catch((err) => {
+        if (isAbortError(err)) return;
+        console.error("Embedding projection failed", err);
+        setError(err instanceof Error ? err.message : String(err));
+        setProgress(null);
+      });
+    return () => abortController.abort();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [embeddedNodesKey, embeddingKey, projectionMethod]);
+
+  // Projected coordinates fitted to the canvas
+  const screenPoints = useMemo(() => {
+    if (!points || points.length !== embeddedNodes.length) return [];
+    const x = d3
+      .scaleLinear()
+      .domain(d3.extent(points, (point) => point[0]) as [number, number])
+      .range([PADDING, WIDTH - PADDING]);
+    const y = d3
+      .scaleLinear()
+      .domain(d3.extent(points, (point) => point[1]) as [number, number])
+      .range([HEIGHT - PADDING, PADDING]);
+    return points.map(
+      ([px, py], index) =>
+        [x(px), y(py), embeddedNodes[index]] as [number, number, CustomNode]
+    );
+  }, [points, embeddedNodes]);
+
+  const communityColor = useMemo(
+    () => d3.scaleOrdinal<string, string>(d3.schemeTableau10),
+    []
+  );
+  const pointColor = (node: CustomNode) =>
+    colorBy === "type"
+      ? getTypeColor(node)
+      : node.community === undefined
+        ? theme.palette.grey[500]
+        : communityColor(node.community.toString());
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext("2d");
+    if (!ctx) return;
+    ctx.clearRect(0, 0, WIDTH, HEIGHT);
+
+    const hasHighlight = highlightNodes.size > 0;
+    screenPoints.forEach(([x, y, node]) => {
+      const isHighlighted = highlightNodes.has(node) || node === hovered;
+      ctx.globalAlpha = hasHighlight && !isHighlighted ? 0.25 : 1;
+      ctx.beginPath();
+      ctx.arc(
+        x,
+        y,
+        isHighlighted ? POINT_RADIUS * 1.8 : POINT_RADIUS,
+        0,
+        2 * Math.PI
+      );
+      ctx.fillStyle = pointColor(node);
+      ctx.fill();
+    });
+    ctx.globalAlpha = 1;
+
+    if (lassoPath && lassoPath.length > 1) {
+      ctx.beginPath();
+      ctx.moveTo(lassoPath[0][0], lassoPath[0][1]);
+      lassoPath.forEach(([x, y]) => ctx.lineTo(x, y));
+      ctx.closePath();
+      ctx.strokeStyle = theme.palette.primary.main;
+      ctx.setLineDash([4, 3]);
+      ctx.stroke();
+      ctx.setLineDash([]);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [screenPoints, highlightNodes, hovered, lassoPath, colorBy, theme]);
+
+  const toCanvasPoint = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return [event.clientX - rect.left, event.clientY - rect.top] as [
+      number,
+      number,
+    ];
+  };
+
+  const findNearest = ([mx, my]: [number, number]) => {
+    let nearest: CustomNode | null = null;
+    let nearestDistance = HOVER_DISTANCE;
+    screenPoints.forEach(([x, y, node]) => {
+      const distance = Math.hypot(x - mx, y - my);
+      if (distance < nearestDistance) {
+        nearest = node;
+        nearestDistance = distance;
+      }
+    });
+    return nearest as CustomNode | null;
+  };
+
+  const handleMouseDown = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    if (lassoMode) setLassoPath([toCanvasPoint(event)]);
+  };
+
+  const handleMouseMove = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    const point = toCanvasPoint(event);
+    if (lassoPath) {
+      setLassoPath([...lassoPath, point]);
+      return;
+    }
+    const nearest = findNearest(point);
+    if (nearest !== hovered) {
+      setHovered(nearest);
+      onHoverNode(nearest);
+    }
+  };
+
+  const handleMouseUp = () => {
+    if (!lassoPath) return;
+    const selected =
+      lassoPath.length > 2
+        ? screenPoints
+            .filter(([x, y]) => d3.polygonContains(lassoPath, [x, y]))
+            .map(([, , node]) => node)
+        : [];
+    setLassoPath(null);
+    onLassoSelect(selected);
+  };
+
+  const handleMouseLeave = () => {
+    if (hovered) {
+      setHovered(null);
+      onHoverNode(null);
+    }
+  };
+
+  const handleClick = () => {
+    if (!lassoMode && hovered) onSelectNode(hovered);
+  };
+
+  return (
+    <Paper
+      elevation={6}
+      sx={{
+        position: "absolute",
+        bottom: 10,
+        right: 10,
+        zIndex: 1400,
+        padding: 1.5,
+        width: WIDTH + 24,
+      }}
+    >
+      <Box
+        sx={{
+          display: "flex",
+          justifyContent: "space-between",
+          alignItems: "center",
+          mb: 1,
+        }}
+      >
+        <Typography variant="h6">Embeddings</Typography>
+        <IconButton size="small" onClick={onClose}>
+          <CloseIcon />
+        </IconButton>
+      </Box>
+
+      {availableKeys.length === 0 ? (
+        <Typography variant="body2" color="textSecondary">
+          No embedding vectors are loaded for the nodes in this graph. Drop the
+          lancedb folder along with the parquet files to load them.
+        </Typography>
+      ) : (
+        <>
+          <Box sx={{ display: "flex", gap: 1, mb: 1 }}>
+            <FormControl size="small" sx={{ flex: 2 }}>
+              <InputLabel id="embedding-key-label">Vectors</InputLabel>
+              <Select
+                labelId="embedding-key-label"
+                value={embeddingKey}
+                label="Vectors"
+                onChange={(e) =>
+                  setEmbeddingKey(e.target.value as EmbeddingKey)
+                }
+              >
+                {availableKeys.map((key) => (
+                  <MenuItem key={key} value={key}>
+                    {key}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            <FormControl size="small" sx={{ flex: 1 }}>
+              <InputLabel id="projection-method-label">Method</InputLabel>
+              <Select
+                labelId="projection-method-label"
+                value={method}
+                label="Method"
+                onChange={(e) => setMethod(e.target.value as ProjectionMethod)}
+              >
+                {METHODS.map(({ value, label }) => (
+                  <MenuItem
+                    key={value}
+                    value={value}
+                    disabled={value === "tsne" && tsneTooLarge}
+                  >
+                    {label}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            <FormControl size="small" sx={{ flex: 1 }}>
+              <InputLabel id="embedding-color-label">Color</InputLabel>
+              <Select
+                labelId="embedding-color-label"
+                value={colorBy}
+                label="Color"
+                onChange={(e) =>
+                  setColorBy(e.target.value as "type" | "community")
+                }
+              >
+                <MenuItem value="type">Type</MenuItem>
+                <MenuItem value="community">Community</MenuItem>
+              </Select>
+            </FormControl>
+            <Tooltip title="Lasso Select">
+              <ToggleButton
+                value="lasso"
+                size="small"
+                selected={lassoMode}
+                onChange={() => setLassoMode(!lassoMode)}
+              >
+                <GestureIcon />
+              </ToggleButton>
+            </Tooltip>
+          </Box>
+
+          {progress !== null && (
+            <LinearProgress variant="determinate" value={progress * 100} />
+          )}
+          {error && (
+            <Typography variant="body2" color="error">
+              {error}
+            </Typography>
+          )}
+          {method !== projectionMethod && (
+            <Typography variant="body2" color="textSecondary">
+              t-SNE is limited to {MAX_TSNE_POINTS} nodes; showing UMAP instead.
+            </Typography>
+          )}
+
+          <canvas
+            ref={canvasRef}
+            width={WIDTH}
+            height={HEIGHT}
+            style={{ cursor: lassoMode ? "crosshair" : "default" }}
+            onMouseDown={handleMouseDown}
+            onMouseMove={handleMouseMove}
+            onMouseUp={handleMouseUp}
+            onMouseLeave={handleMouseLeave}
+            onClick={handleClick}
+          />
+
+          <Typography variant="body2" color="textSecondary" noWrap>
+            {hovered
+              ? `${hovered.name} (${hovered.type})`
+              : `${embeddedNodes.length} nodes`}
+          </Typography>
+        </>
+      )}
+    </Paper>
+  );
+};
+
+export default EmbeddingExplorer;
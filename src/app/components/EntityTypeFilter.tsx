@@ -0,0 +1,116 @@
+import React, { useState } from "react";
+import {
+  Box,
+  Button,
+  Checkbox,
+  Divider,
+  ListItemIcon,
+  ListItemText,
+  Menu,
+  MenuItem,
+  Typography,
+} from "@mui/material";
+import FilterListIcon from "@mui/icons-material/FilterList";
+
+interface EntityTypeFilterProps {
+  // Entity types with how many entities have them, most common first
+  typeCounts: [string, number][];
+  hiddenTypes: Set<string>;
+  onHiddenTypesChange: (hiddenTypes: Set<string>) => void;
+}
+
+const typeLabel = (type: string) => type || "Unknown";
+
+// Checklist of the entity types in the loaded data, to hide types or isolate
+// a single one
+const EntityTypeFilter: React.FC<EntityTypeFilterProps> = ({
+  typeCounts,
+  hiddenTypes,
+  onHiddenTypesChange,
+}) => {
+  const [anchor, setAnchor] = useState<HTMLElement | null>(null);
+  const shownCount = typeCounts.filter(
+    ([type]) => !hiddenTypes.has(type)
+  ).length;
+
+  const toggleType = (type: string) => {
+    const hidden = new Set(hiddenTypes);
+    if (!hidden.delete(type)) hidden.add(type);
+    onHiddenTypesChange(hidden);
+  };
+
+  const isolateType = (type: string) =>
+    onHiddenTypesChange(
+      new Set(
+        typeCounts.map(([other]) => other).filter((other) => other !== type)
+      )
+    );
+
+  return (
+    <>
+      <Button
+        variant="outlined"
+        startIcon={<FilterListIcon />}
+        onClick={(e) => setAnchor(e.currentTarget)}
+      >
+        Entity Types ({shownCount}/{typeCounts.length})
+      </Button>
+      <Menu
+        anchorEl={anchor}
+        open={Boolean(anchor)}
+        onClose={() => setAnchor(null)}
+        slotProps={{ paper: { sx: { maxHeight: 400, minWidth: 260 } } }}
+      >
+        <Box
+          sx={{
+            display: "flex",
+            justifyContent: "space-between",
+            px: 2,
+            pb: 1,
+          }}
+        >
+          <Button size="small" onClick={() => onHiddenTypesChange(new Set())}>
+            Show All
+          </Button>
+          <Button
+            size="small"
+            onClick={() =>
+              onHiddenTypesChange(new Set(typeCounts.map(([type]) => type)))
+            }
+          >
+            Hide All
+          </Button>
+        </Box>
+        <Divider />
+        {typeCounts.map(([type, count]) => (
+          <MenuItem key={type} dense onClick={() => toggleType(type)}>
+            <ListItemIcon>
+              <Checkbox
+                edge="start"
+                size="small"
+                checked={!hiddenTypes.has(type)}
+                tabIndex={-1}
+                disableRipple
+              />
+            </ListItemIcon>
+            <ListItemText primary={typeLabel(type)} />
+            <Typography variant="body2" color="textSecondary" sx={{ mx: 1 }}>
+              {count}
+            </Typography>
+            <Button
+              size="small"
+              onClick={(e) => {
+                e.stopPropagation();
+                isolateType(type);
+              }}
+            >
+              Only
+            </Button>
+          </MenuItem>
+        ))}
+      </Menu>
+    </>
+  );
+};
+
+export default EntityTypeFilter;
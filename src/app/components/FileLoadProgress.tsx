@@ -0,0 +1,67 @@
+import React from "react";
+import { Box, Button, LinearProgress, Paper, Typography } from "@mui/material";
+import { ParquetProgress } from "../utils/parquet-worker-client";
+
+interface FileLoadProgressProps {
+  loadProgress: { [fileName: string]: ParquetProgress };
+  onCancel: () => void;
+  title?: string;
+}
+
+const FileLoadProgress: React.FC<FileLoadProgressProps> = ({
+  loadProgress,
+  onCancel,
+  title = "Loading artifacts",
+}) => {
+  return (
+    <Paper
+      elevation={6}
+      sx={{
+        position: "fixed",
+        bottom: 24,
+        right: 24,
+        width: 420,
+        padding: 2,
+        zIndex: 1600,
+      }}
+    >
+      <Box
+        sx={{
+          display: "flex",
+          justifyContent: "space-between",
+          alignItems: "center",
+          marginBottom: 1,
+        }}
+      >
+        <Typography variant="h6">{title}</Typography>
+        <Button color="error" onClick={onCancel}>
+          Cancel
+        </Button>
+      </Box>
+      {Object.entries(loadProgress).map(([fileName, progress]) => (
+        <Box key={fileName} sx={{ marginTop: 1 }}>
+          <Box sx={{ display: "flex", justifyContent: "space-between" }}>
+            <Typography variant="body2" noWrap>
+              {fileName}
+            </Typography>
+            <Typography variant="body2" color="textSecondary">
+              {progress.totalRows > 0
+                ? `${progress.rowsRead.toLocaleString()} / ${progress.totalRows.toLocaleString()} rows`
+                : "Waiting"}
+            </Typography>
+          </Box>
+          <LinearProgress
+            variant={progress.totalRows > 0 ? "determinate" : "indeterminate"}
+            value={
+              progress.totalRows > 0
+                ? (progress.rowsRead / progress.totalRows) * 100
+                : undefined
+            }
+          />
+        </Box>
+      ))}
+    </Paper>
+  );
+};
+
+export default FileLoadProgress;
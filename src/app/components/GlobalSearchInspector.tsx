@@ -0,0 +1,225 @@
+import React, { useMemo, useState } from "react";
+import {
+  Accordion,
+  AccordionDetails,
+  AccordionSummary,
+  Box,
+  Button,
+  Chip,
+  Collapse,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+} from "@mui/material";
+import ExpandMoreIcon from "@mui/icons-material/ExpandMore";
+import { SearchResult } from "../models/search-result";
+import { Citation } from "../utils/citations";
+import {
+  inspectGlobalSearch,
+  MapResponseInspection,
+  PointOutcome,
+} from "../utils/global-search";
+import AnswerMarkdown from "./AnswerMarkdown";
+import CitationChip from "./CitationChip";
+
+interface GlobalSearchInspectorProps {
+  result: SearchResult;
+  onCitationClick: (citation: Citation) => void;
+  canResolveCitation: (citation: Citation) => boolean;
+}
+
+interface MapResponseDetailsProps extends Omit<
+  GlobalSearchInspectorProps,
+  "result"
+> {
+  mapResponse: MapResponseInspection;
+}
+
+const outcomeChips: Record<
+  PointOutcome,
+  { label: string; color: "success" | "default" | "warning" }
+> = {
+  reduced: { label: "Reduced", color: "success" },
+  "zero-score": { label: "Score 0", color: "default" },
+  "over-budget": { label: "Over Budget", color: "warning" },
+  unknown: { label: "Unknown", color: "default" },
+};
+
+const contextTextSx = {
+  whiteSpace: "pre-wrap",
+  fontFamily: "monospace",
+  fontSize: 12,
+  maxHeight: 320,
+  overflowY: "auto",
+  p: 1,
+  bgcolor: "action.hover",
+  borderRadius: 1,
+} as const;
+
+const MapResponseDetails: React.FC<MapResponseDetailsProps> = ({
+  mapResponse,
+  onCitationClick,
+  canResolveCitation,
+}) => {
+  const [showContext, setShowContext] = useState(false);
+  const { points, reportIds, contextText } = mapResponse;
+
+  return (
+    <>
+      {mapResponse.prompt_tokens !== undefined && (
+        <Typography variant="body2" color="textSecondary" sx={{ mb: 1 }}>
+          {mapResponse.completion_time} ms · {mapResponse.llm_calls} LLM calls ·{" "}
+          {mapResponse.prompt_tokens} prompt tokens
+        </Typography>
+      )}
+      <Typography variant="body2" sx={{ mb: 1 }}>
+        <strong>Community Reports:</strong>{" "}
+        {reportIds.length > 0
+          ? reportIds.map((id) => (
+              <CitationChip
+                key={id}
+                citation={{ kind: "reports", id }}
+                onCitationClick={onCitationClick}
+                canResolveCitation={canResolveCitation}
+              />
+            ))
+          : "not available"}
+      </Typography>
+      {points.length > 0 ? (
+        <TableContainer component={Paper} variant="outlined">
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Score</TableCell>
+                <TableCell>Point</TableCell>
+                <TableCell>Reduce</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {points.map((point, index) => (
+                <TableRow key={index}>
+                  <TableCell>{point.score ?? "–"}</TableCell>
+                  <TableCell>
+                    <AnswerMarkdown
+                      text={point.answer}
+                      variant="body2"
+                      onCitationClick={onCitationClick}
+                      canResolveCitation={canResolveCitation}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Chip size="small" {...outcomeChips[point.outcome]} />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      ) : (
+        <Typography variant="body2" color="textSecondary">
+          This map call returned no points.
+        </Typography>
+      )}
+      {contextText && (
+        <>
+          <Button
+            size="small"
+            onClick={() => setShowContext(!showContext)}
+            sx={{ mt: 1 }}
+          >
+            {showContext ? "Hide Batch Context" : "Show Batch Context"}
+          </Button>
+          <Collapse in={showContext} timeout="auto" unmountOnExit>
+            <Box sx={contextTextSx}>{contextText}</Box>
+          </Collapse>
+        </>
+      )}
+    </>
+  );
+};
+
+// Each map call of a global search with the points it scored, and what the
+// reduce step was given out of them
+const GlobalSearchInspector: React.FC<GlobalSearchInspectorProps> = ({
+  result,
+  onCitationClick,
+  canResolveCitation,
+}) => {
+  const inspection = useMemo(() => inspectGlobalSearch(result), [result]);
+
+  if (!inspection) return null;
+
+  const { mapResponses, reduceContextText, pointCount, reducedCount } =
+    inspection;
+
+  return (
+    <>
+      <Typography variant="body2" color="textSecondary" sx={{ mb: 1 }}>
+        {reduceContextText
+          ? `${reducedCount} of ${pointCount} points reached the reduce step.`
+          : `${pointCount} points from the map step.`}{" "}
+        Points scored 0 are dropped, then the rest are added by score until the
+        reduce context is full.
+      </Typography>
+      {mapResponses.map((mapResponse) => {
+        const reduced = mapResponse.points.filter(
+          ({ outcome }) => outcome === "reduced"
+        ).length;
+        return (
+          <Accordion key={mapResponse.analyst} disableGutters>
+            <AccordionSummary expandIcon={<ExpandMoreIcon />}>
+              <Typography sx={{ flexGrow: 1 }}>
+                Analyst {mapResponse.analyst}
+              </Typography>
+              <Box sx={{ display: "flex", gap: 0.5, mr: 1 }}>
+                <Chip
+                  size="small"
+                  label={`${mapResponse.reportIds.length} reports`}
+                />
+                <Chip
+                  size="small"
+                  label={`${mapResponse.points.length} points`}
+                />
+                {reduceContextText && (
+                  <Chip
+                    size="small"
+                    color={reduced > 0 ? "success" : "default"}
+                    label={`${reduced} reduced`}
+                  />
+                )}
+              </Box>
+            </AccordionSummary>
+            <AccordionDetails>
+              <MapResponseDetails
+                mapResponse={mapResponse}
+                onCitationClick={onCitationClick}
+                canResolveCitation={canResolveCitation}
+              />
+            </AccordionDetails>
+          </Accordion>
+        );
+      })}
+      <Accordion disableGutters>
+        <AccordionSummary expandIcon={<ExpandMoreIcon />}>
+          <Typography>Reduce Context</Typography>
+        </AccordionSummary>
+        <AccordionDetails>
+          {reduceContextText ? (
+            <Box sx={contextTextSx}>{reduceContextText}</Box>
+          ) : (
+            <Typography variant="body2" color="textSecondary">
+              The search result has no reduce context.
+            </Typography>
+          )}
+        </AccordionDetails>
+      </Accordion>
+    </>
+  );
+};
+
+export default GlobalSearchInspector;
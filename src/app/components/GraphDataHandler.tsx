@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useMemo } from "react";
 import { useLocation, useNavigate } from "react-router-dom";
 import GraphViewer from "./GraphViewer";
 import { Box, Container, Tab, Tabs } from "@mui/material";
@@ -8,6 +8,13 @@ import Introduction from "./Introduction";
 import useFileHandler from "../hooks/useFileHandler";
 import useGraphData from "../hooks/useGraphData";
 import DataTableContainer from "./DataTableContainer";
+import FileLoadProgress from "./FileLoadProgress";
+import LoadIssuesAlert from "./LoadIssuesAlert";
+import WorkspacePicker from "./WorkspacePicker";
+import useWorkspaces from "../hooks/useWorkspaces";
+import { Workspace } from "../models/workspace";
+import { IndexArtifacts } from "../models/index-artifacts";
+import { buildDiffGraphData, computeIndexDiff } from "../utils/index-diff";
 import ReactGA from "react-ga4";
 
 const GraphDataHandler: React.FC = () => {
@@ -25,11 +32,15 @@ const GraphDataHandler: React.FC = () => {
     | "communities"
     | "communityReports"
     | "covariates"
+    | "nodes"
+    | "diff"
   >("entities");
   const [includeDocuments, setIncludeDocuments] = useState(false);
   const [includeTextUnits, setIncludeTextUnits] = useState(false);
   const [includeCommunities, setIncludeCommunities] = useState(false);
   const [includeCovariates, setIncludeCovariates] = useState(false);
+  const [nodeLevel, setNodeLevel] = useState(0);
+  const [showDiff, setShowDiff] = useState(false);
 
   const {
     entities,
@@ -39,10 +50,32 @@ const GraphDataHandler: React.FC = () => {
     communities,
     covariates,
     communityReports,
+    nodes,
+    graphragVersion,
+    comparison,
+    loadProgress,
+    loadIssues,
+    clearLoadIssues,
+    reportIssue,
+    cancelLoading,
+    comparisonProgress,
+    comparisonIssues,
+    clearComparisonIssues,
+    cancelComparisonLoading,
     handleFilesRead,
+    handleComparisonFilesRead,
+    clearComparison,
     loadDefaultFiles,
   } = useFileHandler();
 
+  const {
+    workspaces,
+    saveWorkspace,
+    loadWorkspaceFiles,
+    renameWorkspace,
+    deleteWorkspace,
+  } = useWorkspaces();
+
   const graphData = useGraphData(
     entities,
     relationships,
@@ -51,16 +84,62 @@ const GraphDataHandler: React.FC = () => {
     communities,
     communityReports,
     covariates,
+    nodes,
     includeDocuments,
     includeTextUnits,
     includeCommunities,
-    includeCovariates
+    includeCovariates,
+    nodeLevel
+  );
+
+  const artifacts: IndexArtifacts | null = useMemo(
+    () =>
+      graphragVersion
+        ? {
+            entities,
+            relationships,
+            documents,
+            textunits,
+            communities,
+            communityReports,
+            covariates,
+            nodes,
+            graphragVersion,
+          }
+        : null,
+    [
+      entities,
+      relationships,
+      documents,
+      textunits,
+      communities,
+      communityReports,
+      covariates,
+      nodes,
+      graphragVersion,
+    ]
   );
 
+  // The loaded index is the base; the comparison slot is the newer side
+  const indexDiff = useMemo(() => {
+    if (!comparison || !artifacts) return null;
+    const diff = computeIndexDiff(artifacts, comparison);
+    return {
+      diff,
+      graphData: buildDiffGraphData(artifacts, comparison, diff),
+    };
+  }, [comparison, artifacts]);
+  const isDiffView = showDiff && indexDiff !== null;
+  const isLoading = Object.keys(loadProgress).length > 0;
+  const isLoadingComparison = Object.keys(comparisonProgress).length > 0;
+
   const hasDocuments = documents.length > 0;
   const hasTextUnits = textunits.length > 0;
   const hasCommunities = communities.length > 0;
   const hasCovariates = covariates.length > 0;
+  const nodeLevels = Array.from(new Set(nodes.map((node) => node.level))).sort(
+    (a, b) => a - b
+  );
 
   useEffect(() => {
     if (process.env.NODE_ENV === "development") {
@@ -88,9 +167,35 @@ const GraphDataHandler: React.FC = () => {
     }
   }, [location.pathname]);
 
-  const onDrop = (acceptedFiles: File[]) => {
-    handleFilesRead(acceptedFiles);
+  const onDrop = async (acceptedFiles: File[]) => {
     navigate("/graph", { replace: true });
+    const version = await handleFilesRead(acceptedFiles);
+    if (version) {
+      await saveWorkspace(acceptedFiles, version);
+    }
+  };
+
+  const openWorkspace = async (workspace: Workspace) => {
+    try {
+      const files = await loadWorkspaceFiles(workspace.id);
+      if (files.length === 0) {
+        reportIssue({
+          fileName: workspace.name,
+          severity: "error",
+          message: "The workspace has no stored files",
+        });
+        return;
+      }
+      navigate("/graph", { replace: true });
+      await handleFilesRead(files);
+    } catch (err) {
+      console.error(`Error opening workspace ${workspace.name}`, err);
+      reportIssue({
+        fileName: workspace.name,
+        severity: "error",
+        message: err instanceof Error ? err.message : String(err),
+      });
+    }
   };
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
@@ -99,6 +204,8 @@ const GraphDataHandler: React.FC = () => {
     noKeyboard: true,
     accept: {
       "application/x-parquet": [".parquet"],
+      // LanceDB vector store tables
+      "application/octet-stream": [".lance", ".arrow", ".feather"],
     },
   });
 
@@ -115,6 +222,17 @@ const GraphDataHandler: React.FC = () => {
     });
   };
 
+  const handleCompareFiles = async (files: File[]) => {
+    await handleComparisonFilesRead(files);
+    setShowDiff(true);
+  };
+
+  const handleClearComparison = () => {
+    clearComparison();
+    setShowDiff(false);
+    if (selectedTable === "diff") setSelectedTable("entities");
+  };
+
   const toggleGraphType = () => {
     setGraphType((prevType) => (prevType === "2d" ? "3d" : "2d"));
   };
@@ -129,6 +247,26 @@ const GraphDataHandler: React.FC = () => {
         <Tab label="Graph Visualization" />
         <Tab label="Data Tables" />
       </Tabs>
+      {isLoading ? (
+        <FileLoadProgress
+          loadProgress={loadProgress}
+          onCancel={cancelLoading}
+        />
+      ) : isLoadingComparison ? (
+        <FileLoadProgress
+          title="Loading comparison index"
+          loadProgress={comparisonProgress}
+          onCancel={cancelComparisonLoading}
+        />
+      ) : loadIssues.length > 0 ? (
+        <LoadIssuesAlert issues={loadIssues} onClose={clearLoadIssues} />
+      ) : (
+        <LoadIssuesAlert
+          source="Comparison index"
+          issues={comparisonIssues}
+          onClose={clearComparisonIssues}
+        />
+      )}
       {tabIndex === 0 && (
         <Box
           p={3}
@@ -142,33 +280,62 @@ const GraphDataHandler: React.FC = () => {
             overflow: "hidden",
           }}
         >
-          <GraphViewer
-            data={graphData}
-            graphType={graphType}
-            isFullscreen={isFullscreen}
-            onToggleFullscreen={toggleFullscreen}
-            onToggleGraphType={toggleGraphType}
-            includeDocuments={includeDocuments}
-            includeTextUnits={includeTextUnits}
-            onIncludeDocumentsChange={() =>
-              setIncludeDocuments(!includeDocuments)
-            }
-            onIncludeTextUnitsChange={() =>
-              setIncludeTextUnits(!includeTextUnits)
-            }
-            includeCommunities={includeCommunities}
-            onIncludeCommunitiesChange={() =>
-              setIncludeCommunities(!includeCommunities)
-            }
-            includeCovariates={includeCovariates}
-            onIncludeCovariatesChange={() =>
-              setIncludeCovariates(!includeCovariates)
-            }
-            hasDocuments={hasDocuments}
-            hasTextUnits={hasTextUnits}
-            hasCommunities={hasCommunities}
-            hasCovariates={hasCovariates}
-          />
+          {graphData.nodes.length > 0 ? (
+            <GraphViewer
+              data={isDiffView ? indexDiff.graphData : graphData}
+              artifacts={isDiffView ? null : artifacts}
+              graphType={graphType}
+              isFullscreen={isFullscreen}
+              onToggleFullscreen={toggleFullscreen}
+              onToggleGraphType={toggleGraphType}
+              includeDocuments={includeDocuments}
+              includeTextUnits={includeTextUnits}
+              onIncludeDocumentsChange={() =>
+                setIncludeDocuments(!includeDocuments)
+              }
+              onIncludeTextUnitsChange={() =>
+                setIncludeTextUnits(!includeTextUnits)
+              }
+              includeCommunities={includeCommunities}
+              onIncludeCommunitiesChange={() =>
+                setIncludeCommunities(!includeCommunities)
+              }
+              includeCovariates={includeCovariates}
+              onIncludeCovariatesChange={() =>
+                setIncludeCovariates(!includeCovariates)
+              }
+              hasDocuments={hasDocuments && !isDiffView}
+              hasTextUnits={hasTextUnits && !isDiffView}
+              hasCommunities={hasCommunities && !isDiffView}
+              hasCovariates={hasCovariates && !isDiffView}
+              hasComparison={comparison !== null}
+              showDiff={isDiffView}
+              onShowDiffChange={setShowDiff}
+              onCompareFiles={handleCompareFiles}
+              onClearComparison={handleClearComparison}
+              nodeLevels={nodeLevels}
+              nodeLevel={nodeLevel}
+              onNodeLevelChange={setNodeLevel}
+            />
+          ) : (
+            <Container
+              maxWidth="md"
+              sx={{ mt: 3, overflow: "auto", height: "100%" }}
+            >
+              <DropZone
+                getRootProps={getRootProps}
+                getInputProps={getInputProps}
+                isDragActive={isDragActive}
+              />
+              <WorkspacePicker
+                workspaces={workspaces}
+                onOpen={openWorkspace}
+                onRename={renameWorkspace}
+                onDelete={deleteWorkspace}
+              />
+              <Introduction />
+            </Container>
+          )}
         </Box>
       )}
 
@@ -184,6 +351,9 @@ const GraphDataHandler: React.FC = () => {
             communities={communities}
             communityReports={communityReports}
             covariates={covariates}
+            nodes={nodes}
+            graphragVersion={graphragVersion}
+            indexDiff={indexDiff?.diff ?? null}
           />
         </Box>
       )}
@@ -4,6 +4,7 @@ import {
   CustomGraphData,
   CustomLink,
   CustomNode,
+  isEntityNode,
 } from "../models/custom-graph-data";
 import {
   Box,
@@ -17,6 +18,16 @@ import {
   Typography,
   useTheme,
   CircularProgress,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Select,
+  Menu,
+  Badge,
+  Chip,
+  Slider,
+  Snackbar,
+  Alert,
 } from "@mui/material";
 import FullscreenIcon from "@mui/icons-material/Fullscreen";
 import FullscreenExitIcon from "@mui/icons-material/FullscreenExit";
@@ -28,11 +39,11 @@ import {
 } from "three/examples/jsm/renderers/CSS2DRenderer";
 import * as THREE from "three";
 import { Renderer } from "three";
-import SearchDrawer from "./SearchDrawer";
+import SearchDrawer, { SearchMode } from "./SearchDrawer";
 import DetailDrawer from "./DetailDrawer";
-import { SearchResult } from "../models/search-result";
-import agent from "../api/agent";
+import { SearchResult, SearchType } from "../models/search-result";
 import APISearchDrawer from "./APISearchDrawer";
+import ApiErrorSnackbar from "./ApiErrorSnackbar";
 import SpriteText from "three-spritetext";
 import { TextureLoader } from 'three';
 import { debounce } from 'lodash';
@@ -43,9 +54,86 @@ import { UnrealBloomPass } from 'three/examples/jsm/postprocessing/UnrealBloomPa
 import { Vector2 } from 'three';
 import * as d3 from 'd3';
 import ForceGraph3D, { ForceGraphMethods } from 'react-force-graph-3d';
+import PauseIcon from "@mui/icons-material/Pause";
+import PlayArrowIcon from "@mui/icons-material/PlayArrow";
+import CompareArrowsIcon from "@mui/icons-material/CompareArrows";
+import ClearIcon from "@mui/icons-material/Clear";
+import DownloadIcon from "@mui/icons-material/Download";
+import CameraAltIcon from "@mui/icons-material/CameraAlt";
+import type {
+  ForceWorkerRequest,
+  ForceWorkerResponse,
+} from "../workers/force.worker";
+import {
+  getLayoutEngine,
+  LayoutId,
+  layoutEngines,
+  LayoutPosition,
+} from "../utils/graph-layouts";
+import {
+  downloadFile,
+  exportFormats,
+  exportGraph,
+} from "../utils/graph-export";
+import {
+  canvasToBlob,
+  capture3DSnapshot,
+  LegendEntry,
+  render2DSnapshot,
+  render2DSvg,
+} from "../utils/graph-snapshot";
+import SnapshotDialog, { SnapshotOptions } from "./SnapshotDialog";
+import EmbeddingExplorer from "./EmbeddingExplorer";
+import CommunityExplorer from "./CommunityExplorer";
+import VisualEncodingPanel from "./VisualEncodingPanel";
+import EntityTypeFilter from "./EntityTypeFilter";
+import {
+  buildLinkColorScale,
+  buildLinkWidthScale,
+  buildNodeColorScale,
+  buildNodeSizeScale,
+  defaultVisualEncoding,
+  VisualEncoding,
+} from "../utils/visual-encoding";
+import {
+  buildCommunityHierarchy,
+  CommunityHierarchyNode,
+  getCommunitiesAtLevel,
+  getCommunityLevels,
+  getCommunityMemberIds,
+} from "../utils/community-hierarchy";
+import { collapseCommunities } from "../utils/community-collapse";
+import ScatterPlotIcon from "@mui/icons-material/ScatterPlot";
+import AccountTreeIcon from "@mui/icons-material/AccountTree";
+import {
+  findSimilarToNode,
+  findSimilarToVector,
+  hasEmbedding,
+  SimilarityResult,
+} from "../utils/semantic-search";
+import { IndexArtifacts } from "../models/index-artifacts";
+import {
+  buildLocalSearchContext,
+  LocalContextOptions,
+  matchEntities,
+} from "../utils/local-context";
+import useSearchBackend from "../hooks/useSearchBackend";
+import useServerStatus from "../hooks/useServerStatus";
+import { normalizeSearchResult } from "../utils/search-results";
+import { isSearchCancelled } from "../api/search-stream";
+import { ApiError, toApiError } from "../api/api-error";
+import useSearchHistory from "../hooks/useSearchHistory";
+import { SearchHistoryEntry } from "../models/search-history";
+import {
+  Citation,
+  findCitedGraphElement,
+  getCitationLabel,
+  isCommunityNode,
+} from "../utils/citations";
 
 interface GraphViewerProps {
   data: CustomGraphData;
+  artifacts: IndexArtifacts | null;
   graphType: "2d" | "3d";
   isFullscreen: boolean;
   onToggleFullscreen: () => void;
@@ -62,9 +150,20 @@ interface GraphViewerProps {
   hasTextUnits: boolean;
   hasCommunities: boolean;
   hasCovariates: boolean;
+  hasComparison: boolean;
+  showDiff: boolean;
+  onShowDiffChange: (showDiff: boolean) => void;
+  onCompareFiles: (files: File[]) => void;
+  onClearComparison: () => void;
+  nodeLevels: number[];
+  nodeLevel: number;
+  onNodeLevelChange: (level: number) => void;
 }
 
 const NODE_R = 6;
+const FORCE_WORKER_THRESHOLD = 1000;
+const FORCE_WORKER_TICKS_PER_BATCH = 5;
+const LAYOUT_ITERATION_OPTIONS = [100, 300, 500, 1000, 2000];
 const padding = 4;
 const BLOOM_PARAMS = {
   exposure: 1,
@@ -140,6 +239,34 @@ const NODE_COLORS = {
   }
 };
 
+const DIFF_COLORS = {
+  added: {
+    primary: '#66BB6A',
+    secondary: '#2E7D32',
+    highlight: '#81C784',
+    glow: '#E8F5E9'
+  },
+  removed: {
+    primary: '#EF5350',
+    secondary: '#C62828',
+    highlight: '#E57373',
+    glow: '#FFEBEE'
+  },
+  changed: {
+    primary: '#FFCA28',
+    secondary: '#FF8F00',
+    highlight: '#FFD54F',
+    glow: '#FFF8E1'
+  },
+  unchanged: {
+    primary: '#9E9E9E',
+    secondary: '#616161',
+    highlight: '#BDBDBD',
+    glow: '#F5F5F5'
+  }
+};
+
+
 const ANIMATION_3D = {
   rotationSpeed: 0.001,
   pulseFrequency: 0.5,
@@ -160,6 +287,7 @@ const CLOUD_EFFECT = {
 
 const GraphViewer: React.FC<GraphViewerProps> = ({
   data,
+  artifacts,
   graphType,
   isFullscreen,
   includeDocuments,
@@ -176,6 +304,14 @@ const GraphViewer: React.FC<GraphViewerProps> = ({
   hasTextUnits,
   hasCommunities,
   hasCovariates,
+  hasComparison,
+  showDiff,
+  onShowDiffChange,
+  onCompareFiles,
+  onClearComparison,
+  nodeLevels,
+  nodeLevel,
+  onNodeLevelChange,
 }) => {
   const theme = useTheme();
   const [highlightNodes, setHighlightNodes] = useState<Set<CustomNode>>(
@@ -189,6 +325,13 @@ const GraphViewer: React.FC<GraphViewerProps> = ({
   const [searchResults, setSearchResults] = useState<
     (CustomNode | CustomLink)[]
   >([]);
+  const [searchMode, setSearchMode] = useState<SearchMode>("text");
+  const [similarityQuery, setSimilarityQuery] = useState<CustomNode | null>(
+    null
+  );
+  const [similarityResults, setSimilarityResults] = useState<
+    SimilarityResult[]
+  >([]);
   const [rightDrawerOpen, setRightDrawerOpen] = useState(false);
   const [bottomDrawerOpen, setBottomDrawerOpen] = useState(false);
   const [selectedNode, setSelectedNode] = useState<CustomNode | null>(null);
@@ -201,6 +344,35 @@ const GraphViewer: React.FC<GraphViewerProps> = ({
   const [showLabels, setShowLabels] = useState(false);
   const [showLinkLabels, setShowLinkLabels] = useState(false);
   const [showHighlight, setShowHighlight] = useState(true);
+  const [snapshotDialogOpen, setSnapshotDialogOpen] = useState(false);
+  // The embeddings and community explorers share the bottom-right corner
+  const [explorerPanel, setExplorerPanel] = useState<
+    "embeddings" | "communities" | null
+  >(null);
+  const [communityFilter, setCommunityFilter] =
+    useState<CommunityHierarchyNode | null>(null);
+  // Only the COMMUNITY nodes of one level are shown, optionally standing in
+  // for their entities until expanded
+  const [communityLevel, setCommunityLevel] = useState<number | null>(null);
+  const [collapseCommunityNodes, setCollapseCommunityNodes] = useState(false);
+  const [expandedCommunities, setExpandedCommunities] = useState<Set<string>>(
+    new Set()
+  );
+  const [embeddingSelection, setEmbeddingSelection] = useState<CustomNode[]>(
+    []
+  );
+  const [visualEncoding, setVisualEncoding] = useState<VisualEncoding>(
+    defaultVisualEncoding
+  );
+  // Legend categories whose nodes are hidden
+  const [hiddenCategories, setHiddenCategories] = useState<Set<string>>(
+    new Set()
+  );
+  const [hiddenEntityTypes, setHiddenEntityTypes] = useState<Set<string>>(
+    new Set()
+  );
+  const [exportMenuAnchor, setExportMenuAnchor] =
+    useState<HTMLElement | null>(null);
   const graphRef = useRef<any>();
   const extraRenderers = [new CSS2DRenderer() as any as Renderer];
   const nodeCount = data.nodes.length;
@@ -210,15 +382,43 @@ const GraphViewer: React.FC<GraphViewerProps> = ({
   const [apiSearchResults, setApiSearchResults] = useState<SearchResult | null>(
     null
   );
-  const [serverUp, setServerUp] = useState<boolean>(false);
-
-  const [graphData, setGraphData] = useState<CustomGraphData>(data);
-
-  const initialGraphData = useRef<CustomGraphData>(data);
+  const {
+    settings: searchBackendSettings,
+    backend: searchBackend,
+    saveSettings: saveSearchBackendSettings,
+  } = useSearchBackend();
+  const {
+    serverUp,
+    lastChecked: serverLastChecked,
+    checkNow: checkServerStatus,
+  } = useServerStatus(searchBackend);
+  const [apiError, setApiError] = useState<ApiError | null>(null);
+  const [missingCitation, setMissingCitation] = useState<Citation | null>(
+    null
+  );
+  const searchAbortController = useRef<AbortController | null>(null);
+  const {
+    history: searchHistory,
+    addEntry: addSearchHistoryEntry,
+    renameEntry: renameSearchHistoryEntry,
+    toggleStar: toggleSearchHistoryStar,
+    deleteEntry: deleteSearchHistoryEntry,
+    exportHistory: exportSearchHistory,
+  } = useSearchHistory();
+
+  // The nodes and links behind the last search result, highlighted whenever
+  // nothing is hovered
+  const contextHighlight = useRef<{
+    nodes: Set<CustomNode>;
+    links: Set<CustomLink>;
+  }>({ nodes: new Set(), links: new Set() });
 
   const [graphZoom, setGraphZoom] = useState(1);
 
-  const [workerRunning, setWorkerRunning] = useState(false);
+  const forceWorkerRef = useRef<Worker | null>(null);
+  const [layoutIterations, setLayoutIterations] = useState(300);
+  const [layoutPaused, setLayoutPaused] = useState(false);
+  const [layoutProgress, setLayoutProgress] = useState<number | null>(null);
 
   const [clusterThreshold] = useState(100);
 
@@ -328,7 +528,7 @@ const GraphViewer: React.FC<GraphViewerProps> = ({
     data.nodes.map(node => ({
       ...node,
       // Pre-calculate frequently accessed properties
-      degree: node.neighbors?.length || 0,
+      degree: node.degree ?? (node.neighbors?.length || 0),
       // Remove unnecessary properties for rendering
       __threeObj: undefined,
       index: undefined
@@ -339,11 +539,81 @@ const GraphViewer: React.FC<GraphViewerProps> = ({
     links: data.links
   }), [data, graphZoom, clusterThreshold]);
 
+  const nodeColorScale = useMemo(
+    () =>
+      buildNodeColorScale(
+        optimizedNodes,
+        visualEncoding.nodeColor,
+        (type) =>
+          NODE_COLORS[type as keyof typeof NODE_COLORS] || NODE_COLORS.default
+      ),
+    [optimizedNodes, visualEncoding.nodeColor]
+  );
+
+  const nodeSizeScale = useMemo(
+    () => buildNodeSizeScale(optimizedNodes, visualEncoding.nodeSize),
+    [optimizedNodes, visualEncoding.nodeSize]
+  );
+
+  const linkWidthScale = useMemo(
+    () => buildLinkWidthScale(data.links, visualEncoding.linkWidth),
+    [data.links, visualEncoding.linkWidth]
+  );
+
+  const linkColorScale = useMemo(
+    () => buildLinkColorScale(data.links, visualEncoding.linkColor),
+    [data.links, visualEncoding.linkColor]
+  );
+
+  // Diff status wins over the visual encoding when comparing two indexes
+  const getEncodedNodeColors = useCallback(
+    (node: CustomNode) =>
+      node.diff_status
+        ? DIFF_COLORS[node.diff_status]
+        : nodeColorScale.paletteOf(node),
+    [nodeColorScale]
+  );
+
+  // Collapsed communities are sized by their members, other nodes by the
+  // encoded attribute
+  const getNodeVal = useCallback(
+    (node: CustomNode) => node.val ?? nodeSizeScale.valueOf(node) ?? 1,
+    [nodeSizeScale]
+  );
+
+  const handleVisualEncodingChange = (encoding: VisualEncoding) => {
+    if (encoding.nodeColor !== visualEncoding.nodeColor) {
+      setHiddenCategories(new Set());
+    }
+    setVisualEncoding(encoding);
+  };
+
+  const toggleCategory = (category: string) => {
+    const hidden = new Set(hiddenCategories);
+    if (!hidden.delete(category)) hidden.add(category);
+    setHiddenCategories(hidden);
+  };
+
   const graphDataMemo = useMemo(() => ({
     nodes: optimizedNodes,
     links: data.links
   }), [optimizedNodes, data.links]);
 
+  // Positions from create_final_nodes.parquet, read before any layout runs
+  const storedPositions = useMemo(
+    () =>
+      new Map<string, LayoutPosition>(
+        data.nodes
+          .filter((node) => node.x !== undefined && node.y !== undefined)
+          .map((node) => [node.id, { x: node.x!, y: node.y! }])
+      ),
+    [data.nodes]
+  );
+
+  const [layoutId, setLayoutId] = useState<LayoutId>(
+    storedPositions.size > 0 ? "stored" : "force"
+  );
+
   const [isLoading, setIsLoading] = useState(true);
 
   useEffect(() => {
@@ -355,51 +625,9 @@ const GraphViewer: React.FC<GraphViewerProps> = ({
   }, [data]);
 
   useEffect(() => {
-    setGraphData(data);
-    initialGraphData.current = data;
+    contextHighlight.current = { nodes: new Set(), links: new Set() };
   }, [data]);
 
-  useEffect(() => {
-    checkServerStatus();
-  }, []);
-
-  useEffect(() => {
-    if (!workerRunning && data.nodes.length > 1000) {
-      // Create a serializable version of the data
-      const serializableData = {
-        nodes: data.nodes.map((node: CustomNode) => ({
-          id: node.id,
-          uuid: node.uuid,
-          name: node.name,
-          type: node.type,
-          x: node.x,
-          y: node.y
-        })),
-        links: data.links.map((link: CustomLink) => ({
-          source: typeof link.source === 'object' ? (link.source as CustomNode).id : link.source,
-          target: typeof link.target === 'object' ? (link.target as CustomNode).id : link.target,
-          type: link.type
-        }))
-      };
-
-      const worker = new Worker(`${process.env.PUBLIC_URL}/forceWorker.ts`);
-      worker.postMessage(serializableData);
-      worker.onmessage = (event) => {
-        const updatedData = {
-          ...data,
-          nodes: data.nodes.map((node: CustomNode) => ({
-            ...node,
-            x: (event.data.nodes as Array<{ id: string; x: number; y: number }>).find(n => n.id === node.id)?.x || node.x,
-            y: (event.data.nodes as Array<{ id: string; x: number; y: number }>).find(n => n.id === node.id)?.y || node.y
-          }))
-        };
-        setGraphData(updatedData);
-        setWorkerRunning(false);
-      };
-      setWorkerRunning(true);
-    }
-  }, [data, workerRunning]);
-
   useEffect(() => {
     const chunkSize = 100;
     let currentIndex = 0;
@@ -431,103 +659,111 @@ const GraphViewer: React.FC<GraphViewerProps> = ({
 
   const handleApiSearch = async (
     query: string,
-    searchType: "local" | "global"
+    searchType: SearchType
   ) => {
+    searchAbortController.current?.abort();
+    setApiError(null);
+    const abortController = new AbortController();
+    searchAbortController.current = abortController;
     try {
-      const data: SearchResult =
-        searchType === "local"
-          ? await agent.Search.local(query)
-          : await agent.Search.global(query);
+      const data = normalizeSearchResult(
+        await searchBackend.search(query, searchType, {
+          signal: abortController.signal,
+          // Streamed backends render the answer as it arrives
+          onUpdate: (partial) =>
+            setApiSearchResults({ ...partial, search_type: searchType }),
+        }),
+        searchType
+      );
 
       setApiSearchResults(data);
-      // Process the search result to update the graph data
-      updateGraphData(data.context_data);
+      highlightContextData(data.context_data);
+      addSearchHistoryEntry(query, searchType, data);
     } catch (err) {
+      if (isSearchCancelled(err)) return;
       console.error("An error occurred during the API search.", err);
+      setApiError(toApiError(err));
     } finally {
-    }
-  };
-
-  const checkServerStatus = async () => {
-    try {
-      const response = await agent.Status.check();
-      if (response.status === "Server is up and running") {
-        setServerUp(true);
-      } else {
-        setServerUp(false);
+      if (searchAbortController.current === abortController) {
+        searchAbortController.current = null;
       }
-    } catch (error) {
-      setServerUp(false);
     }
   };
 
-  const updateGraphData = (contextData: any) => {
-    if (!contextData) return;
+  const handleCancelSearch = () => searchAbortController.current?.abort();
 
-    const newNodes: CustomNode[] = [];
-    const newLinks: CustomLink[] = [];
-
-    const baseGraphData = initialGraphData.current;
+  // Shows a past result again along with the subgraph it highlighted
+  const handleOpenHistoryEntry = (entry: SearchHistoryEntry) => {
+    setApiSearchResults(entry.result);
+    highlightContextData(entry.result.context_data);
+  };
 
-    // Assuming contextData has keys like entities, reports, relationships, sources
-    Object.entries(contextData).forEach(([key, items]) => {
-      if (Array.isArray(items)) {
-        items.forEach((item) => {
-          if (key === "relationships") {
-            // Handle links
-            const existingLink = baseGraphData.links.find(
-              (link) =>
-                link.human_readable_id?.toString() === item.id.toString()
-            );
+  // Builds the local search context in the browser, from the chosen seed
+  // entities or the entities matching the query
+  const handleBuildContext = (
+    query: string,
+    seedNames: string[],
+    options: LocalContextOptions
+  ) => {
+    if (!artifacts) return;
+    const seeds =
+      seedNames.length > 0
+        ? artifacts.entities.filter((entity) =>
+            seedNames.includes(entity.title)
+          )
+        : matchEntities(
+            artifacts.entities,
+            artifacts.relationships,
+            query,
+            options.topKEntities
+          );
+    const result = buildLocalSearchContext(artifacts, seeds, options);
+    setApiSearchResults(result);
+    highlightContextData(result.context_data);
+  };
 
-            if (existingLink) {
-              newLinks.push(existingLink);
-            }
-          } else if (key === "entities") {
-            const existingNode = baseGraphData.nodes.find(
-              (node) =>
-                node.human_readable_id?.toString() === item.id.toString() &&
-                !node.covariate_type
-            );
-            if (existingNode) {
-              newNodes.push(existingNode);
-            }
-          } else if (key === "reports") {
-            const existingNode = baseGraphData.nodes.find(
-              (node) => node.uuid === item.id.toString()
-            );
-            if (existingNode) {
-              newNodes.push(existingNode);
-            }
-          } else if (key === "sources") {
-            const existingNode = baseGraphData.nodes.find(
-              (node) => node.text?.toString() === item.text
-            );
-            if (existingNode) {
-              newNodes.push(existingNode);
-            }
-          } else if (key === "covariates" || key === "claims") {
-            const existingNode = baseGraphData.nodes.find(
-              (node) =>
-                node.human_readable_id?.toString() === item.id.toString() &&
-                node.covariate_type
-            );
-            if (existingNode) {
-              newNodes.push(existingNode);
-            }
-          }
-        });
-      }
+  // Highlights the displayed nodes and links a search result's context rows
+  // refer to
+  const highlightContextData = (contextData: any) => {
+    const nodes = new Set<CustomNode>();
+    const links = new Set<CustomLink>();
+    const { nodes: shownNodes, links: shownLinks } = filteredGraphData;
+
+    Object.entries(contextData ?? {}).forEach(([key, items]) => {
+      if (!Array.isArray(items)) return;
+      items.forEach((item) => {
+        const id = item.id?.toString();
+        if (key === "relationships") {
+          const link = shownLinks.find(
+            (link) => link.human_readable_id?.toString() === id
+          );
+          if (link) links.add(link);
+          return;
+        }
+        let node: CustomNode | undefined;
+        if (key === "entities") {
+          node = shownNodes.find(
+            (node) =>
+              node.human_readable_id?.toString() === id && isEntityNode(node)
+          );
+        } else if (key === "reports") {
+          node = shownNodes.find((node) => isCommunityNode(node, id));
+        } else if (key === "sources") {
+          node = shownNodes.find((node) => node.text?.toString() === item.text);
+        } else if (key === "covariates" || key === "claims") {
+          node = shownNodes.find(
+            (node) =>
+              node.human_readable_id?.toString() === id &&
+              node.type === "COVARIATE"
+          );
+        }
+        if (node) nodes.add(node);
+      });
     });
 
-    // Update the graph data with the new nodes and links
-    const updatedGraphData: CustomGraphData = {
-      nodes: [...newNodes],
-      links: [...newLinks],
-    };
-
-    // Set the updated data to trigger re-render
-    setGraphData(updatedGraphData);
+    contextHighlight.current = { nodes, links };
+    setHighlightNodes(new Set(nodes));
+    setHighlightLinks(new Set(links));
   };
 
   const fuse = new Fuse([...data.nodes, ...data.links], {
@@ -546,8 +782,12 @@ const GraphViewer: React.FC<GraphViewerProps> = ({
   });
 
   const handleNodeHover = useCallback((node: CustomNode | null) => {
-    const newHighlightNodes = new Set<CustomNode>();
-    const newHighlightLinks = new Set<CustomLink>();
+    const newHighlightNodes = new Set<CustomNode>(
+      node ? [] : contextHighlight.current.nodes
+    );
+    const newHighlightLinks = new Set<CustomLink>(
+      node ? [] : contextHighlight.current.links
+    );
 
     if (node) {
       newHighlightNodes.add(node);
@@ -561,8 +801,12 @@ const GraphViewer: React.FC<GraphViewerProps> = ({
   }, []);
 
   const handleLinkHover = useCallback((link: CustomLink | null) => {
-    const newHighlightNodes = new Set<CustomNode>();
-    const newHighlightLinks = new Set<CustomLink>();
+    const newHighlightNodes = new Set<CustomNode>(
+      link ? [] : contextHighlight.current.nodes
+    );
+    const newHighlightLinks = new Set<CustomLink>(
+      link ? [] : contextHighlight.current.links
+    );
 
     if (link) {
       newHighlightLinks.add(link);
@@ -615,14 +859,14 @@ const GraphViewer: React.FC<GraphViewerProps> = ({
         ctx.restore();
       }
 
-      const nodeType = node.type || 'default';
-      const colors = NODE_COLORS[nodeType as keyof typeof NODE_COLORS] || NODE_COLORS.default;
+      const colors = getEncodedNodeColors(node);
       const isHighlighted = highlightNodes.has(node);
       const isDark = theme.palette.mode === 'dark';
 
       ctx.save();
       
-      const radius = NODE_R;
+      // Collapsed communities grow with the number of their members
+      const radius = NODE_R * Math.sqrt(getNodeVal(node));
       
       // Outer glow
       ctx.shadowColor = colors.glow;
@@ -700,7 +944,7 @@ const GraphViewer: React.FC<GraphViewerProps> = ({
 
       ctx.restore();
     },
-    [highlightNodes, theme.palette.mode, graphRef]
+    [highlightNodes, theme.palette.mode, graphRef, getEncodedNodeColors, getNodeVal]
   );
 
   const handleSearch = () => {
@@ -808,6 +1052,123 @@ const GraphViewer: React.FC<GraphViewerProps> = ({
     setBottomDrawerOpen(true);
   };
 
+  // Right-clicking a COMMUNITY node expands it in place, or collapses it again
+  const handleNodeRightClick = (node: CustomNode) => {
+    if (!collapseCommunityNodes || node.type !== "COMMUNITY") return;
+    const expanded = new Set(expandedCommunities);
+    if (expanded.delete(node.id)) {
+      setExpandedCommunities(expanded);
+      return;
+    }
+    const community = levelCommunities.find(({ id }) => id === node.id);
+    if (!community) return;
+    // Members start out around the community so the layout spreads them
+    // from there
+    const entityIds = new Set(community.entityIds);
+    optimizedNodes
+      .filter((member) => entityIds.has(member.uuid))
+      .forEach((member) => {
+        member.x = (node.x ?? 0) + (Math.random() - 0.5) * NODE_R * 4;
+        member.y = (node.y ?? 0) + (Math.random() - 0.5) * NODE_R * 4;
+        if (graphType === "3d") {
+          member.z = (node.z ?? 0) + (Math.random() - 0.5) * NODE_R * 4;
+        }
+      });
+    expanded.add(node.id);
+    setExpandedCommunities(expanded);
+  };
+
+  // Highlights the given nodes and the links among them
+  const highlightNodeSelection = (nodes: CustomNode[]) => {
+    const ids = new Set(nodes.map((node) => node.id));
+    const endpointId = (end: string | CustomNode) =>
+      typeof end === "object" ? end.id : end;
+    setHighlightNodes(new Set(nodes));
+    setHighlightLinks(
+      new Set(
+        filteredGraphData.links.filter(
+          (link) =>
+            ids.has(endpointId(link.source)) && ids.has(endpointId(link.target))
+        )
+      )
+    );
+  };
+
+  const handleEmbeddingHover = (node: CustomNode | null) => {
+    if (node) {
+      handleNodeHover(node);
+    } else {
+      setHoverNode(null);
+      highlightNodeSelection(embeddingSelection);
+    }
+  };
+
+  const toggleExplorerPanel = (panel: "embeddings" | "communities") => {
+    if (explorerPanel === "embeddings") handleEmbeddingLassoSelect([]);
+    setExplorerPanel(explorerPanel === panel ? null : panel);
+  };
+
+  const handleEmbeddingLassoSelect = (nodes: CustomNode[]) => {
+    setEmbeddingSelection(nodes);
+    highlightNodeSelection(nodes);
+  };
+
+  const showSimilarityResults = (
+    query: CustomNode | null,
+    results: SimilarityResult[]
+  ) => {
+    setSimilarityQuery(query);
+    setSimilarityResults(results);
+    setSearchMode("similar");
+    setRightDrawerOpen(true);
+    highlightNodeSelection([
+      ...(query ? [query] : []),
+      ...results.map(({ node }) => node),
+    ]);
+  };
+
+  const handleSimilarToNode = (node: CustomNode, k: number) => {
+    // Text search results come from data.nodes, highlight the displayed copy
+    const query =
+      filteredGraphData.nodes.find(({ id }) => id === node.id) ?? node;
+    showSimilarityResults(
+      query,
+      findSimilarToNode(query, filteredGraphData.nodes, k)
+    );
+  };
+
+  const handleSimilarToVector = (vector: number[], k: number) => {
+    showSimilarityResults(
+      null,
+      findSimilarToVector(vector, filteredGraphData.nodes, k)
+    );
+  };
+
+  const findCitedElement = (citation: Citation) => {
+    const contextData = apiSearchResults?.context_data as any;
+    return findCitedGraphElement(
+      citation,
+      filteredGraphData,
+      Array.isArray(contextData?.sources) ? contextData.sources : undefined
+    );
+  };
+
+  const handleCitationClick = (citation: Citation) => {
+    const element = findCitedElement(citation);
+    if (!element) {
+      setMissingCitation(citation);
+      return;
+    }
+    setApiDrawerOpen(false);
+    if (citation.kind === "relationships") {
+      handleFocusLinkClick(element as CustomLink);
+      handleLinkClick(element as CustomLink);
+    } else {
+      handleFocusButtonClick(element as CustomNode);
+      handleNodeClick(element as CustomNode);
+    }
+  };
+
   const handleLinkClick = (link: CustomLink) => {
     setSelectedNode(null);
     setSelectedRelationship(link);
@@ -842,6 +1203,31 @@ const GraphViewer: React.FC<GraphViewerProps> = ({
   const getlinkDirectionalParticleColor = (link: CustomLink) =>
     theme.palette.mode === "dark" ? "lightgray" : "gray";
 
+  const get2DLinkWidth = (link: CustomLink) => {
+    if (showHighlight && highlightLinks.has(link)) {
+      return 2;
+    }
+    const width = linkWidthScale.valueOf(link);
+    if (width !== undefined) return width;
+    return theme.palette.mode === 'dark' ? 0.6 : 0.4;
+  };
+
+  const get2DLinkColor = (link: CustomLink) => {
+    if (showHighlight && highlightLinks.has(link)) {
+      return theme.palette.mode === 'dark'
+        ? 'rgba(255, 255, 255, 0.6)'
+        : 'rgba(0, 0, 0, 0.6)';
+    }
+    if (link.diff_status) {
+      return `${DIFF_COLORS[link.diff_status].primary}99`;
+    }
+    const color = linkColorScale.valueOf(link);
+    if (color) return color;
+    return theme.palette.mode === 'dark'
+      ? 'rgba(255, 255, 255, 0.15)'
+      : 'rgba(0, 0, 0, 0.15)';
+  };
+
   const renderNodeLabel = useCallback((node: CustomNode, ctx: CanvasRenderingContext2D) => {
     if (!showLabels || graphZoom < 0.7) return;
 
@@ -962,34 +1348,350 @@ const GraphViewer: React.FC<GraphViewerProps> = ({
     []
   );
 
+  const communityHierarchy = useMemo(
+    () => (artifacts ? buildCommunityHierarchy(artifacts) : null),
+    [artifacts]
+  );
+
+  const communityLevels = useMemo(
+    () => (communityHierarchy ? getCommunityLevels(communityHierarchy) : []),
+    [communityHierarchy]
+  );
+
+  useEffect(() => {
+    setCommunityFilter(null);
+    setCommunityLevel(communityLevels.length > 0 ? communityLevels[0] : null);
+  }, [communityHierarchy, communityLevels]);
+
+  useEffect(() => {
+    setExpandedCommunities(new Set());
+  }, [communityLevel]);
+
+  const levelCommunities = useMemo(
+    () =>
+      communityHierarchy && communityLevel !== null
+        ? getCommunitiesAtLevel(communityHierarchy, communityLevel)
+        : [],
+    [communityHierarchy, communityLevel]
+  );
+
   // Add memoized filtered data
+  // Keeps the selected community's entities, and the relationships and
+  // COMMUNITY nodes among them
+  const communityMemberIds = useMemo(
+    () => (communityFilter ? getCommunityMemberIds(communityFilter) : null),
+    [communityFilter]
+  );
+
+  // Stays null while the legend hides nothing, so that changing the encoding
+  // doesn't restart the layout
+  const hiddenNodeIds = useMemo(
+    () =>
+      hiddenCategories.size > 0
+        ? new Set(
+            optimizedNodes
+              .filter((node) =>
+                hiddenCategories.has(nodeColorScale.categoryOf(node))
+              )
+              .map((node) => node.id)
+          )
+        : null,
+    [optimizedNodes, hiddenCategories, nodeColorScale]
+  );
+
+  const entityTypeCounts = useMemo(
+    () =>
+      Array.from(
+        d3.rollup(
+          optimizedNodes.filter(isEntityNode),
+          (nodes) => nodes.length,
+          (node) => node.type ?? ""
+        )
+      ).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0])),
+    [optimizedNodes]
+  );
+
   const filteredGraphData = useMemo(() => {
     const filteredNodes = optimizedNodes.filter(node => {
-      switch (node.type?.toLowerCase()) {
-        case 'textunit':
+      if (communityMemberIds && !communityMemberIds.has(node.uuid)) {
+        return false;
+      }
+      if (hiddenNodeIds?.has(node.id)) {
+        return false;
+      }
+      if (
+        (node.type === "COMMUNITY" || node.type === "FINDING") &&
+        communityLevel !== null &&
+        node.level !== undefined &&
+        node.level !== communityLevel
+      ) {
+        return false;
+      }
+      switch (node.type) {
+        case "CHUNK":
           return includeTextUnits;
-        case 'community':
+        case "COMMUNITY":
+        case "FINDING":
           return includeCommunities;
-        case 'covariate':
-          return includeCovariates;
-        case 'document':
+        case "RAW_DOCUMENT":
           return includeDocuments;
         default:
-          return true;
+          return isEntityNode(node)
+            ? !hiddenEntityTypes.has(node.type ?? "")
+            : includeCovariates;
       }
     });
 
     const nodeIds = new Set(filteredNodes.map((node: CustomNode) => node.id));
     const filteredLinks = data.links.filter(link => 
-      nodeIds.has(typeof link.source === 'object' ? (link.source as CustomNode).id : link.source) &&
-      nodeIds.has(typeof link.target === 'object' ? (link.target as CustomNode).id : link.target)
+      nodeIds.has(typeof link.source === "object" ? (link.source as CustomNode).id : link.source) &&
+      nodeIds.has(typeof link.target === "object" ? (link.target as CustomNode).id : link.target)
     );
 
+    const graph =
+      includeCommunities && collapseCommunityNodes
+        ? collapseCommunities(
+            filteredNodes,
+            filteredLinks,
+            levelCommunities,
+            expandedCommunities
+          )
+        : { nodes: filteredNodes, links: filteredLinks, memberCounts: new Map() };
+    // The graphs size nodes by val
+    graph.nodes.forEach((node) => (node.val = graph.memberCounts.get(node.id)));
+
     return {
-      nodes: filteredNodes,
-      links: filteredLinks
+      nodes: graph.nodes,
+      links: graph.links
+    };
+  }, [optimizedNodes, data.links, includeTextUnits, includeCommunities, includeCovariates, includeDocuments, communityMemberIds, communityLevel, collapseCommunityNodes, levelCommunities, expandedCommunities, hiddenNodeIds, hiddenEntityTypes]);
+
+  const entityNames = useMemo(
+    () => artifacts?.entities.map((entity) => entity.title) ?? [],
+    [artifacts]
+  );
+
+  const embeddedNodes = useMemo(
+    () => filteredGraphData.nodes.filter(hasEmbedding),
+    [filteredGraphData]
+  );
+
+  const layoutEngine = getLayoutEngine(layoutId);
+  const availableLayouts = useMemo(
+    () =>
+      layoutEngines.filter(
+        (engine) =>
+          !engine.isAvailable ||
+          engine.isAvailable({
+            nodes: filteredGraphData.nodes,
+            links: filteredGraphData.links,
+            storedPositions,
+          })
+      ),
+    [filteredGraphData, storedPositions]
+  );
+  const isFixedLayout = layoutId !== "force";
+  const focusNodeId = layoutId === "radial" ? selectedNode?.id : undefined;
+
+  useEffect(() => {
+    if (!availableLayouts.some((engine) => engine.id === layoutId)) {
+      setLayoutId("force");
+    }
+  }, [availableLayouts, layoutId]);
+
+  // Fixed layouts pin every node; the force layout releases them again
+  useEffect(() => {
+    const positions = layoutEngine.layout({
+      nodes: filteredGraphData.nodes,
+      links: filteredGraphData.links,
+      focusNodeId,
+      storedPositions,
+    });
+    filteredGraphData.nodes.forEach((node: CustomNode) => {
+      const position = positions?.get(node.id);
+      node.fx = position?.x;
+      node.fy = position?.y;
+      if (position) {
+        node.x = position.x;
+        node.y = position.y;
+        node.__baseX = position.x;
+        node.__baseY = position.y;
+      }
+    });
+    if (!positions) {
+      graphRef.current?.d3ReheatSimulation();
+    }
+  }, [filteredGraphData, layoutEngine, focusNodeId, storedPositions]);
+
+  const useWorkerLayout =
+    graphType === "2d" &&
+    !isFixedLayout &&
+    filteredGraphData.nodes.length > FORCE_WORKER_THRESHOLD;
+
+  // Large graphs are laid out in a worker; positions stream back in batches
+  useEffect(() => {
+    if (!useWorkerLayout) return;
+
+    const nodes = filteredGraphData.nodes;
+    const worker = new Worker(
+      new URL("../workers/force.worker.ts", import.meta.url)
+    );
+    forceWorkerRef.current = worker;
+
+    worker.onmessage = (event: MessageEvent<ForceWorkerResponse>) => {
+      const message = event.data;
+      if (message.type === "tick") {
+        const { positions } = message;
+        nodes.forEach((node: CustomNode, index) => {
+          if (node.isDragging) return;
+          node.x = positions[index * 2];
+          node.y = positions[index * 2 + 1];
+          node.__baseX = node.x;
+          node.__baseY = node.y;
+        });
+        setLayoutProgress(message.iteration / message.iterations);
+      } else {
+        setLayoutProgress(null);
+      }
     };
-  }, [optimizedNodes, data.links, includeTextUnits, includeCommunities, includeCovariates, includeDocuments]);
+
+    const request: ForceWorkerRequest = {
+      type: "start",
+      nodes: nodes.map((node: CustomNode) => ({
+        id: node.id,
+        x: node.x,
+        y: node.y,
+      })),
+      links: filteredGraphData.links.map((link: CustomLink) => ({
+        source: typeof link.source === "object" ? (link.source as CustomNode).id : link.source,
+        target: typeof link.target === "object" ? (link.target as CustomNode).id : link.target,
+      })),
+      iterations: layoutIterations,
+      ticksPerBatch: FORCE_WORKER_TICKS_PER_BATCH,
+      nodeRadius: NODE_R,
+    };
+    worker.postMessage(request);
+    setLayoutPaused(false);
+    setLayoutProgress(0);
+
+    return () => {
+      worker.terminate();
+      forceWorkerRef.current = null;
+      setLayoutProgress(null);
+    };
+  }, [filteredGraphData, useWorkerLayout, layoutIterations]);
+
+  const toggleLayoutPaused = () => {
+    const message: ForceWorkerRequest = {
+      type: layoutPaused ? "resume" : "pause",
+    };
+    forceWorkerRef.current?.postMessage(message);
+    setLayoutPaused(!layoutPaused);
+  };
+
+  const diffCounts = useMemo(() => {
+    const counts = { added: 0, removed: 0, changed: 0, unchanged: 0 };
+    data.nodes.forEach((node) => {
+      if (node.diff_status) counts[node.diff_status]++;
+    });
+    return counts;
+  }, [data.nodes]);
+
+  const handleSnapshot = async (options: SnapshotOptions) => {
+    if (!graphRef.current) return;
+
+    const legend: LegendEntry[] = [];
+    if (options.includeLegend) {
+      const seen = new Set<string>();
+      filteredGraphData.nodes.forEach((node: CustomNode) => {
+        const label =
+          node.diff_status ??
+          nodeColorScale.categories.find(
+            ({ key }) => key === nodeColorScale.categoryOf(node)
+          )?.label ??
+          "default";
+        if (seen.has(label)) return;
+        seen.add(label);
+        legend.push({ label, color: getEncodedNodeColors(node).primary });
+      });
+      legend.sort((a, b) => a.label.localeCompare(b.label));
+    }
+    const decorations = { title: options.title || undefined, legend };
+    const textColor = theme.palette.text.primary;
+
+    try {
+      if (graphType === "3d") {
+        const canvas = capture3DSnapshot(
+          graphRef.current,
+          options.width,
+          options.height,
+          textColor,
+          decorations
+        );
+        downloadFile(
+          await canvasToBlob(canvas),
+          "graphrag-graph.png",
+          "image/png"
+        );
+        return;
+      }
+
+      // ForceGraph2D fills the window when no size is given
+      const width = window.innerWidth;
+      const height = window.innerHeight;
+      const topLeft = graphRef.current.screen2GraphCoords(0, 0);
+      const bottomRight = graphRef.current.screen2GraphCoords(width, height);
+      const viewport = {
+        minX: topLeft.x,
+        minY: topLeft.y,
+        maxX: bottomRight.x,
+        maxY: bottomRight.y,
+      };
+
+      if (options.format === "svg") {
+        const svg = render2DSvg({
+          nodes: filteredGraphData.nodes,
+          links: filteredGraphData.links,
+          viewport,
+          width,
+          height,
+          background: getBackgroundColor(),
+          textColor,
+          nodeRadius: NODE_R,
+          nodeColor: (node) => getEncodedNodeColors(node).primary,
+          linkColor: get2DLinkColor,
+          linkWidth: get2DLinkWidth,
+          showLabels,
+          decorations,
+        });
+        downloadFile(svg, "graphrag-graph.svg", "image/svg+xml");
+      } else {
+        const canvas = render2DSnapshot({
+          nodes: filteredGraphData.nodes,
+          links: filteredGraphData.links,
+          viewport,
+          width,
+          height,
+          scale: options.scale,
+          background: getBackgroundColor(),
+          textColor,
+          linkColor: get2DLinkColor,
+          linkWidth: get2DLinkWidth,
+          paintNode: paintRing,
+          paintLabel:
+            showLabels && graphZoom >= 0.7 ? renderNodeLabel : undefined,
+          decorations,
+        });
+        downloadFile(
+          await canvasToBlob(canvas),
+          "graphrag-graph.png",
+          "image/png"
+        );
+      }
+    } catch (err) {
+      console.error("Failed to capture snapshot", err);
+    }
+  };
 
   const handleZoom = useCallback((zoom: any) => {
     setGraphZoom(zoom.k);
@@ -1032,6 +1734,48 @@ const GraphViewer: React.FC<GraphViewerProps> = ({
             Search Nodes/Links
           </Button>
           
+          <Button
+            variant="contained"
+            onClick={(e) => setExportMenuAnchor(e.currentTarget)}
+            startIcon={<DownloadIcon />}
+          >
+            Export
+          </Button>
+          <Menu
+            anchorEl={exportMenuAnchor}
+            open={exportMenuAnchor !== null}
+            onClose={() => setExportMenuAnchor(null)}
+            sx={{ zIndex: 1500 }}
+          >
+            {exportFormats.map(({ format, label }) => (
+              <MenuItem
+                key={format}
+                onClick={() => {
+                  // Only what is currently shown, after the include toggles
+                  exportGraph(filteredGraphData, format);
+                  setExportMenuAnchor(null);
+                }}
+              >
+                {label}
+              </MenuItem>
+            ))}
+          </Menu>
+
+          <Tooltip title="Snapshot">
+            <IconButton
+              onClick={() => setSnapshotDialogOpen(true)}
+              color="inherit"
+            >
+              <CameraAltIcon />
+            </IconButton>
+          </Tooltip>
+          <SnapshotDialog
+            open={snapshotDialogOpen}
+            graphType={graphType}
+            onClose={() => setSnapshotDialogOpen(false)}
+            onCapture={handleSnapshot}
+          />
+
           <Tooltip title={isFullscreen ? "Exit Full Screen" : "Full Screen"}>
             <IconButton onClick={onToggleFullscreen} color="inherit">
               {isFullscreen ? <FullscreenExitIcon /> : <FullscreenIcon />}
@@ -1083,6 +1827,44 @@ const GraphViewer: React.FC<GraphViewerProps> = ({
             }
             label="Show Highlight"
           />
+          <Box sx={{ display: "flex", gap: 1, alignItems: "center" }}>
+            <Button
+              variant="outlined"
+              component="label"
+              startIcon={<CompareArrowsIcon />}
+            >
+              {hasComparison ? "Replace Comparison" : "Compare Index"}
+              <input
+                hidden
+                multiple
+                type="file"
+                accept=".parquet"
+                {...({ webkitdirectory: "true" } as any)}
+                onChange={(e) => {
+                  onCompareFiles(Array.from(e.target.files ?? []));
+                  e.target.value = "";
+                }}
+              />
+            </Button>
+            {hasComparison && (
+              <Tooltip title="Clear Comparison">
+                <IconButton onClick={onClearComparison} color="inherit">
+                  <ClearIcon />
+                </IconButton>
+              </Tooltip>
+            )}
+          </Box>
+          {hasComparison && (
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={showDiff}
+                  onChange={() => onShowDiffChange(!showDiff)}
+                />
+              }
+              label="Show Diff"
+            />
+          )}
         </Box>
 
         <FormGroup>
@@ -1147,19 +1929,166 @@ const GraphViewer: React.FC<GraphViewerProps> = ({
             label="Include Covariates"
           />
         </FormGroup>
+
+        {entityTypeCounts.length > 0 && (
+          <EntityTypeFilter
+            typeCounts={entityTypeCounts}
+            hiddenTypes={hiddenEntityTypes}
+            onHiddenTypesChange={setHiddenEntityTypes}
+          />
+        )}
+
+        <FormControl size="small" sx={{ minWidth: 160 }}>
+          <InputLabel id="layout-label">Layout</InputLabel>
+          <Select
+            labelId="layout-label"
+            value={layoutId}
+            label="Layout"
+            onChange={(e) => setLayoutId(e.target.value as LayoutId)}
+          >
+            {availableLayouts.map((engine) => (
+              <MenuItem key={engine.id} value={engine.id}>
+                {engine.label}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+
+        {useWorkerLayout && (
+          <Box sx={{ display: "flex", gap: 1, alignItems: "center" }}>
+            <FormControl size="small" sx={{ minWidth: 120 }}>
+              <InputLabel id="layout-iterations-label">Iterations</InputLabel>
+              <Select
+                labelId="layout-iterations-label"
+                value={layoutIterations}
+                label="Iterations"
+                onChange={(e) => setLayoutIterations(Number(e.target.value))}
+              >
+                {LAYOUT_ITERATION_OPTIONS.map((iterations) => (
+                  <MenuItem key={iterations} value={iterations}>
+                    {iterations}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            <Tooltip title={layoutPaused ? "Resume Layout" : "Pause Layout"}>
+              <span>
+                <IconButton
+                  onClick={toggleLayoutPaused}
+                  disabled={layoutProgress === null}
+                  color="inherit"
+                >
+                  {layoutPaused ? <PlayArrowIcon /> : <PauseIcon />}
+                </IconButton>
+              </span>
+            </Tooltip>
+            <Typography variant="body2">
+              {layoutProgress === null
+                ? "Layout done"
+                : `Layout ${Math.round(layoutProgress * 100)}%`}
+            </Typography>
+          </Box>
+        )}
+
+        {nodeLevels.length > 1 && (
+          <FormControl size="small" sx={{ minWidth: 160 }}>
+            <InputLabel id="node-level-label">Node Level</InputLabel>
+            <Select
+              labelId="node-level-label"
+              value={nodeLevel}
+              label="Node Level"
+              onChange={(e) => onNodeLevelChange(Number(e.target.value))}
+            >
+              {nodeLevels.map((level) => (
+                <MenuItem key={level} value={level}>
+                  Level {level}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        )}
+
+        {includeCommunities &&
+          communityLevel !== null &&
+          communityLevels.length > 0 && (
+            <Box sx={{ display: "flex", gap: 2, alignItems: "center" }}>
+              <Box sx={{ width: 160, px: 1 }}>
+                <Typography variant="caption">Community Level</Typography>
+                <Slider
+                  size="small"
+                  value={communityLevel}
+                  min={communityLevels[0]}
+                  max={communityLevels[communityLevels.length - 1]}
+                  step={null}
+                  marks={communityLevels.map((level) => ({
+                    value: level,
+                    label: `${level}`,
+                  }))}
+                  onChange={(_, value) => setCommunityLevel(value as number)}
+                />
+              </Box>
+              <Tooltip title="Right-click a community to expand or collapse it">
+                <FormControlLabel
+                  control={
+                    <Switch
+                      checked={collapseCommunityNodes}
+                      onChange={() =>
+                        setCollapseCommunityNodes(!collapseCommunityNodes)
+                      }
+                    />
+                  }
+                  label="Collapse Communities"
+                />
+              </Tooltip>
+            </Box>
+          )}
       </Box>
 
       <APISearchDrawer
         apiDrawerOpen={apiDrawerOpen}
         toggleDrawer={toggleApiDrawer}
         handleApiSearch={handleApiSearch}
+        onCancelSearch={handleCancelSearch}
+        onCitationClick={handleCitationClick}
+        canResolveCitation={(citation) => !!findCitedElement(citation)}
         apiSearchResults={apiSearchResults}
         localSearchEnabled={localSearchEnabled}
         globalSearchEnabled={includeCommunities}
+        basicSearchEnabled={includeTextUnits}
         hasCovariates={hasCovariates}
         serverUp={serverUp}
+        serverLastChecked={serverLastChecked}
+        onCheckServerStatus={checkServerStatus}
+        searchBackendSettings={searchBackendSettings}
+        onSaveSearchBackendSettings={saveSearchBackendSettings}
+        searchHistory={searchHistory}
+        onOpenHistoryEntry={handleOpenHistoryEntry}
+        onRenameHistoryEntry={renameSearchHistoryEntry}
+        onToggleHistoryStar={toggleSearchHistoryStar}
+        onDeleteHistoryEntry={deleteSearchHistoryEntry}
+        onExportHistory={exportSearchHistory}
+        entityNames={entityNames}
+        handleBuildContext={artifacts ? handleBuildContext : undefined}
       />
 
+      <ApiErrorSnackbar error={apiError} onClose={() => setApiError(null)} />
+
+      <Snackbar
+        open={missingCitation !== null}
+        autoHideDuration={6000}
+        onClose={(_, reason) => {
+          if (reason !== "clickaway") setMissingCitation(null);
+        }}
+        anchorOrigin={{ vertical: "bottom", horizontal: "center" }}
+        // Above the search drawer the citation was clicked in
+        sx={{ zIndex: 1700 }}
+      >
+        <Alert severity="info" onClose={() => setMissingCitation(null)}>
+          {missingCitation &&
+            `${getCitationLabel(missingCitation)} is not in the displayed graph. It may be hidden by the current filters or missing from the loaded files.`}
+        </Alert>
+      </Snackbar>
+
       <SearchDrawer
         searchTerm={searchTerm}
         setSearchTerm={setSearchTerm}
@@ -1171,6 +2100,13 @@ const GraphViewer: React.FC<GraphViewerProps> = ({
         handleNodeClick={handleNodeClick}
         handleFocusLinkClick={handleFocusLinkClick}
         handleLinkClick={handleLinkClick}
+        searchMode={searchMode}
+        setSearchMode={setSearchMode}
+        embeddedNodes={embeddedNodes}
+        similarityQuery={similarityQuery}
+        similarityResults={similarityResults}
+        handleSimilarToNode={handleSimilarToNode}
+        handleSimilarToVector={handleSimilarToVector}
       />
 
       <DetailDrawer
@@ -1200,22 +2136,8 @@ const GraphViewer: React.FC<GraphViewerProps> = ({
             }
             return 'rgba(0,0,0,0)';
           }}
-          linkWidth={(link) => {
-            if (showHighlight && highlightLinks.has(link)) {
-              return 2;
-            }
-            return theme.palette.mode === 'dark' ? 0.6 : 0.4;
-          }}
-          linkColor={(link) => {
-            if (showHighlight && highlightLinks.has(link)) {
-              return theme.palette.mode === 'dark'
-                ? 'rgba(255, 255, 255, 0.6)'
-                : 'rgba(0, 0, 0, 0.6)';
-            }
-            return theme.palette.mode === 'dark'
-              ? 'rgba(255, 255, 255, 0.15)'
-              : 'rgba(0, 0, 0, 0.15)';
-          }}
+          linkWidth={get2DLinkWidth}
+          linkColor={get2DLinkColor}
           nodeCanvasObjectMode={() => "before"}
           nodeCanvasObject={(node, ctx) => {
             paintRing(node as CustomNode, ctx);
@@ -1223,26 +2145,25 @@ const GraphViewer: React.FC<GraphViewerProps> = ({
               renderNodeLabel(node as CustomNode, ctx);
             }
           }}
-          nodeColor={(node: CustomNode) => {
-            const nodeType = node.type || 'default';
-            return NODE_COLORS[nodeType as keyof typeof NODE_COLORS].primary;
-          }}
+          nodeColor={(node: CustomNode) => getEncodedNodeColors(node).primary}
           onNodeHover={showHighlight ? handleNodeHover : undefined}
           onLinkHover={showHighlight ? handleLinkHover : undefined}
           onNodeClick={handleNodeClick}
+          onNodeRightClick={handleNodeRightClick}
+          nodeVal={getNodeVal}
           onLinkClick={handleLinkClick}
           backgroundColor={getBackgroundColor()}
           nodeVisibility={(node) => {
             if (graphZoom < 0.5) {
-              return node.degree > 2; // Only show important nodes when zoomed out
+              return (node.degree ?? 0) > 2; // Only show important nodes when zoomed out
             }
             return true;
           }}
           linkVisibility={(link) => {
             if (graphZoom < 0.5) {
-              return typeof link.source === 'object' && 
-                     typeof link.target === 'object' && 
-                     ((link.source as CustomNode).degree > 2 || (link.target as CustomNode).degree > 2);
+              return typeof link.source === "object" && 
+                     typeof link.target === "object" && 
+                     (((link.source as CustomNode).degree ?? 0) > 2 || ((link.target as CustomNode).degree ?? 0) > 2);
             }
             return true;
           }}
@@ -1285,8 +2206,9 @@ const GraphViewer: React.FC<GraphViewerProps> = ({
           }}
           d3AlphaDecay={0.02}        // Slower layout stabilization
           d3VelocityDecay={0.3}      // Smoother movement
-          warmupTicks={50}           // Reduced initial simulation
-          cooldownTicks={1000}       // Longer cooldown for stability
+          // Fixed and worker layouts position nodes themselves
+          warmupTicks={isFixedLayout || useWorkerLayout ? 0 : 50}        // Reduced initial simulation
+          cooldownTicks={isFixedLayout || useWorkerLayout ? 0 : 1000}    // Longer cooldown for stability
           enableNodeDrag={true}     // Disable drag for smoother experience
           onZoom={handleZoom}
           onNodeDrag={(node, translate) => {
@@ -1312,15 +2234,21 @@ const GraphViewer: React.FC<GraphViewerProps> = ({
           graphData={filteredGraphData}
           nodeAutoColorBy={undefined}
           nodeRelSize={NODE_R}
-          linkWidth={1.5}
+          linkWidth={(link: CustomLink) => linkWidthScale.valueOf(link) ?? 1.5}
           enableNodeDrag={false}
           enableNavigationControls={true}
           showNavInfo={false}
+          cooldownTicks={isFixedLayout ? 0 : Infinity}
+          onNodeRightClick={handleNodeRightClick}
+          nodeVal={getNodeVal}
           nodeThreeObject={(node: CustomNode) => {
-            const nodeType = node.type || 'default';
-            const geometry = new THREE.SphereGeometry(NODE_R, 32, 32);
+            const geometry = new THREE.SphereGeometry(
+              NODE_R * Math.sqrt(getNodeVal(node)),
+              32,
+              32
+            );
             const material = new THREE.MeshPhongMaterial({
-              color: NODE_COLORS[nodeType as keyof typeof NODE_COLORS].primary,
+              color: getEncodedNodeColors(node).primary,
               transparent: true,
               opacity: 0.8,
               shininess: 100
@@ -1336,6 +2264,11 @@ const GraphViewer: React.FC<GraphViewerProps> = ({
           linkDirectionalParticleWidth={2}
           linkDirectionalParticleSpeed={0.02}
           linkDirectionalParticleColor={() => '#ffffff'}
+          linkColor={(link: CustomLink) =>
+            link.diff_status
+              ? DIFF_COLORS[link.diff_status].primary
+              : linkColorScale.valueOf(link) ?? '#f0f0f0'
+          }
           linkOpacity={0.3}
           linkCurvature={0.25}
         />
@@ -1357,11 +2290,112 @@ const GraphViewer: React.FC<GraphViewerProps> = ({
         <Button
           variant="contained"
           onClick={toggleApiDrawer(true)}
-          startIcon={<SearchIcon />}
+          startIcon={
+            <Badge
+              variant="dot"
+              color={serverUp ? "success" : "error"}
+              invisible={serverLastChecked === null}
+            >
+              <SearchIcon />
+            </Badge>
+          }
         >
           API Search
         </Button>
+        <Button
+          variant="contained"
+          onClick={() => toggleExplorerPanel("embeddings")}
+          startIcon={<ScatterPlotIcon />}
+        >
+          Embeddings
+        </Button>
+        {communityHierarchy && (
+          <Button
+            variant="contained"
+            onClick={() => toggleExplorerPanel("communities")}
+            startIcon={<AccountTreeIcon />}
+          >
+            Communities
+          </Button>
+        )}
+        {communityFilter && (
+          <Chip
+            color="primary"
+            label={`Community: ${communityFilter.title}`}
+            onDelete={() => setCommunityFilter(null)}
+          />
+        )}
       </Box>
+      {explorerPanel === "communities" && communityHierarchy && (
+        <CommunityExplorer
+          hierarchy={communityHierarchy}
+          selected={communityFilter}
+          onSelect={setCommunityFilter}
+          onClose={() => toggleExplorerPanel("communities")}
+        />
+      )}
+      {explorerPanel === "embeddings" && (
+        <EmbeddingExplorer
+          nodes={filteredGraphData.nodes}
+          highlightNodes={highlightNodes}
+          getTypeColor={(node) => getEncodedNodeColors(node).primary}
+          onHoverNode={handleEmbeddingHover}
+          onSelectNode={(node) => {
+            handleFocusButtonClick(node);
+            handleNodeClick(node);
+          }}
+          onLassoSelect={handleEmbeddingLassoSelect}
+          onClose={() => {
+            toggleExplorerPanel("embeddings");
+          }}
+        />
+      )}
+      {!showDiff && (
+        <VisualEncodingPanel
+          encoding={visualEncoding}
+          onEncodingChange={handleVisualEncodingChange}
+          categories={nodeColorScale.categories}
+          hiddenCategories={hiddenCategories}
+          onToggleCategory={toggleCategory}
+          nodeSizeDomain={nodeSizeScale.domain}
+          linkWidthDomain={linkWidthScale.domain}
+          linkColorDomain={linkColorScale.domain}
+        />
+      )}
+      {showDiff && (
+        <Box
+          sx={{
+            position: "absolute",
+            bottom: 10,
+            left: 10,
+            zIndex: 1400,
+            display: "flex",
+            flexDirection: "column",
+            gap: 0.5,
+          }}
+        >
+          {(Object.keys(DIFF_COLORS) as (keyof typeof DIFF_COLORS)[]).map(
+            (status) => (
+              <Box
+                key={status}
+                sx={{ display: "flex", alignItems: "center", gap: 1 }}
+              >
+                <Box
+                  sx={{
+                    width: 12,
+                    height: 12,
+                    borderRadius: "50%",
+                    backgroundColor: DIFF_COLORS[status].primary,
+                  }}
+                />
+                <Typography variant="body2">
+                  {status} ({diffCounts[status]})
+                </Typography>
+              </Box>
+            )
+          )}
+        </Box>
+      )}
       {isLoading && (
         <Box
           sx={{
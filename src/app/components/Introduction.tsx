@@ -20,16 +20,10 @@ const Introduction: React.FC = () => {
         Welcome to the GraphRAG Visualizer
       </Typography>
 
-      <Typography variant="body1" gutterBottom sx={{ color: "error.main" }}>
-        If you are using <strong>GraphRAG 0.3.x or below</strong>, please visit
-        the legacy site:{" "}
-        <Link
-          href="https://noworneverev.github.io/graphrag-visualizer-legacy"
-          target="_blank"
-          rel="noopener"
-        >
-          GraphRAG Visualizer Legacy
-        </Link>
+      <Typography variant="body1" gutterBottom>
+        Artifacts from <strong>GraphRAG 0.3.x, 0.5.x, 1.x and 2.x</strong> are
+        supported. The version is detected automatically from the file names and
+        columns, so you can drop in the output folder of any of them.
       </Typography>
 
       <Typography variant="h6" gutterBottom>
@@ -84,6 +78,33 @@ const Introduction: React.FC = () => {
             your data remains secure and private.
           </Typography>
         </li>
+        <li>
+          <Typography variant="body1">
+            <strong>Export:</strong> Download the graph as currently shown as
+            GraphML, GEXF, Neo4j Cypher or node-link JSON to continue in other
+            tools.
+          </Typography>
+        </li>
+        <li>
+          <Typography variant="body1">
+            <strong>Saved Workspaces:</strong> Loaded artifacts are kept in your
+            browser's IndexedDB, so you can reopen, rename or delete them from
+            the "Saved Workspaces" list without dropping the files again.
+          </Typography>
+        </li>
+        <li>
+          <Typography variant="body1">
+            <strong>More Search Options:</strong> Run DRIFT and basic search,
+            connect other search backends, and click the citations in an answer
+            to focus them in the graph.
+          </Typography>
+        </li>
+        <li>
+          <Typography variant="body1">
+            <strong>Embeddings and Communities:</strong> Explore similar nodes,
+            entity embeddings and the community hierarchy alongside the graph.
+          </Typography>
+        </li>
       </ul>
 
       <Typography variant="h6" gutterBottom>
@@ -0,0 +1,56 @@
+import React from "react";
+import { Alert, AlertTitle, Box, Snackbar, Typography } from "@mui/material";
+import { LoadIssue } from "../utils/parquet-worker-client";
+
+interface LoadIssuesAlertProps {
+  issues: LoadIssue[];
+  onClose: () => void;
+  // Names the index the issues came from when it isn't the main one
+  source?: string;
+}
+
+const MAX_HEIGHT = 240;
+
+// Files that failed to load, and columns that were missing or unexpected in
+// the files that did
+const LoadIssuesAlert: React.FC<LoadIssuesAlertProps> = ({
+  issues,
+  onClose,
+  source,
+}) => {
+  const errorCount = issues.filter(
+    ({ severity }) => severity === "error"
+  ).length;
+
+  return (
+    <Snackbar
+      open={issues.length > 0}
+      anchorOrigin={{ vertical: "bottom", horizontal: "right" }}
+      sx={{ zIndex: 1600 }}
+    >
+      <Alert
+        severity={errorCount > 0 ? "error" : "warning"}
+        onClose={onClose}
+        sx={{ width: 480 }}
+      >
+        <AlertTitle>
+          {source && `${source}: `}
+          {errorCount > 0
+            ? `${errorCount} file${errorCount === 1 ? "" : "s"} could not be loaded`
+            : "Some columns did not match the expected schema"}
+        </AlertTitle>
+        <Box sx={{ maxHeight: MAX_HEIGHT, overflowY: "auto" }}>
+          {issues.map((issue, index) => (
+            <Typography key={index} variant="body2" sx={{ mb: 0.5 }}>
+              {issue.message.includes(issue.fileName)
+                ? issue.message
+                : `${issue.fileName}: ${issue.message}`}
+            </Typography>
+          ))}
+        </Box>
+      </Alert>
+    </Snackbar>
+  );
+};
+
+export default LoadIssuesAlert;
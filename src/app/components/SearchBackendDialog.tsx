@@ -0,0 +1,385 @@
+import React, { useEffect, useRef, useState } from "react";
+import {
+  Accordion,
+  AccordionDetails,
+  AccordionSummary,
+  Box,
+  Button,
+  Checkbox,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  FormControlLabel,
+  IconButton,
+  InputLabel,
+  List,
+  ListItem,
+  ListItemText,
+  MenuItem,
+  Select,
+  Stack,
+  TextField,
+  Typography,
+} from "@mui/material";
+import DeleteIcon from "@mui/icons-material/Delete";
+import ExpandMoreIcon from "@mui/icons-material/ExpandMore";
+import UploadFileIcon from "@mui/icons-material/UploadFile";
+import {
+  MockRecording,
+  ResponseMapping,
+  SearchBackendSettings,
+  SearchBackendType,
+} from "../models/search-backend";
+import { defaultApiUrl } from "../api/agent";
+import {
+  parseMockRecordings,
+  searchBackendLabels,
+  searchBackendPresets,
+} from "../api/search-backends";
+
+interface SearchBackendDialogProps {
+  open: boolean;
+  settings: SearchBackendSettings;
+  onClose: () => void;
+  onSave: (settings: SearchBackendSettings) => void;
+}
+
+const mappingFields: (keyof ResponseMapping)[] = [
+  "response",
+  "context_data",
+  "context_text",
+  "completion_time",
+  "llm_calls",
+  "prompt_tokens",
+];
+
+type TextSetting =
+  | "localPath"
+  | "globalPath"
+  | "driftPath"
+  | "basicPath"
+  | "statusPath"
+  | "localModel"
+  | "globalModel"
+  | "driftModel"
+  | "basicModel";
+
+const pathFields: { key: TextSetting; label: string }[] = [
+  { key: "localPath", label: "Local Search Path" },
+  { key: "globalPath", label: "Global Search Path" },
+  { key: "driftPath", label: "DRIFT Search Path" },
+  { key: "basicPath", label: "Basic Search Path" },
+  { key: "statusPath", label: "Status Path" },
+];
+
+const modelFields: { key: TextSetting; label: string }[] = [
+  { key: "localModel", label: "Local Search Model" },
+  { key: "globalModel", label: "Global Search Model" },
+  { key: "driftModel", label: "DRIFT Search Model" },
+  { key: "basicModel", label: "Basic Search Model" },
+];
+
+const gridSx = { display: "grid", gridTemplateColumns: "1fr 1fr", gap: 1 };
+
+const SearchBackendDialog: React.FC<SearchBackendDialogProps> = ({
+  open,
+  settings,
+  onClose,
+  onSave,
+}) => {
+  const [draft, setDraft] = useState<SearchBackendSettings>(settings);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (open) setDraft(settings);
+  }, [open, settings]);
+
+  const update = (changes: Partial<SearchBackendSettings>) =>
+    setDraft({ ...draft, ...changes });
+
+  const handleTypeChange = (type: SearchBackendType) =>
+    update({ type, ...searchBackendPresets[type] });
+
+  const handleImportRecordings = async (
+    event: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = "";
+    const recordings: MockRecording[] = [];
+    for (const file of files) {
+      try {
+        recordings.push(
+          ...parseMockRecordings(JSON.parse(await file.text()), file.name)
+        );
+      } catch (err) {
+        console.error(
+          `Error reading recorded search results ${file.name}`,
+          err
+        );
+      }
+    }
+    setDraft((current) => ({
+      ...current,
+      mockRecordings: [...current.mockRecordings, ...recordings],
+    }));
+  };
+
+  const isHttpBackend = draft.type !== "mock";
+  const hasCustomEndpoints = draft.type === "openai" || draft.type === "rest";
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Search Backend</DialogTitle>
+      <DialogContent>
+        <Stack spacing={2} sx={{ mt: 1 }}>
+          <FormControl size="small">
+            <InputLabel id="search-backend-type-label">Backend</InputLabel>
+            <Select
+              labelId="search-backend-type-label"
+              value={draft.type}
+              label="Backend"
+              onChange={(e) =>
+                handleTypeChange(e.target.value as SearchBackendType)
+              }
+            >
+              {Object.entries(searchBackendLabels).map(([type, label]) => (
+                <MenuItem key={type} value={type}>
+                  {label}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+
+          <FormControlLabel
+            control={
+              <Checkbox
+                checked={draft.streaming}
+                onChange={() => update({ streaming: !draft.streaming })}
+              />
+            }
+            label="Stream Responses"
+          />
+
+          {draft.type === "graphrag-api" && (
+            <Typography variant="body2" color="textSecondary">
+              Sends GET requests to search/local, search/global, search/drift,
+              search/basic and status on the server at the base URL.
+            </Typography>
+          )}
+
+          {isHttpBackend && (
+            <TextField
+              size="small"
+              label="Base URL"
+              placeholder={defaultApiUrl}
+              value={draft.baseUrl}
+              onChange={(e) => update({ baseUrl: e.target.value })}
+            />
+          )}
+
+          {hasCustomEndpoints && (
+            <>
+              <Box sx={gridSx}>
+                {pathFields.map(({ key, label }) => (
+                  <TextField
+                    key={key}
+                    size="small"
+                    label={label}
+                    value={draft[key]}
+                    onChange={(e) => update({ [key]: e.target.value })}
+                  />
+                ))}
+              </Box>
+              {draft.type === "rest" && (
+                <FormControl size="small">
+                  <InputLabel id="search-backend-method-label">
+                    Method
+                  </InputLabel>
+                  <Select
+                    labelId="search-backend-method-label"
+                    value={draft.method}
+                    label="Method"
+                    onChange={(e) =>
+                      update({ method: e.target.value as "GET" | "POST" })
+                    }
+                  >
+                    <MenuItem value="GET">GET (query parameter)</MenuItem>
+                    <MenuItem value="POST">POST (JSON body)</MenuItem>
+                  </Select>
+                </FormControl>
+              )}
+              {draft.type === "openai" && (
+                <Box sx={gridSx}>
+                  {modelFields.map(({ key, label }) => (
+                    <TextField
+                      key={key}
+                      size="small"
+                      label={label}
+                      value={draft[key]}
+                      onChange={(e) => update({ [key]: e.target.value })}
+                    />
+                  ))}
+                </Box>
+              )}
+              <Accordion disableGutters>
+                <AccordionSummary expandIcon={<ExpandMoreIcon />}>
+                  <Typography>Response Mapping</Typography>
+                </AccordionSummary>
+                <AccordionDetails>
+                  <Stack spacing={1}>
+                    <Typography variant="body2" color="textSecondary">
+                      Dotted paths into the response body, e.g.
+                      choices.0.message.content. Empty fields read the field of
+                      the same name.
+                    </Typography>
+                    {mappingFields.map((field) => (
+                      <TextField
+                        key={field}
+                        size="small"
+                        label={field}
+                        value={draft.responseMapping[field]}
+                        onChange={(e) =>
+                          update({
+                            responseMapping: {
+                              ...draft.responseMapping,
+                              [field]: e.target.value,
+                            },
+                          })
+                        }
+                      />
+                    ))}
+                  </Stack>
+                </AccordionDetails>
+              </Accordion>
+            </>
+          )}
+
+          {isHttpBackend && (
+            <>
+              <Stack direction="row" spacing={1}>
+                <TextField
+                  size="small"
+                  label="Auth Header"
+                  value={draft.authHeader}
+                  onChange={(e) => update({ authHeader: e.target.value })}
+                  sx={{ flex: 1 }}
+                />
+                <TextField
+                  size="small"
+                  type="password"
+                  label="Auth Value"
+                  placeholder="Bearer ..."
+                  value={draft.authValue}
+                  onChange={(e) => update({ authValue: e.target.value })}
+                  helperText="Kept only until this tab is closed"
+                  sx={{ flex: 2 }}
+                />
+              </Stack>
+              <FormControlLabel
+                control={
+                  <Checkbox
+                    checked={draft.withCredentials}
+                    onChange={() =>
+                      update({ withCredentials: !draft.withCredentials })
+                    }
+                  />
+                }
+                label="Send Cookies"
+              />
+              <Box sx={gridSx}>
+                <TextField
+                  size="small"
+                  type="number"
+                  label="Timeout (seconds)"
+                  helperText="0 waits as long as the search takes"
+                  value={draft.timeoutSeconds}
+                  inputProps={{ min: 0 }}
+                  onChange={(e) =>
+                    update({ timeoutSeconds: Number(e.target.value) })
+                  }
+                />
+                <TextField
+                  size="small"
+                  type="number"
+                  label="Retries"
+                  helperText="After network failures, timeouts and busy servers"
+                  value={draft.retries}
+                  inputProps={{ min: 0, max: 5 }}
+                  onChange={(e) => update({ retries: Number(e.target.value) })}
+                />
+              </Box>
+            </>
+          )}
+
+          {draft.type === "mock" && (
+            <>
+              <Typography variant="body2" color="textSecondary">
+                Replays recorded search results: the recording with the same
+                query and search type, or else the first one of that type.
+                Import SearchResult JSON saved from the API, or files of{" "}
+                {"{ query, searchType, result }"} recordings.
+              </Typography>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".json,application/json"
+                multiple
+                hidden
+                onChange={handleImportRecordings}
+              />
+              <Button
+                variant="outlined"
+                startIcon={<UploadFileIcon />}
+                onClick={() => fileInputRef.current?.click()}
+              >
+                Import Recordings
+              </Button>
+              <List dense>
+                {draft.mockRecordings.map((recording, index) => (
+                  <ListItem
+                    key={index}
+                    secondaryAction={
+                      <IconButton
+                        edge="end"
+                        onClick={() =>
+                          update({
+                            mockRecordings: draft.mockRecordings.filter(
+                              (_, i) => i !== index
+                            ),
+                          })
+                        }
+                      >
+                        <DeleteIcon />
+                      </IconButton>
+                    }
+                  >
+                    <ListItemText
+                      primary={recording.query}
+                      secondary={`${recording.searchType} search`}
+                    />
+                  </ListItem>
+                ))}
+              </List>
+            </>
+          )}
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button
+          onClick={() => {
+            onSave(draft);
+            onClose();
+          }}
+          variant="contained"
+        >
+          Save
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default SearchBackendDialog;
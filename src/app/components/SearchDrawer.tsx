@@ -1,7 +1,9 @@
-import React from "react";
+import React, { useState } from "react";
 import {
+  Autocomplete,
   Box,
   Button,
+  createFilterOptions,
   Drawer,
   IconButton,
   InputAdornment,
@@ -12,11 +14,20 @@ import {
   TableContainer,
   TableHead,
   TableRow,
+  Tab,
+  Tabs,
   TextField,
   Typography,
 } from "@mui/material";
 import SearchIcon from "@mui/icons-material/Search";
 import { CustomLink, CustomNode } from "../models/custom-graph-data";
+import {
+  hasEmbedding,
+  parseQueryVector,
+  SimilarityResult,
+} from "../utils/semantic-search";
+
+export type SearchMode = "text" | "similar";
 
 interface SearchDrawerProps {
   searchTerm: string;
@@ -29,8 +40,18 @@ interface SearchDrawerProps {
   handleNodeClick: (node: CustomNode) => void;
   handleFocusLinkClick: (link: CustomLink) => void;
   handleLinkClick: (link: CustomLink) => void;
+  searchMode: SearchMode;
+  setSearchMode: (mode: SearchMode) => void;
+  embeddedNodes: CustomNode[];
+  similarityQuery: CustomNode | null;
+  similarityResults: SimilarityResult[];
+  handleSimilarToNode: (node: CustomNode, k: number) => void;
+  handleSimilarToVector: (vector: number[], k: number) => void;
 }
 
+const DEFAULT_K = 10;
+const nodeFilterOptions = createFilterOptions<CustomNode>({ limit: 50 });
+
 const SearchDrawer: React.FC<SearchDrawerProps> = ({
   searchTerm,
   setSearchTerm,
@@ -42,7 +63,40 @@ const SearchDrawer: React.FC<SearchDrawerProps> = ({
   handleNodeClick,
   handleFocusLinkClick,
   handleLinkClick,
+  searchMode,
+  setSearchMode,
+  embeddedNodes,
+  similarityQuery,
+  similarityResults,
+  handleSimilarToNode,
+  handleSimilarToVector,
 }) => {
+  const [k, setK] = useState(DEFAULT_K);
+  const [queryNode, setQueryNode] = useState<CustomNode | null>(null);
+  const [queryVector, setQueryVector] = useState("");
+  const [vectorError, setVectorError] = useState<string | null>(null);
+
+  const handleVectorSearch = () => {
+    const vector = parseQueryVector(queryVector);
+    if (!vector) {
+      setVectorError("Enter a JSON array or a list of numbers");
+      return;
+    }
+    const dimensionExists = embeddedNodes.some((node) =>
+      [
+        node.description_embedding,
+        node.text_embedding,
+        node.graph_embedding,
+      ].some((embedding) => embedding?.length === vector.length)
+    );
+    if (!dimensionExists) {
+      setVectorError(`No loaded embeddings have ${vector.length} dimensions`);
+      return;
+    }
+    setVectorError(null);
+    handleSimilarToVector(vector, k);
+  };
+
   return (
     <Drawer
       anchor="right"
@@ -51,135 +105,275 @@ const SearchDrawer: React.FC<SearchDrawerProps> = ({
       sx={{ zIndex: 1500 }}
     >
       <Box sx={{ width: 700, padding: 2 }}>
-        <TextField
-          value={searchTerm}
-          onChange={(e) => setSearchTerm(e.target.value)}
-          onKeyDown={(e) => {
-            if (e.key === "Enter") {
-              handleSearch();
-            }
-          }}
-          placeholder="Search Node or Relationship"
-          fullWidth
-          margin="normal"
-          InputProps={{
-            endAdornment: (
-              <InputAdornment position="end">
-                <IconButton onClick={handleSearch} color="primary">
-                  <SearchIcon />
-                </IconButton>
-              </InputAdornment>
-            ),
-          }}
-        />
+        <Tabs
+          value={searchMode}
+          onChange={(_, value) => setSearchMode(value)}
+          sx={{ mb: 1 }}
+        >
+          <Tab value="text" label="Text" />
+          <Tab
+            value="similar"
+            label="Similar"
+            disabled={embeddedNodes.length === 0}
+          />
+        </Tabs>
 
-        {searchResults.filter((item) => "neighbors" in item).length > 0 && (
-          <Box sx={{ marginTop: 2 }}>
-            <Typography variant="h6">Nodes</Typography>
-            <TableContainer
-              component={Paper}
-              sx={{ marginTop: 2, maxHeight: "400px", overflow: "auto" }}
-            >
-              <Table>
-                <TableHead>
-                  <TableRow>
-                    <TableCell>Name</TableCell>
-                    <TableCell>Type</TableCell>
-                    <TableCell>Actions</TableCell>
-                  </TableRow>
-                </TableHead>
-                <TableBody>
-                  {searchResults
-                    .filter((item) => "neighbors" in item)
-                    .map((node) => (
-                      <TableRow key={node.id}>
-                        <TableCell>{node.name}</TableCell>
-                        <TableCell>{node.type}</TableCell>
-                        <TableCell>
-                          <Box display="flex" justifyContent="space-between">
-                            <Button
-                              onClick={() =>
-                                handleFocusButtonClick(node as CustomNode)
-                              }
-                            >
-                              Focus
-                            </Button>
-                            <Button
-                              onClick={() =>
-                                handleNodeClick(node as CustomNode)
-                              }
-                              sx={{ marginLeft: 1 }}
-                            >
-                              Details
-                            </Button>
-                          </Box>
-                        </TableCell>
+        {searchMode === "similar" ? (
+          <>
+            <Box sx={{ display: "flex", gap: 1, mt: 2 }}>
+              <Autocomplete
+                options={embeddedNodes}
+                value={queryNode}
+                onChange={(_, node) => setQueryNode(node)}
+                getOptionLabel={(node) => `${node.name} (${node.type})`}
+                getOptionKey={(node) => node.id}
+                filterOptions={nodeFilterOptions}
+                renderInput={(params) => (
+                  <TextField {...params} label="Similar to node" />
+                )}
+                sx={{ flex: 1 }}
+              />
+              <TextField
+                type="number"
+                label="k"
+                value={k}
+                onChange={(e) => setK(Math.max(1, Number(e.target.value)))}
+                sx={{ width: 90 }}
+              />
+              <Button
+                variant="contained"
+                disabled={!queryNode}
+                onClick={() => queryNode && handleSimilarToNode(queryNode, k)}
+              >
+                Find
+              </Button>
+            </Box>
+            <Box sx={{ display: "flex", gap: 1, mt: 2 }}>
+              <TextField
+                value={queryVector}
+                onChange={(e) => setQueryVector(e.target.value)}
+                label="Query vector"
+                placeholder="[0.012, -0.034, ...] or an embedding response JSON"
+                multiline
+                minRows={2}
+                maxRows={6}
+                error={!!vectorError}
+                helperText={vectorError}
+                sx={{ flex: 1 }}
+              />
+              <Button
+                variant="contained"
+                disabled={!queryVector.trim()}
+                onClick={handleVectorSearch}
+                sx={{ alignSelf: "flex-start" }}
+              >
+                Find
+              </Button>
+            </Box>
+
+            {similarityResults.length > 0 && (
+              <Box sx={{ marginTop: 2 }}>
+                <Typography variant="h6">
+                  {similarityQuery
+                    ? `Similar to ${similarityQuery.name}`
+                    : "Similar to query vector"}
+                </Typography>
+                <TableContainer
+                  component={Paper}
+                  sx={{ marginTop: 2, maxHeight: "600px", overflow: "auto" }}
+                >
+                  <Table>
+                    <TableHead>
+                      <TableRow>
+                        <TableCell>Name</TableCell>
+                        <TableCell>Type</TableCell>
+                        <TableCell>Similarity</TableCell>
+                        <TableCell>Actions</TableCell>
                       </TableRow>
-                    ))}
-                </TableBody>
-              </Table>
-            </TableContainer>
-          </Box>
-        )}
+                    </TableHead>
+                    <TableBody>
+                      {similarityResults.map(({ node, score }) => (
+                        <TableRow key={node.id}>
+                          <TableCell>{node.name}</TableCell>
+                          <TableCell>{node.type}</TableCell>
+                          <TableCell>{score.toFixed(3)}</TableCell>
+                          <TableCell>
+                            <Box display="flex" justifyContent="space-between">
+                              <Button
+                                onClick={() => handleFocusButtonClick(node)}
+                              >
+                                Focus
+                              </Button>
+                              <Button
+                                onClick={() => handleNodeClick(node)}
+                                sx={{ marginLeft: 1 }}
+                              >
+                                Details
+                              </Button>
+                            </Box>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </TableContainer>
+              </Box>
+            )}
+          </>
+        ) : (
+          <>
+            <TextField
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") {
+                  handleSearch();
+                }
+              }}
+              placeholder="Search Node or Relationship"
+              fullWidth
+              margin="normal"
+              InputProps={{
+                endAdornment: (
+                  <InputAdornment position="end">
+                    <IconButton onClick={handleSearch} color="primary">
+                      <SearchIcon />
+                    </IconButton>
+                  </InputAdornment>
+                ),
+              }}
+            />
+
+            {searchResults.filter((item) => "neighbors" in item).length > 0 && (
+              <Box sx={{ marginTop: 2 }}>
+                <Typography variant="h6">Nodes</Typography>
+                <TableContainer
+                  component={Paper}
+                  sx={{ marginTop: 2, maxHeight: "400px", overflow: "auto" }}
+                >
+                  <Table>
+                    <TableHead>
+                      <TableRow>
+                        <TableCell>Name</TableCell>
+                        <TableCell>Type</TableCell>
+                        <TableCell>Actions</TableCell>
+                      </TableRow>
+                    </TableHead>
+                    <TableBody>
+                      {searchResults
+                        .filter((item) => "neighbors" in item)
+                        .map((node) => (
+                          <TableRow key={node.id}>
+                            <TableCell>{node.name}</TableCell>
+                            <TableCell>{node.type}</TableCell>
+                            <TableCell>
+                              <Box
+                                display="flex"
+                                justifyContent="space-between"
+                              >
+                                <Button
+                                  onClick={() =>
+                                    handleFocusButtonClick(node as CustomNode)
+                                  }
+                                >
+                                  Focus
+                                </Button>
+                                <Button
+                                  onClick={() =>
+                                    handleNodeClick(node as CustomNode)
+                                  }
+                                  sx={{ marginLeft: 1 }}
+                                >
+                                  Details
+                                </Button>
+                                {hasEmbedding(node as CustomNode) && (
+                                  <Button
+                                    onClick={() => {
+                                      setQueryNode(node as CustomNode);
+                                      handleSimilarToNode(
+                                        node as CustomNode,
+                                        k
+                                      );
+                                    }}
+                                    sx={{ marginLeft: 1 }}
+                                  >
+                                    Similar
+                                  </Button>
+                                )}
+                              </Box>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                    </TableBody>
+                  </Table>
+                </TableContainer>
+              </Box>
+            )}
 
-        {searchResults.filter((item) => "source" in item && "target" in item)
-          .length > 0 && (
-          <Box sx={{ marginTop: 2 }}>
-            <Typography variant="h6">Relationships</Typography>
-            <TableContainer
-              component={Paper}
-              sx={{ marginTop: 2, maxHeight: "400px", overflow: "auto" }}
-            >
-              <Table>
-                <TableHead>
-                  <TableRow>
-                    <TableCell>Source</TableCell>
-                    <TableCell>Target</TableCell>
-                    <TableCell>Description</TableCell>
-                    <TableCell>Action</TableCell>
-                  </TableRow>
-                </TableHead>
-                <TableBody>
-                  {searchResults
-                    .filter((item) => "source" in item && "target" in item)
-                    .map((link) => (
-                      <TableRow key={link.id}>
-                        <TableCell>
-                          {typeof link.source === "object"
-                            ? (link.source as CustomNode).name
-                            : link.source}
-                        </TableCell>
-                        <TableCell>
-                          {typeof link.target === "object"
-                            ? (link.target as CustomNode).name
-                            : link.target}
-                        </TableCell>
-                        <TableCell>{link.description}</TableCell>
-                        <TableCell>
-                          <Box display="flex" justifyContent="space-between">
-                            <Button
-                              onClick={() =>
-                                handleFocusLinkClick(link as CustomLink)
-                              }
-                            >
-                              Focus
-                            </Button>
-                            <Button
-                              onClick={() =>
-                                handleLinkClick(link as CustomLink)
-                              }
-                              sx={{ marginLeft: 1 }}
-                            >
-                              Details
-                            </Button>
-                          </Box>
-                        </TableCell>
+            {searchResults.filter(
+              (item) => "source" in item && "target" in item
+            ).length > 0 && (
+              <Box sx={{ marginTop: 2 }}>
+                <Typography variant="h6">Relationships</Typography>
+                <TableContainer
+                  component={Paper}
+                  sx={{ marginTop: 2, maxHeight: "400px", overflow: "auto" }}
+                >
+                  <Table>
+                    <TableHead>
+                      <TableRow>
+                        <TableCell>Source</TableCell>
+                        <TableCell>Target</TableCell>
+                        <TableCell>Description</TableCell>
+                        <TableCell>Action</TableCell>
                       </TableRow>
-                    ))}
-                </TableBody>
-              </Table>
-            </TableContainer>
-          </Box>
+                    </TableHead>
+                    <TableBody>
+                      {searchResults
+                        .filter((item) => "source" in item && "target" in item)
+                        .map((link) => (
+                          <TableRow key={link.id}>
+                            <TableCell>
+                              {typeof link.source === "object"
+                                ? (link.source as CustomNode).name
+                                : link.source}
+                            </TableCell>
+                            <TableCell>
+                              {typeof link.target === "object"
+                                ? (link.target as CustomNode).name
+                                : link.target}
+                            </TableCell>
+                            <TableCell>{link.description}</TableCell>
+                            <TableCell>
+                              <Box
+                                display="flex"
+                                justifyContent="space-between"
+                              >
+                                <Button
+                                  onClick={() =>
+                                    handleFocusLinkClick(link as CustomLink)
+                                  }
+                                >
+                                  Focus
+                                </Button>
+                                <Button
+                                  onClick={() =>
+                                    handleLinkClick(link as CustomLink)
+                                  }
+                                  sx={{ marginLeft: 1 }}
+                                >
+                                  Details
+                                </Button>
+                              </Box>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                    </TableBody>
+                  </Table>
+                </TableContainer>
+              </Box>
+            )}
+          </>
         )}
       </Box>
     </Drawer>
@@ -0,0 +1,168 @@
+import React, { useState } from "react";
+import {
+  Box,
+  Button,
+  Card,
+  CardHeader,
+  Collapse,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  List,
+  ListItem,
+  ListItemButton,
+  ListItemText,
+  TextField,
+  Tooltip,
+} from "@mui/material";
+import DeleteIcon from "@mui/icons-material/Delete";
+import EditIcon from "@mui/icons-material/Edit";
+import StarIcon from "@mui/icons-material/Star";
+import StarBorderIcon from "@mui/icons-material/StarBorder";
+import DownloadIcon from "@mui/icons-material/Download";
+import ExpandMoreIcon from "@mui/icons-material/ExpandMore";
+import ExpandLessIcon from "@mui/icons-material/ExpandLess";
+import { SearchHistoryEntry } from "../models/search-history";
+import { searchTypeLabels } from "../utils/search-results";
+
+interface SearchHistoryPanelProps {
+  history: SearchHistoryEntry[];
+  onOpen: (entry: SearchHistoryEntry) => void;
+  onRename: (entry: SearchHistoryEntry, name: string) => void;
+  onToggleStar: (entry: SearchHistoryEntry) => void;
+  onDelete: (id: string) => void;
+  onExport: () => void;
+}
+
+const describeEntry = (entry: SearchHistoryEntry) =>
+  [
+    entry.name ? `"${entry.query}"` : null,
+    searchTypeLabels[entry.searchType],
+    new Date(entry.timestamp).toLocaleString(),
+    `${entry.completion_time} ms`,
+    `${entry.llm_calls} LLM calls`,
+    `${entry.prompt_tokens} prompt tokens`,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+
+const SearchHistoryPanel: React.FC<SearchHistoryPanelProps> = ({
+  history,
+  onOpen,
+  onRename,
+  onToggleStar,
+  onDelete,
+  onExport,
+}) => {
+  const [expanded, setExpanded] = useState(false);
+  const [renaming, setRenaming] = useState<SearchHistoryEntry | null>(null);
+  const [newName, setNewName] = useState("");
+
+  if (history.length === 0) return null;
+
+  // Starred queries stay at the top; the rest are newest first
+  const entries = [...history].sort(
+    (a, b) => Number(b.starred) - Number(a.starred)
+  );
+
+  const startRename = (entry: SearchHistoryEntry) => {
+    setRenaming(entry);
+    setNewName(entry.name ?? entry.query);
+  };
+
+  const submitRename = () => {
+    if (renaming) {
+      onRename(renaming, newName.trim());
+    }
+    setRenaming(null);
+  };
+
+  return (
+    <Card variant="outlined">
+      <CardHeader
+        title="History"
+        subheader={`${history.length} saved ${
+          history.length === 1 ? "search" : "searches"
+        }`}
+        action={
+          <Box>
+            <Tooltip title="Export as JSON">
+              <IconButton onClick={onExport}>
+                <DownloadIcon />
+              </IconButton>
+            </Tooltip>
+            <IconButton onClick={() => setExpanded(!expanded)}>
+              {expanded ? <ExpandLessIcon /> : <ExpandMoreIcon />}
+            </IconButton>
+          </Box>
+        }
+      />
+      <Collapse in={expanded} timeout="auto" unmountOnExit>
+        <List dense sx={{ maxHeight: 320, overflowY: "auto" }}>
+          {entries.map((entry) => (
+            <ListItem
+              key={entry.id}
+              disablePadding
+              secondaryAction={
+                <Box>
+                  <Tooltip title="Rename">
+                    <IconButton edge="end" onClick={() => startRename(entry)}>
+                      <EditIcon />
+                    </IconButton>
+                  </Tooltip>
+                  <Tooltip title="Delete">
+                    <IconButton edge="end" onClick={() => onDelete(entry.id)}>
+                      <DeleteIcon />
+                    </IconButton>
+                  </Tooltip>
+                </Box>
+              }
+            >
+              <IconButton onClick={() => onToggleStar(entry)} sx={{ ml: 1 }}>
+                {entry.starred ? (
+                  <StarIcon color="warning" />
+                ) : (
+                  <StarBorderIcon />
+                )}
+              </IconButton>
+              <ListItemButton onClick={() => onOpen(entry)} sx={{ pr: 12 }}>
+                <ListItemText
+                  primary={entry.name ?? entry.query}
+                  secondary={describeEntry(entry)}
+                />
+              </ListItemButton>
+            </ListItem>
+          ))}
+        </List>
+      </Collapse>
+
+      <Dialog open={renaming !== null} onClose={() => setRenaming(null)}>
+        <DialogTitle>Rename Search</DialogTitle>
+        <DialogContent>
+          <TextField
+            autoFocus
+            fullWidth
+            margin="dense"
+            label="Name"
+            helperText="Leave empty to show the query"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") submitRename();
+            }}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setRenaming(null)}>Cancel</Button>
+          <Button onClick={submitRename} variant="contained">
+            Rename
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default SearchHistoryPanel;
@@ -0,0 +1,150 @@
+import React, { useState } from "react";
+import {
+  Button,
+  Checkbox,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  FormControlLabel,
+  InputLabel,
+  MenuItem,
+  Select,
+  Stack,
+  TextField,
+} from "@mui/material";
+
+export interface SnapshotOptions {
+  format: "png" | "svg";
+  scale: number;
+  width: number;
+  height: number;
+  title: string;
+  includeLegend: boolean;
+}
+
+interface SnapshotDialogProps {
+  open: boolean;
+  graphType: "2d" | "3d";
+  onClose: () => void;
+  onCapture: (options: SnapshotOptions) => void;
+}
+
+const SCALE_OPTIONS = [1, 2, 3, 4];
+const RESOLUTION_OPTIONS = [
+  { label: "1280 × 720", width: 1280, height: 720 },
+  { label: "1920 × 1080", width: 1920, height: 1080 },
+  { label: "2560 × 1440", width: 2560, height: 1440 },
+  { label: "3840 × 2160", width: 3840, height: 2160 },
+];
+
+const SnapshotDialog: React.FC<SnapshotDialogProps> = ({
+  open,
+  graphType,
+  onClose,
+  onCapture,
+}) => {
+  const [format, setFormat] = useState<"png" | "svg">("png");
+  const [scale, setScale] = useState(2);
+  const [resolution, setResolution] = useState(1);
+  const [title, setTitle] = useState("");
+  const [includeLegend, setIncludeLegend] = useState(true);
+
+  // The 3D view is WebGL, so it can only be captured as a bitmap
+  const effectiveFormat = graphType === "3d" ? "png" : format;
+
+  const handleCapture = () => {
+    const { width, height } = RESOLUTION_OPTIONS[resolution];
+    onCapture({
+      format: effectiveFormat,
+      scale,
+      width,
+      height,
+      title,
+      includeLegend,
+    });
+    onClose();
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} sx={{ zIndex: 1500 }}>
+      <DialogTitle>Snapshot</DialogTitle>
+      <DialogContent>
+        <Stack spacing={2} sx={{ mt: 1, minWidth: 320 }}>
+          {graphType === "2d" && (
+            <FormControl size="small">
+              <InputLabel id="snapshot-format-label">Format</InputLabel>
+              <Select
+                labelId="snapshot-format-label"
+                value={format}
+                label="Format"
+                onChange={(e) => setFormat(e.target.value as "png" | "svg")}
+              >
+                <MenuItem value="png">PNG</MenuItem>
+                <MenuItem value="svg">SVG</MenuItem>
+              </Select>
+            </FormControl>
+          )}
+          {graphType === "2d" && format === "png" && (
+            <FormControl size="small">
+              <InputLabel id="snapshot-scale-label">Scale</InputLabel>
+              <Select
+                labelId="snapshot-scale-label"
+                value={scale}
+                label="Scale"
+                onChange={(e) => setScale(Number(e.target.value))}
+              >
+                {SCALE_OPTIONS.map((option) => (
+                  <MenuItem key={option} value={option}>
+                    {option}x
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          )}
+          {graphType === "3d" && (
+            <FormControl size="small">
+              <InputLabel id="snapshot-resolution-label">Resolution</InputLabel>
+              <Select
+                labelId="snapshot-resolution-label"
+                value={resolution}
+                label="Resolution"
+                onChange={(e) => setResolution(Number(e.target.value))}
+              >
+                {RESOLUTION_OPTIONS.map((option, index) => (
+                  <MenuItem key={option.label} value={index}>
+                    {option.label}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          )}
+          <TextField
+            size="small"
+            label="Title"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+          />
+          <FormControlLabel
+            control={
+              <Checkbox
+                checked={includeLegend}
+                onChange={() => setIncludeLegend(!includeLegend)}
+              />
+            }
+            label="Include Legend"
+          />
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button onClick={handleCapture} variant="contained">
+          Download
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default SnapshotDialog;
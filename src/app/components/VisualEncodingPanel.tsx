@@ -0,0 +1,227 @@
+import React, { useState } from "react";
+import {
+  Box,
+  ButtonBase,
+  Collapse,
+  FormControl,
+  IconButton,
+  InputLabel,
+  MenuItem,
+  Paper,
+  Select,
+  Tooltip,
+  Typography,
+} from "@mui/material";
+import TuneIcon from "@mui/icons-material/Tune";
+import {
+  EncodingOption,
+  LegendCategory,
+  linkOptions,
+  nodeColorOptions,
+  nodeSizeOptions,
+  VisualEncoding,
+} from "../utils/visual-encoding";
+
+interface VisualEncodingPanelProps {
+  encoding: VisualEncoding;
+  onEncodingChange: (encoding: VisualEncoding) => void;
+  categories: LegendCategory[];
+  hiddenCategories: Set<string>;
+  onToggleCategory: (category: string) => void;
+  // Ranges of the encoded values, null when nothing is encoded
+  nodeSizeDomain: [number, number] | null;
+  linkWidthDomain: [number, number] | null;
+  linkColorDomain: [number, number] | null;
+}
+
+const MAX_LEGEND_HEIGHT = 240;
+
+const formatDomain = (domain: [number, number]) =>
+  domain.map((value) => +value.toFixed(2)).join("–");
+
+const EncodingSelect = <T extends string>({
+  label,
+  value,
+  options,
+  onChange,
+}: {
+  label: string;
+  value: T;
+  options: EncodingOption<T>[];
+  onChange: (value: T) => void;
+}) => (
+  <FormControl size="small" fullWidth>
+    <InputLabel>{label}</InputLabel>
+    <Select
+      value={value}
+      label={label}
+      onChange={(e) => onChange(e.target.value as T)}
+    >
+      {options.map((option) => (
+        <MenuItem key={option.value} value={option.value}>
+          {option.label}
+        </MenuItem>
+      ))}
+    </Select>
+  </FormControl>
+);
+
+// Picks which attributes drive node color and size and link width and color,
+// with a legend of the node colors whose entries hide and show their nodes
+const VisualEncodingPanel: React.FC<VisualEncodingPanelProps> = ({
+  encoding,
+  onEncodingChange,
+  categories,
+  hiddenCategories,
+  onToggleCategory,
+  nodeSizeDomain,
+  linkWidthDomain,
+  linkColorDomain,
+}) => {
+  const [showSettings, setShowSettings] = useState(false);
+  const label = (
+    options: EncodingOption<string>[],
+    value: string,
+    domain: [number, number] | null
+  ) =>
+    `${options.find((option) => option.value === value)?.label}${
+      domain ? ` (${formatDomain(domain)})` : ""
+    }`;
+
+  const captions = [
+    encoding.nodeSize !== "none" &&
+      `Size: ${label(nodeSizeOptions, encoding.nodeSize, nodeSizeDomain)}`,
+    encoding.linkWidth !== "none" &&
+      `Link width: ${label(linkOptions, encoding.linkWidth, linkWidthDomain)}`,
+    encoding.linkColor !== "none" &&
+      `Link color: ${label(linkOptions, encoding.linkColor, linkColorDomain)}`,
+  ].filter((caption): caption is string => !!caption);
+
+  return (
+    <Paper
+      elevation={3}
+      sx={{
+        position: "absolute",
+        bottom: 10,
+        left: 10,
+        zIndex: 1400,
+        padding: 1,
+        width: 240,
+      }}
+    >
+      <Box
+        sx={{
+          display: "flex",
+          justifyContent: "space-between",
+          alignItems: "center",
+        }}
+      >
+        <Typography variant="subtitle2">
+          Color: {label(nodeColorOptions, encoding.nodeColor, null)}
+        </Typography>
+        <Tooltip title="Visual Encoding">
+          <IconButton
+            size="small"
+            color={showSettings ? "primary" : "default"}
+            onClick={() => setShowSettings(!showSettings)}
+          >
+            <TuneIcon fontSize="small" />
+          </IconButton>
+        </Tooltip>
+      </Box>
+
+      <Collapse in={showSettings} timeout="auto" unmountOnExit>
+        <Box sx={{ display: "flex", flexDirection: "column", gap: 1.5, my: 1 }}>
+          <EncodingSelect
+            label="Node Color"
+            value={encoding.nodeColor}
+            options={nodeColorOptions}
+            onChange={(nodeColor) =>
+              onEncodingChange({ ...encoding, nodeColor })
+            }
+          />
+          <EncodingSelect
+            label="Node Size"
+            value={encoding.nodeSize}
+            options={nodeSizeOptions}
+            onChange={(nodeSize) => onEncodingChange({ ...encoding, nodeSize })}
+          />
+          <EncodingSelect
+            label="Link Width"
+            value={encoding.linkWidth}
+            options={linkOptions}
+            onChange={(linkWidth) =>
+              onEncodingChange({ ...encoding, linkWidth })
+            }
+          />
+          <EncodingSelect
+            label="Link Color"
+            value={encoding.linkColor}
+            options={linkOptions}
+            onChange={(linkColor) =>
+              onEncodingChange({ ...encoding, linkColor })
+            }
+          />
+        </Box>
+      </Collapse>
+
+      <Box sx={{ maxHeight: MAX_LEGEND_HEIGHT, overflowY: "auto", mt: 0.5 }}>
+        {categories.map((category) => {
+          const hidden = hiddenCategories.has(category.key);
+          return (
+            <ButtonBase
+              key={category.key}
+              onClick={() => onToggleCategory(category.key)}
+              sx={{
+                display: "flex",
+                width: "100%",
+                justifyContent: "flex-start",
+                gap: 1,
+                px: 0.5,
+                borderRadius: 1,
+                opacity: hidden ? 0.4 : 1,
+              }}
+            >
+              <Box
+                sx={{
+                  width: 12,
+                  height: 12,
+                  flexShrink: 0,
+                  borderRadius: "50%",
+                  backgroundColor: category.color,
+                }}
+              />
+              <Typography
+                variant="body2"
+                noWrap
+                sx={{
+                  flexGrow: 1,
+                  textAlign: "left",
+                  textDecoration: hidden ? "line-through" : "none",
+                }}
+              >
+                {category.label}
+              </Typography>
+              <Typography variant="caption" color="textSecondary">
+                {category.count}
+              </Typography>
+            </ButtonBase>
+          );
+        })}
+      </Box>
+
+      {captions.map((caption) => (
+        <Typography
+          key={caption}
+          variant="caption"
+          color="textSecondary"
+          component="div"
+        >
+          {caption}
+        </Typography>
+      ))}
+    </Paper>
+  );
+};
+
+export default VisualEncodingPanel;
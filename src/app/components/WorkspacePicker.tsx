@@ -0,0 +1,160 @@
+import React, { useState } from "react";
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  List,
+  ListItem,
+  ListItemButton,
+  ListItemText,
+  Paper,
+  TextField,
+  Tooltip,
+  Typography,
+} from "@mui/material";
+import DeleteIcon from "@mui/icons-material/Delete";
+import EditIcon from "@mui/icons-material/Edit";
+import { Workspace } from "../models/workspace";
+import { versionAdapters } from "../utils/graphrag-versions";
+
+interface WorkspacePickerProps {
+  workspaces: Workspace[];
+  onOpen: (workspace: Workspace) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const formatBytes = (bytes: number) => {
+  const units = ["B", "KB", "MB", "GB"];
+  let size = bytes;
+  let unit = 0;
+  while (size >= 1024 && unit < units.length - 1) {
+    size /= 1024;
+    unit++;
+  }
+  return `${size.toFixed(unit === 0 ? 0 : 1)} ${units[unit]}`;
+};
+
+const versionLabel = (workspace: Workspace) =>
+  versionAdapters.find(
+    (adapter) => adapter.version === workspace.graphragVersion
+  )?.label ?? workspace.graphragVersion;
+
+const WorkspacePicker: React.FC<WorkspacePickerProps> = ({
+  workspaces,
+  onOpen,
+  onRename,
+  onDelete,
+}) => {
+  const [renaming, setRenaming] = useState<Workspace | null>(null);
+  const [newName, setNewName] = useState("");
+
+  if (workspaces.length === 0) return null;
+
+  const startRename = (workspace: Workspace) => {
+    setRenaming(workspace);
+    setNewName(workspace.name);
+  };
+
+  const submitRename = () => {
+    if (renaming && newName.trim()) {
+      onRename(renaming.id, newName.trim());
+    }
+    setRenaming(null);
+  };
+
+  return (
+    <Paper variant="outlined" sx={{ mb: 2 }}>
+      <Typography variant="h6" sx={{ px: 2, pt: 1 }}>
+        Saved Workspaces
+      </Typography>
+      <List dense>
+        {workspaces.map((workspace) => {
+          const totalSize = workspace.files.reduce(
+            (sum, file) => sum + file.size,
+            0
+          );
+          return (
+            <ListItem
+              key={workspace.id}
+              disablePadding
+              secondaryAction={
+                <Box>
+                  <Tooltip title="Rename">
+                    <IconButton
+                      edge="end"
+                      onClick={() => startRename(workspace)}
+                    >
+                      <EditIcon />
+                    </IconButton>
+                  </Tooltip>
+                  <Tooltip title="Delete">
+                    <IconButton
+                      edge="end"
+                      onClick={() => onDelete(workspace.id)}
+                    >
+                      <DeleteIcon />
+                    </IconButton>
+                  </Tooltip>
+                </Box>
+              }
+            >
+              <Tooltip
+                placement="bottom-start"
+                title={
+                  <Box>
+                    {workspace.files.map((file) => (
+                      <Typography key={file.name} variant="body2">
+                        {file.name} ({formatBytes(file.size)})
+                      </Typography>
+                    ))}
+                  </Box>
+                }
+              >
+                <ListItemButton onClick={() => onOpen(workspace)}>
+                  <ListItemText
+                    primary={workspace.name}
+                    secondary={`${versionLabel(workspace)} · ${
+                      workspace.files.length
+                    } files · ${formatBytes(totalSize)} · loaded ${new Date(
+                      workspace.loadedAt
+                    ).toLocaleString()}`}
+                  />
+                </ListItemButton>
+              </Tooltip>
+            </ListItem>
+          );
+        })}
+      </List>
+
+      <Dialog open={renaming !== null} onClose={() => setRenaming(null)}>
+        <DialogTitle>Rename Workspace</DialogTitle>
+        <DialogContent>
+          <TextField
+            autoFocus
+            fullWidth
+            margin="dense"
+            label="Name"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") submitRename();
+            }}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setRenaming(null)}>Cancel</Button>
+          <Button onClick={submitRename} variant="contained">
+            Rename
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Paper>
+  );
+};
+
+export default WorkspacePicker;
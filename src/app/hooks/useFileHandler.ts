@@ -1,4 +1,10 @@
-import { useState } from "react";
+import {
+  Dispatch,
+  MutableRefObject,
+  SetStateAction,
+  useRef,
+  useState,
+} from "react";
 import { useNavigate } from "react-router-dom";
 import { Entity } from "../models/entity";
 import { Relationship } from "../models/relationship";
@@ -7,28 +13,44 @@ import { TextUnit } from "../models/text-unit";
 import { Community } from "../models/community";
 import { CommunityReport } from "../models/community-report";
 import { Covariate } from "../models/covariate";
-import { readParquetFile } from "../utils/parquet-utils";
-
-// Paths to default files in the public folder
-const defaultFiles = [
-  process.env.PUBLIC_URL + "/artifacts/create_final_entities.parquet",
-  process.env.PUBLIC_URL + "/artifacts/create_final_relationships.parquet",
-  process.env.PUBLIC_URL + "/artifacts/create_final_documents.parquet",
-  process.env.PUBLIC_URL + "/artifacts/create_final_text_units.parquet",
-  process.env.PUBLIC_URL + "/artifacts/create_final_communities.parquet",
-  process.env.PUBLIC_URL + "/artifacts/create_final_community_reports.parquet",
-  process.env.PUBLIC_URL + "/artifacts/create_final_covariates.parquet",
-];
-
-const fileSchemas: { [key: string]: string } = {
-  "create_final_entities.parquet": "entity",
-  "create_final_relationships.parquet": "relationship",
-  "create_final_text_units.parquet": "text_unit",
-  "create_final_communities.parquet": "community",
-  "create_final_community_reports.parquet": "community_report",
-  "create_final_documents.parquet": "document",
-  "create_final_covariates.parquet": "covariate",
-};
+import { Node } from "../models/node";
+import { IndexArtifacts } from "../models/index-artifacts";
+import { readParquetColumns } from "../utils/parquet-utils";
+import {
+  isAbortError,
+  LoadIssue,
+  ParquetProgress,
+  readParquetFileInWorker,
+} from "../utils/parquet-worker-client";
+import {
+  DetectedFile,
+  detectVersion,
+  getFileSchema,
+  GraphRAGVersion,
+  versionAdapters,
+} from "../utils/graphrag-versions";
+import {
+  isVectorStoreFile,
+  readVectorStore,
+  VectorStore,
+} from "../utils/vector-store";
+
+// Paths to default files in the public folder, for every supported layout
+const defaultFiles = Array.from(
+  new Set(
+    versionAdapters.flatMap((adapter) => Object.keys(adapter.fileSchemas))
+  )
+).map((fileName) => process.env.PUBLIC_URL + "/artifacts/" + fileName);
+
+type LoadProgress = { [fileName: string]: ParquetProgress };
+
+// The main and comparison loads each have their own cancellation, progress
+// and issues, so neither cancels or clears the other
+interface LoadSlot {
+  abortControllerRef: MutableRefObject<AbortController | null>;
+  setProgress: Dispatch<SetStateAction<LoadProgress>>;
+  setIssues: Dispatch<SetStateAction<LoadIssue[]>>;
+}
 
 const useFileHandler = () => {
   const navigate = useNavigate();
@@ -38,15 +60,76 @@ const useFileHandler = () => {
   const [textunits, setTextUnits] = useState<TextUnit[]>([]);
   const [communities, setCommunities] = useState<Community[]>([]);
   const [covariates, setCovariates] = useState<Covariate[]>([]);
+  const [nodes, setNodes] = useState<Node[]>([]);
   const [communityReports, setCommunityReports] = useState<CommunityReport[]>(
     []
   );
+  const [graphragVersion, setGraphragVersion] =
+    useState<GraphRAGVersion | null>(null);
+  const [loadProgress, setLoadProgress] = useState<LoadProgress>({});
+  const [loadIssues, setLoadIssues] = useState<LoadIssue[]>([]);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Second index loaded for comparison against the one above
+  const [comparison, setComparison] = useState<IndexArtifacts | null>(null);
+  const [comparisonProgress, setComparisonProgress] = useState<LoadProgress>(
+    {}
+  );
+  const [comparisonIssues, setComparisonIssues] = useState<LoadIssue[]>([]);
+  const comparisonAbortControllerRef = useRef<AbortController | null>(null);
 
-  const handleFilesRead = async (files: File[]) => {
-    await loadFiles(files);
+  const mainLoad: LoadSlot = {
+    abortControllerRef,
+    setProgress: setLoadProgress,
+    setIssues: setLoadIssues,
+  };
+  const comparisonLoad: LoadSlot = {
+    abortControllerRef: comparisonAbortControllerRef,
+    setProgress: setComparisonProgress,
+    setIssues: setComparisonIssues,
   };
 
-  const loadFiles = async (files: File[] | string[]) => {
+  // Resolves to the detected version, or null if loading was cancelled
+  const handleFilesRead = async (files: File[]) => loadFiles(files);
+
+  const handleComparisonFilesRead = async (files: File[]) => {
+    const artifacts = await readArtifacts(files, comparisonLoad);
+    if (artifacts) {
+      setComparison(artifacts);
+    }
+  };
+
+  const clearComparison = () => {
+    setComparison(null);
+  };
+
+  const cancelLoading = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const cancelComparisonLoading = () => {
+    comparisonAbortControllerRef.current?.abort();
+  };
+
+  const clearLoadIssues = () => setLoadIssues([]);
+
+  const reportIssue = (issue: LoadIssue) =>
+    setLoadIssues((prev) => [...prev, issue]);
+
+  const clearComparisonIssues = () => setComparisonIssues([]);
+
+  // Resolves to null if loading was cancelled
+  const readArtifacts = async (
+    files: File[] | string[],
+    { abortControllerRef, setProgress, setIssues }: LoadSlot
+  ): Promise<IndexArtifacts | null> => {
+    abortControllerRef.current?.abort();
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    setIssues([]);
+
+    const reportIssue = (issue: LoadIssue) =>
+      setIssues((prev) => [...prev, issue]);
+
     const entitiesArray: Entity[][] = [];
     const relationshipsArray: Relationship[][] = [];
     const documentsArray: Document[][] = [];
@@ -54,13 +137,46 @@ const useFileHandler = () => {
     const communitiesArray: Community[][] = [];
     const communityReportsArray: CommunityReport[][] = [];
     const covariatesArray: Covariate[][] = [];
+    const nodesArray: Node[][] = [];
 
+    // LanceDB tables are joined onto the parquet rows once those are read
+    const vectorStoreFiles = (files as (File | string)[]).filter(
+      (file): file is File =>
+        typeof file !== "string" && isVectorStoreFile(file)
+    );
+
+    const cancelled = () => {
+      setProgress({});
+      return null;
+    };
+
+    // Lists the files while their footers are read, so loading can be
+    // cancelled before decoding starts
+    setProgress(
+      Object.fromEntries(
+        (files as (File | string)[])
+          .filter((file) => !vectorStoreFiles.includes(file as File))
+          .map((file) => [
+            typeof file === "string" ? file.split("/").pop()! : file.name,
+            { rowsRead: 0, totalRows: 0 },
+          ])
+      )
+    );
+
+    const detectedFiles: (DetectedFile & { file: File })[] = [];
     for (const file of files) {
+      // Reading the footers can take a while for many files
+      if (abortController.signal.aborted) return cancelled();
+      if (typeof file !== "string" && isVectorStoreFile(file)) continue;
       const fileName =
         typeof file === "string" ? file.split("/").pop()! : file.name;
-      const schema = fileSchemas[fileName];
+      const schema = getFileSchema(fileName);
+      if (!schema) {
+        console.warn(`Skipping unrecognized file ${fileName}`);
+        continue;
+      }
 
-      let data;
+      let fileObject: File;
       if (typeof file === "string") {
         // Fetch default file from public folder as binary data
         const response = await fetch(file);
@@ -72,15 +188,61 @@ const useFileHandler = () => {
         // Convert ArrayBuffer to File object
         const buffer = await response.arrayBuffer();
         const blob = new Blob([buffer], { type: "application/x-parquet" });
-        const fileBlob = new File([blob], fileName);
-
-        // Use the File object in readParquetFile
-        data = await readParquetFile(fileBlob, schema);
-        // console.log(`Successfully loaded ${fileName} from public folder`);
+        fileObject = new File([blob], fileName);
       } else {
         // Handle drag-and-drop files directly
-        data = await readParquetFile(file, schema);
-        // console.log(`Successfully loaded ${file.name} from drag-and-drop`);
+        fileObject = file;
+      }
+
+      try {
+        const columns = await readParquetColumns(fileObject);
+        detectedFiles.push({
+          file: fileObject,
+          name: fileName,
+          schema,
+          columns,
+        });
+      } catch (err) {
+        console.error(`Error reading Parquet file ${fileName}`, err);
+        reportIssue({
+          fileName,
+          severity: "error",
+          message: err instanceof Error ? err.message : String(err),
+        });
+      }
+    }
+    if (abortController.signal.aborted) return cancelled();
+
+    // Pick the adapter from file names and column sets before decoding rows
+    const adapter = detectVersion(detectedFiles);
+
+    setProgress(
+      Object.fromEntries(
+        detectedFiles.map(({ name }) => [name, { rowsRead: 0, totalRows: 0 }])
+      )
+    );
+
+    for (const { file, name, schema } of detectedFiles) {
+      let data: any[];
+      try {
+        data = await readParquetFileInWorker(
+          file,
+          schema,
+          adapter.version,
+          (progress) => setProgress((prev) => ({ ...prev, [name]: progress })),
+          abortController.signal,
+          (message) =>
+            reportIssue({ fileName: name, severity: "warning", message })
+        );
+      } catch (err) {
+        if (isAbortError(err)) return cancelled();
+        console.error(`Error reading Parquet file ${name}`, err);
+        reportIssue({
+          fileName: name,
+          severity: "error",
+          message: err instanceof Error ? err.message : String(err),
+        });
+        data = [];
       }
 
       if (schema === "entity") {
@@ -97,16 +259,71 @@ const useFileHandler = () => {
         communityReportsArray.push(data);
       } else if (schema === "covariate") {
         covariatesArray.push(data);
+      } else if (schema === "node") {
+        nodesArray.push(data);
       }
     }
 
-    setEntities(entitiesArray.flat());
-    setRelationships(relationshipsArray.flat());
-    setDocuments(documentsArray.flat());
-    setTextUnits(textUnitsArray.flat());
-    setCommunities(communitiesArray.flat());
-    setCommunityReports(communityReportsArray.flat());
-    setCovariates(covariatesArray.flat());
+    let vectorStore: VectorStore;
+    try {
+      vectorStore = await readVectorStore(
+        vectorStoreFiles,
+        abortController.signal
+      );
+    } catch (err) {
+      if (isAbortError(err)) return cancelled();
+      // The parquet artifacts load without the embeddings
+      console.error("Error reading the vector store", err);
+      reportIssue({
+        fileName: vectorStoreFiles.map((file) => file.name).join(", "),
+        severity: "error",
+        message: err instanceof Error ? err.message : String(err),
+      });
+      vectorStore = { entity: new Map(), text_unit: new Map() };
+    }
+
+    // Embeddings stored in the parquet files take precedence
+    const entities = entitiesArray.flat().map((entity) => ({
+      ...entity,
+      description_embedding:
+        entity.description_embedding ?? vectorStore.entity.get(entity.id),
+    }));
+    const textunits = textUnitsArray.flat().map((textunit) => ({
+      ...textunit,
+      text_embedding:
+        textunit.text_embedding ?? vectorStore.text_unit.get(textunit.id),
+    }));
+
+    setProgress({});
+    return {
+      entities,
+      relationships: relationshipsArray.flat(),
+      documents: documentsArray.flat(),
+      textunits,
+      communities: communitiesArray.flat(),
+      communityReports: communityReportsArray.flat(),
+      covariates: covariatesArray.flat(),
+      nodes: nodesArray.flat(),
+      graphragVersion: adapter.version,
+    };
+  };
+
+  const loadFiles = async (
+    files: File[] | string[]
+  ): Promise<GraphRAGVersion | null> => {
+    const artifacts = await readArtifacts(files, mainLoad);
+    if (!artifacts) return null;
+
+    setEntities(artifacts.entities);
+    setRelationships(artifacts.relationships);
+    setDocuments(artifacts.documents);
+    setTextUnits(artifacts.textunits);
+    setCommunities(artifacts.communities);
+    setCommunityReports(artifacts.communityReports);
+    setCovariates(artifacts.covariates);
+    setNodes(artifacts.nodes);
+    setGraphragVersion(artifacts.graphragVersion);
+    return artifacts.graphragVersion;
   };
 
   const checkFileExists = async (filePath: string) => {
@@ -166,7 +383,21 @@ const useFileHandler = () => {
     communities,
     covariates,
     communityReports,
+    nodes,
+    graphragVersion,
+    comparison,
+    loadProgress,
+    loadIssues,
+    clearLoadIssues,
+    reportIssue,
+    cancelLoading,
+    comparisonProgress,
+    comparisonIssues,
+    clearComparisonIssues,
+    cancelComparisonLoading,
     handleFilesRead,
+    handleComparisonFilesRead,
+    clearComparison,
     loadDefaultFiles,
   };
 };
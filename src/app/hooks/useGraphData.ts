@@ -6,8 +6,39 @@ import { TextUnit } from "../models/text-unit";
 import { Community } from "../models/community";
 import { CommunityReport } from "../models/community-report";
 import { Covariate } from "../models/covariate";
+import { Node } from "../models/node";
 import { CustomGraphData, CustomLink, CustomNode } from "../models/custom-graph-data";
 
+// Spacing between stored positions once scaled, roughly a few node diameters
+const STORED_LAYOUT_SPACING = 20;
+
+// Stored layouts (UMAP) come in arbitrary units; fit them to the canvas scale
+const scaleStoredLayout = (levelNodes: Node[]) => {
+  // A loop rather than Math.min(...xs), which overflows the stack on large
+  // graphs
+  let minX = Infinity;
+  let maxX = -Infinity;
+  let minY = Infinity;
+  let maxY = -Infinity;
+  for (const { x, y } of levelNodes) {
+    minX = Math.min(minX, x);
+    maxX = Math.max(maxX, x);
+    minY = Math.min(minY, y);
+    maxY = Math.max(maxY, y);
+  }
+  const extent = Math.max(maxX - minX, maxY - minY);
+  const scale =
+    extent > 0
+      ? (Math.sqrt(levelNodes.length) * STORED_LAYOUT_SPACING) / extent
+      : 1;
+  const cx = (maxX + minX) / 2;
+  const cy = (maxY + minY) / 2;
+  return (node: Node) => ({
+    x: (node.x - cx) * scale,
+    y: (node.y - cy) * scale,
+  });
+};
+
 const useGraphData = (
   entities: Entity[],
   relationships: Relationship[],
@@ -16,25 +47,42 @@ const useGraphData = (
   communities: Community[],
   communityReports: CommunityReport[],
   covariates: Covariate[],
+  entityNodes: Node[],
   includeDocuments: boolean,
   includeTextUnits: boolean,
   includeCommunities: boolean,
-  includeCovariates: boolean
+  includeCovariates: boolean,
+  nodeLevel: number
 ) => {
   const [graphData, setGraphData] = useState<CustomGraphData>({ nodes: [], links: [] });
 
   useEffect(() => {
-    const nodes: CustomNode[] = entities.map((entity) => ({
-      uuid: entity.id,
-      id: entity.title,
-      name: entity.title,
-      type: entity.type,
-      description: entity.description,
-      human_readable_id: entity.human_readable_id,      
-      text_unit_ids: entity.text_unit_ids,      
-      neighbors: [],
-      links: [],
-    }));
+    // create_final_nodes.parquet has one row per entity for every level
+    const levelNodes = entityNodes.filter((node) => node.level === nodeLevel);
+    const levelNodesMap = new Map(levelNodes.map((node) => [node.id, node]));
+    const hasStoredLayout = levelNodes.some((node) => !!node.x || !!node.y);
+    const toPosition = hasStoredLayout ? scaleStoredLayout(levelNodes) : null;
+
+    const nodes: CustomNode[] = entities.map((entity) => {
+      const levelNode = levelNodesMap.get(entity.id);
+      return {
+        uuid: entity.id,
+        id: entity.title,
+        name: entity.title,
+        type: entity.type,
+        description: entity.description,
+        human_readable_id: entity.human_readable_id,
+        text_unit_ids: entity.text_unit_ids,
+        description_embedding: entity.description_embedding,
+        graph_embedding: entity.graph_embedding,
+        level: levelNode?.level,
+        community: levelNode?.community ?? undefined,
+        degree: levelNode?.degree,
+        ...(levelNode && toPosition ? toPosition(levelNode) : {}),
+        neighbors: [],
+        links: [],
+      };
+    });
 
     const nodesMap: { [key: string]: CustomNode } = {};
     nodes.forEach(node => nodesMap[node.id] = node);
@@ -95,6 +143,7 @@ const useGraphData = (
         name: `TEXT UNIT ${textunit.id}`,
         type: "CHUNK",
         text: textunit.text,
+        text_embedding: textunit.text_embedding,
         n_tokens: textunit.n_tokens,
         document_ids: textunit.document_ids,
         entity_ids: textunit.entity_ids,
@@ -123,18 +172,23 @@ const useGraphData = (
 
     if (includeCommunities) {
       const communityNodes = communities.map((community) => {
+        // Reports and citations name a community by its number; its id is a
+        // UUID in all but the oldest GraphRAG outputs
+        const communityNumber = community.community ?? community.id;
         const report = communityReports.find(
-          (r) => r.community.toString() === community.id.toString()
+          (r) =>
+            r.community.toString() === communityNumber.toString()
         );
         return {
           uuid: community.id.toString(),
           id: community.id.toString(),
           name: community.title,
           type: "COMMUNITY",
+          community: communityNumber,
           entity_ids: community.text_unit_ids,
           relationship_ids: community.relationship_ids,
           full_content: report?.full_content || "",
-          level: report?.level || -1,
+          level: community.level ?? report?.level ?? -1,
           rank: report?.rank || -1,
           title: report?.title || "",
           rank_explanation: report?.rank_explanation || "",
@@ -196,6 +250,7 @@ const useGraphData = (
               id: `${communityNode.id}-finding-${idx}`,
               name: `${communityNode.title}-finding-${idx}`,
               type: "FINDING",
+              level: communityNode.level,
               explanation: finding.explanation,
               summary: finding.summary,
               neighbors: [],
@@ -225,8 +280,8 @@ const useGraphData = (
         human_readable_id: covariate.human_readable_id,
         name: `COVARIATE ${covariate.id}`,
         covariate_type: covariate.covariate_type,
-        // type: "COVARIATE",
-        type: covariate.type,
+        type: "COVARIATE",
+        claim_type: covariate.type,
         description: covariate.description || "",
         subject_id: covariate.subject_id,        
         object_id: covariate.object_id,        
@@ -279,10 +334,12 @@ const useGraphData = (
     communities,
     communityReports,
     covariates,
+    entityNodes,
     includeDocuments,
     includeTextUnits,
     includeCommunities,
     includeCovariates,
+    nodeLevel,
   ]);
 
   return graphData;
@@ -0,0 +1,47 @@
+import { useMemo, useState } from "react";
+import { SearchBackendSettings } from "../models/search-backend";
+import {
+  createSearchBackend,
+  defaultSearchBackendSettings,
+} from "../api/search-backends";
+
+const STORAGE_KEY = "searchBackend";
+// The auth value is a credential, so it only lasts as long as the tab
+const AUTH_STORAGE_KEY = "searchBackendAuth";
+
+const loadSettings = (): SearchBackendSettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return {
+      ...defaultSearchBackendSettings,
+      ...(stored ? JSON.parse(stored) : {}),
+      authValue: sessionStorage.getItem(AUTH_STORAGE_KEY) ?? "",
+    };
+  } catch (err) {
+    console.error("Error reading the search backend settings", err);
+    return defaultSearchBackendSettings;
+  }
+};
+
+const useSearchBackend = () => {
+  const [settings, setSettings] = useState<SearchBackendSettings>(loadSettings);
+
+  const backend = useMemo(() => createSearchBackend(settings), [settings]);
+
+  const saveSettings = (newSettings: SearchBackendSettings) => {
+    setSettings(newSettings);
+    const { authValue, ...persistedSettings } = newSettings;
+    try {
+      sessionStorage.setItem(AUTH_STORAGE_KEY, authValue);
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(persistedSettings));
+    } catch (err) {
+      // Large mock recordings can exceed the storage quota; they then only
+      // last until the page is reloaded
+      console.error("Error saving the search backend settings", err);
+    }
+  };
+
+  return { settings, backend, saveSettings };
+};
+
+export default useSearchBackend;
@@ -0,0 +1,84 @@
+import { useCallback, useEffect, useState } from "react";
+import { SearchHistoryEntry } from "../models/search-history";
+import { SearchResult, SearchType } from "../models/search-result";
+import {
+  deleteSearchHistoryEntry,
+  listSearchHistory,
+  putSearchHistoryEntry,
+} from "../utils/search-history-db";
+import { downloadFile } from "../utils/graph-export";
+
+const useSearchHistory = () => {
+  const [history, setHistory] = useState<SearchHistoryEntry[]>([]);
+
+  const refreshHistory = useCallback(async () => {
+    try {
+      setHistory(await listSearchHistory());
+    } catch (err) {
+      console.error("Error listing the search history", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshHistory();
+  }, [refreshHistory]);
+
+  const updateEntry = async (entry: SearchHistoryEntry) => {
+    try {
+      await putSearchHistoryEntry(entry);
+      await refreshHistory();
+    } catch (err) {
+      console.error(`Error saving search history entry ${entry.id}`, err);
+    }
+  };
+
+  const addEntry = (
+    query: string,
+    searchType: SearchType,
+    result: SearchResult
+  ) =>
+    updateEntry({
+      id: crypto.randomUUID(),
+      query,
+      searchType,
+      timestamp: new Date().toISOString(),
+      completion_time: result.completion_time,
+      llm_calls: result.llm_calls,
+      prompt_tokens: result.prompt_tokens,
+      starred: false,
+      result,
+    });
+
+  const renameEntry = (entry: SearchHistoryEntry, name: string) =>
+    updateEntry({ ...entry, name: name || undefined });
+
+  const toggleStar = (entry: SearchHistoryEntry) =>
+    updateEntry({ ...entry, starred: !entry.starred });
+
+  const deleteEntry = async (id: string) => {
+    try {
+      await deleteSearchHistoryEntry(id);
+      await refreshHistory();
+    } catch (err) {
+      console.error(`Error deleting search history entry ${id}`, err);
+    }
+  };
+
+  const exportHistory = () =>
+    downloadFile(
+      JSON.stringify(history, null, 2),
+      "graphrag-search-history.json",
+      "application/json"
+    );
+
+  return {
+    history,
+    addEntry,
+    renameEntry,
+    toggleStar,
+    deleteEntry,
+    exportHistory,
+  };
+};
+
+export default useSearchHistory;
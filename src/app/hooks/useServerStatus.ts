@@ -0,0 +1,38 @@
+import { useEffect, useState } from "react";
+import { SearchBackend } from "../api/search-backends";
+
+const POLL_INTERVAL_MS = 30000;
+
+// Polls the search backend's status while the page is visible, starting over
+// whenever the backend changes or a check is asked for
+const useServerStatus = (backend: SearchBackend) => {
+  const [serverUp, setServerUp] = useState(false);
+  const [lastChecked, setLastChecked] = useState<Date | null>(null);
+  const [checkRequest, setCheckRequest] = useState(0);
+
+  useEffect(() => {
+    let active = true;
+    const check = async () => {
+      if (document.hidden) return;
+      const up = await backend.checkStatus();
+      // A check still running when the backend changed is stale
+      if (!active) return;
+      setServerUp(up);
+      setLastChecked(new Date());
+    };
+    check();
+    const timer = setInterval(check, POLL_INTERVAL_MS);
+    document.addEventListener("visibilitychange", check);
+    return () => {
+      active = false;
+      clearInterval(timer);
+      document.removeEventListener("visibilitychange", check);
+    };
+  }, [backend, checkRequest]);
+
+  const checkNow = () => setCheckRequest((count) => count + 1);
+
+  return { serverUp, lastChecked, checkNow };
+};
+
+export default useServerStatus;
@@ -0,0 +1,87 @@
+import { useCallback, useEffect, useState } from "react";
+import { FileWithPath } from "react-dropzone";
+import { Workspace } from "../models/workspace";
+import { getFileSchema, GraphRAGVersion } from "../utils/graphrag-versions";
+import {
+  deleteWorkspace as deleteStoredWorkspace,
+  getWorkspaceFiles,
+  listWorkspaces,
+  renameWorkspace as renameStoredWorkspace,
+  saveWorkspace as saveStoredWorkspace,
+} from "../utils/workspace-db";
+import { getVectorStoreFileName } from "../utils/vector-store";
+
+// react-dropzone keeps the relative path of files picked from a folder
+const getWorkspaceName = (files: FileWithPath[]) => {
+  const path = files[0]?.path;
+  const folder = path?.split("/").filter(Boolean).slice(-2, -1)[0];
+  return folder || `Index ${new Date().toLocaleString()}`;
+};
+
+const useWorkspaces = () => {
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+
+  const refreshWorkspaces = useCallback(async () => {
+    try {
+      setWorkspaces(await listWorkspaces());
+    } catch (err) {
+      console.error("Error listing saved workspaces", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshWorkspaces();
+  }, [refreshWorkspaces]);
+
+  const saveWorkspace = async (files: File[], version: GraphRAGVersion) => {
+    const artifacts = files.filter((file) => getFileSchema(file.name));
+    if (artifacts.length === 0) return;
+    // Vector store files keep their table folder in the name, since that is
+    // all that identifies which table they belong to
+    const vectorStoreFiles = files.flatMap((file) => {
+      const fileName = getVectorStoreFileName(file);
+      return fileName ? [new File([file], fileName)] : [];
+    });
+    try {
+      await saveStoredWorkspace(getWorkspaceName(artifacts), version, [
+        ...artifacts,
+        ...vectorStoreFiles,
+      ]);
+      await refreshWorkspaces();
+    } catch (err) {
+      console.error("Error saving workspace", err);
+    }
+  };
+
+  // Errors are left to the caller, which reports them as load issues
+  const loadWorkspaceFiles = (id: string): Promise<File[]> =>
+    getWorkspaceFiles(id);
+
+  const renameWorkspace = async (id: string, name: string) => {
+    try {
+      await renameStoredWorkspace(id, name);
+      await refreshWorkspaces();
+    } catch (err) {
+      console.error(`Error renaming workspace ${id}`, err);
+    }
+  };
+
+  const deleteWorkspace = async (id: string) => {
+    try {
+      await deleteStoredWorkspace(id);
+      await refreshWorkspaces();
+    } catch (err) {
+      console.error(`Error deleting workspace ${id}`, err);
+    }
+  };
+
+  return {
+    workspaces,
+    saveWorkspace,
+    loadWorkspaceFiles,
+    renameWorkspace,
+    deleteWorkspace,
+  };
+};
+
+export default useWorkspaces;
@@ -4,6 +4,9 @@ export interface Community {
     id: number;
     human_readable_id: number;
     community: number;
+    // The community number one level up, -1 for top-level communities;
+    // only written by GraphRAG 1.x and later
+    parent?: number;
     level: number;
     title: string;    
     entity_ids: string[];
@@ -26,6 +29,10 @@ export const communityColumns: MRT_ColumnDef<Community>[] = [
       accessorKey: "community",
       header: "community",
     },
+    {
+      accessorKey: "parent",
+      header: "parent",
+    },
     {
       accessorKey: "level",
       header: "level",
@@ -5,6 +5,7 @@ import  {
     LinkObject,
   } from "react-force-graph-2d";
 import { Finding } from "./community-report";
+import { DiffStatus } from "./index-diff";
 
 export interface CustomNode extends NodeObject {
     uuid: string;
@@ -20,11 +21,14 @@ export interface CustomNode extends NodeObject {
     neighbors?: CustomNode[];
     links?: CustomLink[];
     text?: string;
+    text_embedding?: number[];
     n_tokens?: number;
     document_ids?: string[];
     entity_ids?: string[];
     relationship_ids?: string[];   
     level?: number;
+    community?: number;
+    degree?: number;
     raw_community?: number; 
     raw_content?: string;
     rank?: number;
@@ -41,11 +45,18 @@ export interface CustomNode extends NodeObject {
     source_text?: string;
     text_unit_id?: string;
     covariate_type?: string;
+    // The covariate's own type, since its node type is COVARIATE
+    claim_type?: string;
     isDragging?: boolean;
     fx?: number;
     fy?: number;
+    // Depth in the 3D graph
+    z?: number;
     __baseX?: number;
     __baseY?: number;
+    diff_status?: DiffStatus;
+    // Members of a collapsed community, which size its node
+    val?: number;
   }
   
 export interface CustomLink extends LinkObject {
@@ -61,6 +72,7 @@ export interface CustomLink extends LinkObject {
     source_degree?: number;
     target_degree?: number;
     rank?: number;
+    diff_status?: DiffStatus;
   }
   
 export interface CustomGraphData extends GraphData {
@@ -68,6 +80,18 @@ export interface CustomGraphData extends GraphData {
     links: CustomLink[];
   }
 
+// Node types useGraphData gives to everything that isn't an entity
+const ARTIFACT_NODE_TYPES = [
+    "RAW_DOCUMENT",
+    "CHUNK",
+    "COMMUNITY",
+    "FINDING",
+    "COVARIATE",
+];
+
+export const isEntityNode = (node: CustomNode) =>
+    !ARTIFACT_NODE_TYPES.includes(node.type);
+
 
   export const customNodeColumns: MRT_ColumnDef<CustomNode>[] = [
     {
@@ -118,6 +142,14 @@ export interface CustomGraphData extends GraphData {
       accessorKey: "level",
       header: "Level",
     },
+    {
+      accessorKey: "community",
+      header: "Community",
+    },
+    {
+      accessorKey: "degree",
+      header: "Degree",
+    },
     {
       accessorKey: "n_tokens",
       header: "Number of Tokens",
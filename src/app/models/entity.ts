@@ -7,6 +7,8 @@ export interface Entity {
     type: string;
     description: string;
     text_unit_ids: string[];        
+    description_embedding?: number[];
+    graph_embedding?: number[];
 }
 
 export const entityColumns: MRT_ColumnDef<Entity>[] = [
@@ -38,4 +40,20 @@ export const entityColumns: MRT_ColumnDef<Entity>[] = [
           ? JSON.stringify(renderedCellValue, null, 2)
           : renderedCellValue,
     },    
+    {
+      accessorKey: "description_embedding",
+      header: "description_embedding",
+      Cell: ({ renderedCellValue }) =>
+        Array.isArray(renderedCellValue)
+          ? JSON.stringify(renderedCellValue, null, 2)
+          : renderedCellValue,
+    },
+    {
+      accessorKey: "graph_embedding",
+      header: "graph_embedding",
+      Cell: ({ renderedCellValue }) =>
+        Array.isArray(renderedCellValue)
+          ? JSON.stringify(renderedCellValue, null, 2)
+          : renderedCellValue,
+    },
   ];
\ No newline at end of file
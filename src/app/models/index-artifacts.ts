@@ -0,0 +1,22 @@
+import { Entity } from "./entity";
+import { Relationship } from "./relationship";
+import { Document } from "./document";
+import { TextUnit } from "./text-unit";
+import { Community } from "./community";
+import { CommunityReport } from "./community-report";
+import { Covariate } from "./covariate";
+import { Node } from "./node";
+import { GraphRAGVersion } from "../utils/graphrag-versions";
+
+// Everything decoded from one GraphRAG output folder
+export interface IndexArtifacts {
+    entities: Entity[];
+    relationships: Relationship[];
+    documents: Document[];
+    textunits: TextUnit[];
+    communities: Community[];
+    communityReports: CommunityReport[];
+    covariates: Covariate[];
+    nodes: Node[];
+    graphragVersion: GraphRAGVersion;
+}
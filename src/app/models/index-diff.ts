@@ -0,0 +1,61 @@
+import { MRT_ColumnDef } from "material-react-table";
+
+export type DiffStatus = "added" | "removed" | "changed" | "unchanged";
+
+export type DiffChange = "description" | "weight";
+
+export interface DiffRecord {
+    kind: "entity" | "relationship" | "community";
+    key: string;
+    status: DiffStatus;
+    changes: DiffChange[];
+    description_before?: string;
+    description_after?: string;
+    weight_before?: number;
+    weight_after?: number;
+}
+
+export interface IndexDiff {
+    entities: DiffRecord[];
+    relationships: DiffRecord[];
+    communities: DiffRecord[];
+}
+
+export const diffColumns: MRT_ColumnDef<DiffRecord>[] = [
+    {
+      accessorKey: "kind",
+      header: "kind",
+    },
+    {
+      accessorKey: "key",
+      header: "key",
+    },
+    {
+      accessorKey: "status",
+      header: "status",
+    },
+    {
+      accessorKey: "changes",
+      header: "changes",
+      Cell: ({ renderedCellValue }) =>
+        Array.isArray(renderedCellValue)
+          ? renderedCellValue.join(", ")
+          : renderedCellValue,
+    },
+    {
+      accessorKey: "description_before",
+      header: "description_before",
+    },
+    {
+      accessorKey: "description_after",
+      header: "description_after",
+    },
+    {
+      accessorKey: "weight_before",
+      header: "weight_before",
+    },
+    {
+      accessorKey: "weight_after",
+      header: "weight_after",
+    },
+  ];
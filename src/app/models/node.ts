@@ -0,0 +1,47 @@
+import { MRT_ColumnDef } from "material-react-table";
+
+export interface Node {
+    id: string;
+    human_readable_id: number;
+    title: string;
+    community: number | null;
+    level: number;
+    degree: number;
+    x: number;
+    y: number;
+}
+
+export const nodeColumns: MRT_ColumnDef<Node>[] = [
+    {
+      accessorKey: "id",
+      header: "id",
+    },
+    {
+      accessorKey: "human_readable_id",
+      header: "human_readable_id",
+    },
+    {
+      accessorKey: "title",
+      header: "title",
+    },
+    {
+      accessorKey: "community",
+      header: "community",
+    },
+    {
+      accessorKey: "level",
+      header: "level",
+    },
+    {
+      accessorKey: "degree",
+      header: "degree",
+    },
+    {
+      accessorKey: "x",
+      header: "x",
+    },
+    {
+      accessorKey: "y",
+      header: "y",
+    },
+  ];
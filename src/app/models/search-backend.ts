@@ -0,0 +1,49 @@
+import { SearchResult, SearchType } from "./search-result";
+
+export type SearchBackendType = "graphrag-api" | "openai" | "rest" | "mock";
+
+// Dotted paths into the raw response body, e.g. "data.answer" or
+// "choices.0.message.content"; empty paths leave the field at its default
+export interface ResponseMapping {
+    response: string;
+    context_data: string;
+    context_text: string;
+    completion_time: string;
+    llm_calls: string;
+    prompt_tokens: string;
+}
+
+// A recorded search replayed by the mock backend
+export interface MockRecording {
+    query: string;
+    searchType: SearchType;
+    result: SearchResult;
+}
+
+export interface SearchBackendSettings {
+    type: SearchBackendType;
+    baseUrl: string;
+    localPath: string;
+    globalPath: string;
+    driftPath: string;
+    basicPath: string;
+    statusPath: string;
+    method: "GET" | "POST";
+    // Header sent with every request, e.g. Authorization: Bearer sk-...
+    authHeader: string;
+    authValue: string;
+    withCredentials: boolean;
+    // 0 waits for as long as the search takes
+    timeoutSeconds: number;
+    // Further attempts after network failures, timeouts and busy servers
+    retries: number;
+    // Ask for server-sent events or a chunked body and render it as it arrives
+    streaming: boolean;
+    // OpenAI-compatible servers pick the search method by model name
+    localModel: string;
+    globalModel: string;
+    driftModel: string;
+    basicModel: string;
+    responseMapping: ResponseMapping;
+    mockRecordings: MockRecording[];
+}
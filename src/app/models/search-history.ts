@@ -0,0 +1,15 @@
+import { SearchResult, SearchType } from "./search-result";
+
+export interface SearchHistoryEntry {
+    id: string;
+    query: string;
+    // Set when the entry is renamed; the query is shown otherwise
+    name?: string;
+    searchType: SearchType;
+    timestamp: string;
+    completion_time: number;
+    llm_calls: number;
+    prompt_tokens: number;
+    starred: boolean;
+    result: SearchResult;
+}
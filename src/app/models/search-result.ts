@@ -1,3 +1,26 @@
+export type SearchType = "local" | "global" | "drift" | "basic";
+
+// One DRIFT action: the primer query at the root, follow-up queries below it
+export interface DriftNode {
+    id: number;
+    query: string;
+    answer?: string | null;
+    score?: number | null;
+    follow_up_queries?: string[];
+    metadata?: Record<string, any>;
+}
+
+export interface DriftEdge {
+    source: number;
+    target: number;
+    weight?: number;
+}
+
+export interface DriftTree {
+    nodes: DriftNode[];
+    edges: DriftEdge[];
+}
+
 export interface SearchResult {
     // response: string | Record<string, any> | Array<Record<string, any>>;
     response: string;
@@ -9,5 +32,7 @@ export interface SearchResult {
     reduce_context_data?: string | Array<Record<string, any>> | Record<string, Array<Record<string, any>>>;
     reduce_context_text?: string | string[] | Record<string, string>;
     map_responses?: Array<SearchResult>;
+    search_type?: SearchType;
+    drift_tree?: DriftTree;
   }
   
\ No newline at end of file
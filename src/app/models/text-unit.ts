@@ -8,6 +8,7 @@ export interface TextUnit {
     document_ids: string[];
     entity_ids: string[];
     relationship_ids: string[];    
+    text_embedding?: number[];
 }
 
 export const textUnitColumns: MRT_ColumnDef<TextUnit>[] = [
@@ -47,4 +48,12 @@ export const textUnitColumns: MRT_ColumnDef<TextUnit>[] = [
           ? JSON.stringify(renderedCellValue, null, 2)
           : renderedCellValue,
     },
+    {
+      accessorKey: "text_embedding",
+      header: "text_embedding",
+      Cell: ({ renderedCellValue }) =>
+        Array.isArray(renderedCellValue)
+          ? JSON.stringify(renderedCellValue, null, 2)
+          : renderedCellValue,
+    },
   ];
\ No newline at end of file
@@ -0,0 +1,14 @@
+import { GraphRAGVersion } from "../utils/graphrag-versions";
+
+export interface WorkspaceFile {
+    name: string;
+    size: number;
+}
+
+export interface Workspace {
+    id: string;
+    name: string;
+    loadedAt: string;
+    graphragVersion: GraphRAGVersion;
+    files: WorkspaceFile[];
+}
@@ -0,0 +1,96 @@
+import { CustomLink, CustomNode } from "../models/custom-graph-data";
+import {
+  findCitedGraphElement,
+  getCitationLabel,
+  linkCitations,
+  parseCitationHref,
+} from "./citations";
+
+describe("linkCitations", () => {
+  it("links each cited id of the known tables", () => {
+    expect(
+      linkCitations(
+        "Alice leads the team [Data: Reports (12, 7); Entities (45, +more)]."
+      )
+    ).toBe(
+      "Alice leads the team [Report 12](#citation/reports/12) [Report 7](#citation/reports/7) [Entity 45](#citation/entities/45) +more."
+    );
+  });
+
+  it("keeps unknown tables and unusual ids as text", () => {
+    expect(
+      linkCitations("[Data: Claims (3); Documents (1); Sources (a b)]")
+    ).toBe("[Claim 3](#citation/claims/3) Documents (1) a b");
+  });
+
+  it("leaves markers without groups alone", () => {
+    expect(linkCitations("See [Data: none].")).toBe("See [Data: none].");
+  });
+});
+
+describe("parseCitationHref", () => {
+  it("reads back the citations linkCitations writes", () => {
+    expect(parseCitationHref("#citation/relationships/8")).toEqual({
+      kind: "relationships",
+      id: "8",
+    });
+    expect(getCitationLabel({ kind: "relationships", id: "8" })).toBe(
+      "Relationship 8"
+    );
+  });
+
+  it("ignores other links", () => {
+    expect(parseCitationHref("https://example.com")).toBeNull();
+    expect(parseCitationHref("#citation/documents/1")).toBeNull();
+    expect(parseCitationHref("#citation/entities")).toBeNull();
+    expect(parseCitationHref(undefined)).toBeNull();
+  });
+});
+
+describe("findCitedGraphElement", () => {
+  const nodes: CustomNode[] = [
+    { id: "ALICE", uuid: "e-1", name: "ALICE", type: "PERSON" },
+    {
+      id: "9b1c-community",
+      uuid: "9b1c-community",
+      name: "Community 11",
+      type: "COMMUNITY",
+      community: 11,
+    },
+    {
+      id: "c-1",
+      uuid: "c-1",
+      name: "c-1",
+      type: "CHUNK",
+      human_readable_id: 3,
+      text: "Alice leads the team.",
+    },
+  ];
+  const links = [
+    { source: "ALICE", target: "BOB", type: "RELATED", human_readable_id: 8 },
+  ] as CustomLink[];
+  const graph = { nodes, links };
+
+  it("resolves reports by community number, not the community id", () => {
+    expect(findCitedGraphElement({ kind: "reports", id: "11" }, graph)).toBe(
+      nodes[1]
+    );
+    expect(
+      findCitedGraphElement({ kind: "reports", id: "9b1c-community" }, graph)
+    ).toBeUndefined();
+  });
+
+  it("matches sources by text when the context holds them", () => {
+    expect(
+      findCitedGraphElement({ kind: "sources", id: "0" }, graph, [
+        { id: "0", text: "Alice leads the team." },
+      ])
+    ).toBe(nodes[2]);
+    expect(findCitedGraphElement({ kind: "sources", id: "3" }, graph)).toBe(
+      nodes[2]
+    );
+    expect(
+      findCitedGraphElement({ kind: "relationships", id: "8" }, graph)
+    ).toBe(links[0]);
+  });
+});
@@ -0,0 +1,112 @@
+import {
+  CustomGraphData,
+  CustomLink,
+  CustomNode,
+  isEntityNode,
+} from "../models/custom-graph-data";
+
+export type CitationKind =
+  "entities" | "relationships" | "reports" | "sources" | "claims";
+
+export interface Citation {
+  kind: CitationKind;
+  // The id column of the cited context table row
+  id: string;
+}
+
+const citationLabels: Record<CitationKind, string> = {
+  entities: "Entity",
+  relationships: "Relationship",
+  reports: "Report",
+  sources: "Source",
+  claims: "Claim",
+};
+
+// GraphRAG prompts ask for markers like
+// "[Data: Reports (12, 7); Entities (45, 46, +more)]"
+const MARKER_PATTERN = /\[Data:\s*([^\]]*)\]/g;
+const GROUP_PATTERN = /([A-Za-z]+)\s*\(([^)]*)\)/g;
+
+const CITATION_HREF = "#citation/";
+
+const toCitationKind = (name: string) => {
+  const kind = name.toLowerCase();
+  return kind in citationLabels ? (kind as CitationKind) : null;
+};
+
+export const getCitationLabel = ({ kind, id }: Citation) =>
+  `${citationLabels[kind]} ${id}`;
+
+// Rewrites each marker as Markdown links to "#citation/<kind>/<id>", which
+// the answer renderer shows as chips; "+more" and unknown tables stay text
+export const linkCitations = (markdown: string) =>
+  markdown.replace(MARKER_PATTERN, (marker, body: string) => {
+    const parts: string[] = [];
+    Array.from(body.matchAll(GROUP_PATTERN)).forEach(([group, name, ids]) => {
+      const kind = toCitationKind(name);
+      if (!kind) {
+        parts.push(group);
+        return;
+      }
+      ids
+        .split(",")
+        .map((id) => id.trim())
+        .filter(Boolean)
+        .forEach((id) =>
+          parts.push(
+            /^[\w-]+$/.test(id)
+              ? `[${getCitationLabel({ kind, id })}](${CITATION_HREF}${kind}/${id})`
+              : id
+          )
+        );
+    });
+    return parts.length > 0 ? parts.join(" ") : marker;
+  });
+
+export const parseCitationHref = (href?: string): Citation | null => {
+  if (!href?.startsWith(CITATION_HREF)) return null;
+  const [name, id] = href.slice(CITATION_HREF.length).split("/");
+  const kind = toCitationKind(name ?? "");
+  return kind && id ? { kind, id } : null;
+};
+
+// Whether the node is the COMMUNITY node of the community with this number,
+// which is how reports refer to their community
+export const isCommunityNode = (node: CustomNode, communityNumber: string) =>
+  node.type === "COMMUNITY" && node.community?.toString() === communityNumber;
+
+// Finds the node or link a citation in an answer refers to, by the same ids
+// context rows are matched on. Sources are matched by their text when the
+// search context holds the cited row, since chunk ids differ between tables.
+export const findCitedGraphElement = (
+  { kind, id }: Citation,
+  { nodes, links }: CustomGraphData,
+  sources?: Record<string, any>[]
+): CustomNode | CustomLink | undefined => {
+  switch (kind) {
+    case "relationships":
+      return links.find((link) => link.human_readable_id?.toString() === id);
+    case "entities":
+      return nodes.find(
+        (node) =>
+          node.human_readable_id?.toString() === id && isEntityNode(node)
+      );
+    case "claims":
+      return nodes.find(
+        (node) =>
+          node.human_readable_id?.toString() === id && node.type === "COVARIATE"
+      );
+    case "reports":
+      return nodes.find((node) => isCommunityNode(node, id));
+    case "sources": {
+      const source = sources?.find((row) => row.id?.toString() === id);
+      return nodes.find(
+        (node) =>
+          node.type === "CHUNK" &&
+          (source
+            ? node.text === source.text
+            : node.human_readable_id?.toString() === id)
+      );
+    }
+  }
+};
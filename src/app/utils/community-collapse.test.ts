@@ -0,0 +1,99 @@
+import { CustomLink, CustomNode } from "../models/custom-graph-data";
+import { collapseCommunities } from "./community-collapse";
+import { CommunityHierarchyNode } from "./community-hierarchy";
+
+const node = (id: string, type = "PERSON"): CustomNode => ({
+  id,
+  uuid: `uuid-${id}`,
+  name: id,
+  type,
+});
+
+const link = (
+  source: string | CustomNode,
+  target: string,
+  weight?: number,
+  type = "RELATED"
+): CustomLink => ({ source, target, type, weight }) as CustomLink;
+
+const community = (
+  id: string,
+  entityIds: string[]
+): CommunityHierarchyNode => ({
+  id,
+  community: 0,
+  title: id,
+  level: 0,
+  size: entityIds.length,
+  rank: null,
+  entityIds,
+  relationshipIds: [],
+  children: [],
+});
+
+const nodes = [
+  { ...node("c1", "COMMUNITY"), uuid: "c1" },
+  node("a"),
+  node("b"),
+  node("c"),
+  node("d"),
+];
+const communities = [community("c1", ["uuid-a", "uuid-b", "uuid-c"])];
+
+describe("collapseCommunities", () => {
+  it("hides members behind their community and merges their links", () => {
+    const links = [
+      link("a", "b"),
+      link(nodes[1], "d", 2),
+      link("d", "b", 3),
+      link("c", "d", undefined, "KNOWS"),
+    ];
+    const collapsed = collapseCommunities(nodes, links, communities, new Set());
+
+    expect(collapsed.nodes.map(({ id }) => id)).toEqual(["c1", "d"]);
+    expect(collapsed.memberCounts).toEqual(new Map([["c1", 3]]));
+    expect(collapsed.links).toEqual([
+      {
+        id: "collapsed-c1|d|RELATED",
+        source: "c1",
+        target: "d",
+        type: "RELATED",
+        weight: 5,
+        description: "2 relationships",
+      },
+      {
+        id: "collapsed-c1|d|KNOWS",
+        source: "c1",
+        target: "d",
+        type: "KNOWS",
+        weight: 1,
+        description: "1 relationship",
+      },
+    ]);
+  });
+
+  it("leaves expanded communities and unrelated links as they are", () => {
+    const links = [link("a", "d"), link("c1", "d")];
+    const collapsed = collapseCommunities(
+      nodes,
+      links,
+      communities,
+      new Set(["c1"])
+    );
+
+    expect(collapsed.nodes).toEqual(nodes);
+    expect(collapsed.links).toEqual(links);
+    expect(collapsed.memberCounts.size).toBe(0);
+  });
+
+  it("ignores communities whose node isn't shown", () => {
+    const collapsed = collapseCommunities(
+      nodes.slice(1),
+      [],
+      communities,
+      new Set()
+    );
+
+    expect(collapsed.nodes).toHaveLength(4);
+  });
+});
@@ -0,0 +1,84 @@
+import { CustomLink, CustomNode } from "../models/custom-graph-data";
+import { CommunityHierarchyNode } from "./community-hierarchy";
+
+export interface CollapsedGraph {
+  nodes: CustomNode[];
+  links: CustomLink[];
+  // How many nodes each collapsed COMMUNITY node stands in for, by node id
+  memberCounts: Map<string, number>;
+}
+
+// The simulation replaces link ends with the nodes themselves
+const endpointId = (end: string | CustomNode) =>
+  typeof end === "object" ? (end as CustomNode).id : end;
+
+// Hides the entities of each shown community that isn't expanded behind its
+// COMMUNITY node. Their links are moved to that node, and links that end up
+// joining the same two nodes are merged, adding up their weights.
+export const collapseCommunities = (
+  nodes: CustomNode[],
+  links: CustomLink[],
+  communities: CommunityHierarchyNode[],
+  expanded: Set<string>
+): CollapsedGraph => {
+  const nodeIds = new Set(nodes.map((node) => node.id));
+  const ownerByUuid = new Map<string, string>();
+  communities
+    .filter(({ id }) => nodeIds.has(id) && !expanded.has(id))
+    .forEach(({ id, entityIds }) =>
+      entityIds.forEach((entityId) => ownerByUuid.set(entityId, id))
+    );
+
+  const memberCounts = new Map<string, number>();
+  const ownerById = new Map<string, string>();
+  const shownNodes = nodes.filter((node) => {
+    const owner =
+      node.type === "COMMUNITY" ? undefined : ownerByUuid.get(node.uuid);
+    if (!owner) return true;
+    ownerById.set(node.id, owner);
+    memberCounts.set(owner, (memberCounts.get(owner) ?? 0) + 1);
+    return false;
+  });
+
+  const shownLinks: CustomLink[] = [];
+  const mergedLinks = new Map<string, CustomLink & { count: number }>();
+  links.forEach((link) => {
+    const sourceId = endpointId(link.source);
+    const targetId = endpointId(link.target);
+    const source = ownerById.get(sourceId);
+    const target = ownerById.get(targetId);
+    if (!source && !target) {
+      shownLinks.push(link);
+      return;
+    }
+    // Links inside a community disappear with it
+    if ((source ?? sourceId) === (target ?? targetId)) return;
+
+    // The ends are sorted so links both ways between two nodes are merged
+    const [from, to] = [source ?? sourceId, target ?? targetId].sort();
+    const key = `${from}|${to}|${link.type}`;
+    const merged = mergedLinks.get(key);
+    if (merged) {
+      merged.weight = (merged.weight ?? 0) + (link.weight ?? 1);
+      merged.count += 1;
+    } else {
+      mergedLinks.set(key, {
+        id: `collapsed-${key}`,
+        source: from,
+        target: to,
+        type: link.type,
+        weight: link.weight ?? 1,
+        count: 1,
+      });
+    }
+  });
+
+  mergedLinks.forEach(({ count, ...link }) =>
+    shownLinks.push({
+      ...link,
+      description: `${count} relationship${count === 1 ? "" : "s"}`,
+    })
+  );
+
+  return { nodes: shownNodes, links: shownLinks, memberCounts };
+};
@@ -0,0 +1,168 @@
+import { Community } from "../models/community";
+import { CommunityReport } from "../models/community-report";
+import { Entity } from "../models/entity";
+import { IndexArtifacts } from "../models/index-artifacts";
+import { Relationship } from "../models/relationship";
+import {
+  buildCommunityHierarchy,
+  CommunityHierarchyNode,
+  getCommunitiesAtLevel,
+  getCommunityLevels,
+  getCommunityMemberIds,
+  getCommunityPath,
+  getOwnSize,
+} from "./community-hierarchy";
+
+const community = (
+  number: number,
+  level: number,
+  entityIds: string[],
+  parts: Partial<Community> = {}
+): Community =>
+  ({
+    id: `uuid-${number}` as unknown as number,
+    community: number,
+    level,
+    title: `Community ${number}`,
+    entity_ids: entityIds,
+    relationship_ids: [],
+    size: entityIds.length,
+    ...parts,
+  }) as Community;
+
+const artifacts = (parts: Partial<IndexArtifacts>): IndexArtifacts => ({
+  entities: [],
+  relationships: [],
+  documents: [],
+  textunits: [],
+  communities: [],
+  communityReports: [],
+  covariates: [],
+  nodes: [],
+  graphragVersion: "2.x",
+  ...parts,
+});
+
+const shape = (node: CommunityHierarchyNode): unknown => [
+  node.community,
+  node.children.map(shape),
+];
+
+describe("buildCommunityHierarchy", () => {
+  it("nests communities under the parent column", () => {
+    const root = buildCommunityHierarchy(
+      artifacts({
+        communities: [
+          community(0, 0, ["a", "b", "c"], { parent: -1 }),
+          community(1, 0, ["d"], { parent: -1 }),
+          community(2, 1, ["a", "b"], { parent: 0 }),
+          community(3, 1, ["c"], { parent: 0 }),
+        ],
+      })
+    );
+
+    expect(shape(root)).toEqual([
+      -1,
+      [
+        [
+          0,
+          [
+            [2, []],
+            [3, []],
+          ],
+        ],
+        [1, []],
+      ],
+    ]);
+    expect(root.size).toBe(4);
+    expect(root.entityIds.sort()).toEqual(["a", "b", "c", "d"]);
+  });
+
+  it("infers parents from shared entities without a parent column", () => {
+    const root = buildCommunityHierarchy(
+      artifacts({
+        communities: [
+          community(0, 0, ["a", "b"]),
+          community(1, 0, ["c", "d", "e"]),
+          community(2, 1, ["c", "d"]),
+          // Mostly in community 1
+          community(3, 1, ["b", "d", "e"]),
+          community(4, 2, ["d"]),
+          // Shares nothing with the level above
+          community(5, 1, ["x"]),
+        ],
+      })
+    );
+
+    expect(shape(root)).toEqual([
+      -1,
+      [
+        [0, []],
+        [
+          1,
+          [
+            [2, [[4, []]]],
+            [3, []],
+          ],
+        ],
+        [5, []],
+      ],
+    ]);
+  });
+
+  it("takes entities from relationships when communities don't list them", () => {
+    const root = buildCommunityHierarchy(
+      artifacts({
+        entities: [
+          { id: "e1", title: "ALICE" },
+          { id: "e2", title: "BOB" },
+          { id: "e3", title: "CAROL" },
+        ] as Entity[],
+        relationships: [
+          { id: "r1", source: "ALICE", target: "BOB" },
+          { id: "r2", source: "BOB", target: "CAROL" },
+        ] as Relationship[],
+        communities: [
+          community(0, 0, [], { relationship_ids: ["r1"], size: undefined }),
+        ],
+        communityReports: [
+          { community: 0, title: "Report", rank: 7.5 },
+        ] as CommunityReport[],
+      })
+    );
+
+    expect(root.children[0]).toMatchObject({
+      id: "uuid-0",
+      entityIds: ["e1", "e2"],
+      size: 2,
+      rank: 7.5,
+    });
+  });
+});
+
+describe("hierarchy queries", () => {
+  const root = buildCommunityHierarchy(
+    artifacts({
+      communities: [
+        community(0, 0, ["a", "b", "c"], { parent: -1 }),
+        community(2, 1, ["a", "b"], { parent: 0 }),
+      ],
+    })
+  );
+  const [top] = root.children;
+  const [nested] = top.children;
+
+  it("gives each community the size its children don't cover", () => {
+    expect(getOwnSize(top)).toBe(1);
+    expect(getOwnSize(nested)).toBe(2);
+  });
+
+  it("lists members, levels and paths", () => {
+    expect(getCommunityMemberIds(top)).toEqual(
+      new Set(["a", "b", "c", "uuid-0", "uuid-2"])
+    );
+    expect(getCommunityLevels(root)).toEqual([0, 1]);
+    expect(getCommunitiesAtLevel(root, 1)).toEqual([nested]);
+    expect(getCommunityPath(root, nested)).toEqual([root, top, nested]);
+  });
+});
@@ -0,0 +1,191 @@
+import { Community } from "../models/community";
+import { IndexArtifacts } from "../models/index-artifacts";
+
+export interface CommunityHierarchyNode {
+  // The community row id, which the graph's COMMUNITY nodes use as uuid;
+  // empty for the root that holds the top-level communities
+  id: string;
+  community: number;
+  title: string;
+  level: number;
+  size: number;
+  rank: number | null;
+  entityIds: string[];
+  relationshipIds: string[];
+  children: CommunityHierarchyNode[];
+}
+
+const ROOT_COMMUNITY = -1;
+
+// Before GraphRAG 1.x communities don't name their parent. Leiden nests each
+// community inside one of the level above, so the parent is the community
+// there holding its entities, or failing that the one sharing the most.
+const inferParent = (
+  node: CommunityHierarchyNode,
+  communitiesByEntity: Map<string, CommunityHierarchyNode[]>
+) => {
+  const overlaps = new Map<CommunityHierarchyNode, number>();
+  node.entityIds.forEach((entityId) =>
+    communitiesByEntity.get(entityId)?.forEach((candidate) => {
+      if (candidate.level === node.level - 1) {
+        overlaps.set(candidate, (overlaps.get(candidate) ?? 0) + 1);
+      }
+    })
+  );
+  let best: CommunityHierarchyNode | undefined;
+  let bestOverlap = 0;
+  overlaps.forEach((overlap, candidate) => {
+    if (overlap > bestOverlap) {
+      best = candidate;
+      bestOverlap = overlap;
+    }
+  });
+  return best;
+};
+
+// Older communities may only list their relationships; their entities are
+// then the ends of those relationships
+const createEntityIdsGetter = ({ entities, relationships }: IndexArtifacts) => {
+  let relationshipEnds: Map<string, string[]> | undefined;
+  let entityIdsByTitle: Map<string, string> | undefined;
+  return (community: Community) => {
+    if ((community.entity_ids ?? []).length > 0) return community.entity_ids;
+    relationshipEnds ??= new Map(
+      relationships.map((relationship) => [
+        relationship.id,
+        [relationship.source, relationship.target],
+      ])
+    );
+    entityIdsByTitle ??= new Map(
+      entities.map((entity) => [entity.title, entity.id])
+    );
+    const ids = new Set<string>();
+    (community.relationship_ids ?? []).forEach((relationshipId) =>
+      relationshipEnds!.get(relationshipId)?.forEach((title) => {
+        const entityId = entityIdsByTitle!.get(title);
+        if (entityId !== undefined) ids.add(entityId);
+      })
+    );
+    return Array.from(ids);
+  };
+};
+
+// Rebuilds the tree of communities across levels, under a root holding the
+// top-level ones
+export const buildCommunityHierarchy = (
+  artifacts: IndexArtifacts
+): CommunityHierarchyNode => {
+  const { communities, communityReports } = artifacts;
+  const reports = new Map(
+    communityReports.map((report) => [report.community, report])
+  );
+  const getEntityIds = createEntityIdsGetter(artifacts);
+  const nodes = new Map<number, CommunityHierarchyNode>();
+  communities.forEach((community) => {
+    const report = reports.get(community.community);
+    const entityIds = getEntityIds(community);
+    nodes.set(community.community, {
+      id: community.id.toString(),
+      community: community.community,
+      title:
+        community.title || report?.title || `Community ${community.community}`,
+      level: community.level,
+      size: community.size ?? report?.size ?? entityIds.length,
+      rank: report?.rank ?? null,
+      entityIds,
+      relationshipIds: community.relationship_ids ?? [],
+      children: [],
+    });
+  });
+
+  const root: CommunityHierarchyNode = {
+    id: "",
+    community: ROOT_COMMUNITY,
+    title: "All Communities",
+    level: -1,
+    size: 0,
+    rank: null,
+    entityIds: [],
+    relationshipIds: [],
+    children: [],
+  };
+
+  const hasParentColumn = communities.some(
+    (community) => community.parent !== undefined && community.parent !== null
+  );
+  // The communities each entity belongs to, across levels
+  const communitiesByEntity = new Map<string, CommunityHierarchyNode[]>();
+  if (!hasParentColumn) {
+    nodes.forEach((node) =>
+      node.entityIds.forEach((entityId) => {
+        const entityCommunities = communitiesByEntity.get(entityId);
+        if (entityCommunities) entityCommunities.push(node);
+        else communitiesByEntity.set(entityId, [node]);
+      })
+    );
+  }
+
+  communities.forEach((community) => {
+    const node = nodes.get(community.community)!;
+    const parentCommunity = hasParentColumn
+      ? community.parent
+      : inferParent(node, communitiesByEntity)?.community;
+    const parent =
+      parentCommunity !== undefined && parentCommunity !== community.community
+        ? nodes.get(parentCommunity)
+        : undefined;
+    (parent ?? root).children.push(node);
+  });
+
+  root.size = root.children.reduce((total, child) => total + child.size, 0);
+  root.entityIds = Array.from(
+    new Set(root.children.flatMap((child) => child.entityIds))
+  );
+  return root;
+};
+
+// A community's own share of its size, so that summing a subtree gives the
+// community's size: children hold a subset of their parent's entities
+export const getOwnSize = (node: CommunityHierarchyNode) =>
+  Math.max(
+    0,
+    node.size - node.children.reduce((total, child) => total + child.size, 0)
+  );
+
+const getDescendants = (
+  node: CommunityHierarchyNode
+): CommunityHierarchyNode[] => [node, ...node.children.flatMap(getDescendants)];
+
+// The uuids of the graph nodes that belong to a community: its entities and
+// the COMMUNITY nodes of it and the communities nested in it
+export const getCommunityMemberIds = (node: CommunityHierarchyNode) =>
+  new Set([
+    ...node.entityIds,
+    ...getDescendants(node)
+      .map((descendant) => descendant.id)
+      .filter(Boolean),
+  ]);
+
+// The levels communities were detected at, from the top-level one down
+export const getCommunityLevels = (root: CommunityHierarchyNode) =>
+  Array.from(new Set(getDescendants(root).map((node) => node.level)))
+    .filter((level) => level >= 0)
+    .sort((a, b) => a - b);
+
+export const getCommunitiesAtLevel = (
+  root: CommunityHierarchyNode,
+  level: number
+) => getDescendants(root).filter((node) => node.level === level);
+
+// Path from the root down to the community, for breadcrumbs
+export const getCommunityPath = (
+  root: CommunityHierarchyNode,
+  target: CommunityHierarchyNode
+): CommunityHierarchyNode[] | null => {
+  if (root === target) return [root];
+  for (const child of root.children) {
+    const path = getCommunityPath(child, target);
+    if (path) return [root, ...path];
+  }
+  return null;
+};
@@ -0,0 +1,183 @@
+import { SearchResult } from "../models/search-result";
+import { getContextText } from "./search-results";
+
+// Why a map point didn't reach the reduce prompt: GraphRAG drops points
+// scored 0, then adds the rest by score until the reduce token budget is spent
+export type PointOutcome = "reduced" | "zero-score" | "over-budget" | "unknown";
+
+export interface MapPoint {
+  answer: string;
+  score: number | null;
+  outcome: PointOutcome;
+}
+
+export interface MapResponseInspection {
+  // The "Analyst" number the reduce prompt refers to this response by
+  analyst: number;
+  points: MapPoint[];
+  // Ids of the community reports in the batch the map call was given
+  reportIds: string[];
+  contextText: string;
+  completion_time?: number;
+  llm_calls?: number;
+  prompt_tokens?: number;
+}
+
+export interface GlobalSearchInspection {
+  mapResponses: MapResponseInspection[];
+  reduceContextText: string;
+  pointCount: number;
+  reducedCount: number;
+}
+
+interface ReducedPoint {
+  analyst: number;
+  score: number;
+  answer: string;
+}
+
+const ANALYST_PATTERN =
+  /^----Analyst (\d+)----\nImportance Score: (-?[\d.]+)\n/gm;
+
+const toScore = (value: unknown) => {
+  const score = Number(value);
+  return value !== null && value !== "" && Number.isFinite(score)
+    ? score
+    : null;
+};
+
+const toPoint = (value: any) =>
+  typeof value === "string"
+    ? { answer: value, score: null }
+    : {
+        answer: String(value?.answer ?? value?.description ?? ""),
+        score: toScore(value?.score),
+      };
+
+// Map answers arrive parsed as [{answer, score}], as the raw
+// {"points": [{description, score}]} the LLM wrote, or as plain text
+const parsePoints = (
+  response: unknown
+): { answer: string; score: number | null }[] => {
+  if (typeof response === "string") {
+    let parsed: unknown = null;
+    try {
+      parsed = JSON.parse(response);
+    } catch {
+      // Not JSON, so the whole answer is one point
+    }
+    if (parsed && typeof parsed === "object") return parsePoints(parsed);
+    return response.trim() ? [toPoint(response)] : [];
+  }
+  if (Array.isArray(response)) return response.map(toPoint);
+  if (Array.isArray((response as any)?.points)) {
+    return (response as any).points.map(toPoint);
+  }
+  return [];
+};
+
+// The first column of each row of the "-----Reports-----" table is the
+// report id
+const parseReportTableIds = (text: string) => {
+  const ids: string[] = [];
+  let inReports = false;
+  let header = true;
+  text.split("\n").forEach((line) => {
+    const section = line.match(/^-----(.+)-----$/);
+    if (section) {
+      inReports = section[1].trim().toLowerCase() === "reports";
+      header = true;
+      return;
+    }
+    if (!inReports || !line.trim()) return;
+    if (header) {
+      header = false;
+      return;
+    }
+    // Skip the continuation lines of multi-line report content
+    const id = line.split("|")[0].trim();
+    if (line.includes("|") && /^[\w-]+$/.test(id)) ids.push(id);
+  });
+  return ids;
+};
+
+const getReportIds = (contextData: SearchResult["context_data"]) => {
+  if (typeof contextData === "string") return parseReportTableIds(contextData);
+  const rows = Array.isArray(contextData)
+    ? contextData
+    : (contextData?.reports ?? []);
+  return rows
+    .map((row) => row?.id ?? row?.short_id ?? row?.community)
+    .filter((id) => id !== undefined && id !== null)
+    .map(String);
+};
+
+const parseReducedPoints = (text: string): ReducedPoint[] => {
+  const matches = Array.from(text.matchAll(ANALYST_PATTERN));
+  return matches.map((match, index) => {
+    const start = match.index! + match[0].length;
+    const end = matches[index + 1]?.index ?? text.length;
+    return {
+      analyst: Number(match[1]),
+      score: Number(match[2]),
+      answer: text.slice(start, end).trim(),
+    };
+  });
+};
+
+const getOutcome = (
+  analyst: number,
+  { answer, score }: { answer: string; score: number | null },
+  reduced: ReducedPoint[] | null
+): PointOutcome => {
+  if (score !== null && score <= 0) return "zero-score";
+  if (!reduced) return "unknown";
+  const index = reduced.findIndex(
+    (point) => point.analyst === analyst && point.answer === answer.trim()
+  );
+  if (index < 0) return "over-budget";
+  // Each reduced point matches one map point only
+  reduced.splice(index, 1);
+  return "reduced";
+};
+
+// Lines up what the map step of a global search produced with what made it
+// into the reduce prompt
+export const inspectGlobalSearch = (
+  result: SearchResult
+): GlobalSearchInspection | null => {
+  if (!result.map_responses?.length) return null;
+
+  const reduceContextText = result.reduce_context_text
+    ? getContextText(result.reduce_context_text)
+    : "";
+  const reduced = reduceContextText
+    ? parseReducedPoints(reduceContextText)
+    : null;
+
+  const mapResponses = result.map_responses.map((mapResponse, index) => {
+    const analyst = index + 1;
+    return {
+      analyst,
+      points: parsePoints(mapResponse.response).map((point) => ({
+        ...point,
+        outcome: getOutcome(analyst, point, reduced),
+      })),
+      reportIds: getReportIds(mapResponse.context_data),
+      contextText: mapResponse.context_text
+        ? getContextText(mapResponse.context_text)
+        : "",
+      completion_time: mapResponse.completion_time,
+      llm_calls: mapResponse.llm_calls,
+      prompt_tokens: mapResponse.prompt_tokens,
+    };
+  });
+
+  const points = mapResponses.flatMap(({ points }) => points);
+  return {
+    mapResponses,
+    reduceContextText,
+    pointCount: points.length,
+    reducedCount: points.filter(({ outcome }) => outcome === "reduced").length,
+  };
+};
@@ -0,0 +1,106 @@
+import { CustomGraphData, CustomNode } from "../models/custom-graph-data";
+import { toCypher, toGEXF, toGraphML, toNodeLinkJSON } from "./graph-export";
+
+const alice: CustomNode = {
+  id: "Alice & <Bob>",
+  uuid: "1",
+  name: "Alice & <Bob>",
+  type: "PERSON",
+  description: `She said "it's fine"\nthen left`,
+  text_unit_ids: ["t1", "t2"],
+  degree: 1,
+};
+const carol: CustomNode = {
+  id: "CAROL",
+  uuid: "2",
+  name: "CAROL",
+  type: "ORG`X",
+  description: "back\\slash",
+};
+
+const graph = (): CustomGraphData => ({
+  nodes: [{ ...alice, neighbors: [carol], x: 1, y: 2 } as CustomNode, carol],
+  links: [
+    {
+      source: { ...alice } as CustomNode,
+      target: carol.id,
+      type: "KNOWS",
+      weight: 2,
+      description: undefined,
+    } as any,
+  ],
+});
+
+describe("toGraphML", () => {
+  it("escapes XML and resolves link ends to node ids", () => {
+    const xml = toGraphML(graph());
+
+    expect(xml).toContain(`<node id="Alice &amp; &lt;Bob&gt;">`);
+    expect(xml).toContain(
+      `<data key="n_description">She said &quot;it&apos;s fine&quot;\nthen left</data>`
+    );
+    expect(xml).toContain(
+      `<edge id="e0" source="Alice &amp; &lt;Bob&gt;" target="CAROL">`
+    );
+    expect(xml).toContain(
+      `<data key="n_text_unit_ids">[&quot;t1&quot;,&quot;t2&quot;]</data>`
+    );
+    expect(xml).toContain(
+      `<key id="n_degree" for="node" attr.name="degree" attr.type="double"/>`
+    );
+    expect(xml).not.toContain("neighbors");
+  });
+});
+
+describe("toGEXF", () => {
+  it("labels nodes by name and weighs edges", () => {
+    const xml = toGEXF(graph());
+
+    expect(xml).toContain(
+      `<node id="Alice &amp; &lt;Bob&gt;" label="Alice &amp; &lt;Bob&gt;">`
+    );
+    expect(xml).toContain(
+      `<edge id="0" source="Alice &amp; &lt;Bob&gt;" target="CAROL" weight="2">`
+    );
+  });
+});
+
+describe("toCypher", () => {
+  it("escapes strings and identifiers", () => {
+    const cypher = toCypher(graph(), "CREATE");
+
+    expect(cypher).toContain(
+      `CREATE (:Node:\`PERSON\` {\`id\`: 'Alice & <Bob>', \`uuid\`: '1', \`name\`: 'Alice & <Bob>', \`type\`: 'PERSON', \`description\`: 'She said "it\\'s fine"\\nthen left', \`text_unit_ids\`: ['t1', 't2'], \`degree\`: 1, \`x\`: 1, \`y\`: 2});`
+    );
+    expect(cypher).toContain(":Node:`ORG``X`");
+    expect(cypher).toContain(`'back\\\\slash'`);
+    expect(cypher).toContain(
+      "MATCH (a:Node {id: 'Alice & <Bob>'}), (b:Node {id: 'CAROL'}) CREATE (a)-[:`KNOWS` {`type`: 'KNOWS', `weight`: 2}]->(b);"
+    );
+  });
+
+  it("writes missing values as null and merges links without ids", () => {
+    const data = graph();
+    data.nodes[1].level = null as any;
+    const cypher = toCypher(data, "MERGE");
+
+    expect(cypher).toContain("`level`: null");
+    expect(cypher).toContain(
+      "MERGE (a)-[r:`KNOWS`]->(b) SET r += {`type`: 'KNOWS', `weight`: 2};"
+    );
+  });
+});
+
+describe("toNodeLinkJSON", () => {
+  it("drops render state from nodes and links", () => {
+    const json = JSON.parse(toNodeLinkJSON(graph()));
+
+    expect(json.nodes[0]).not.toHaveProperty("neighbors");
+    expect(json.links[0]).toEqual({
+      source: "Alice & <Bob>",
+      target: "CAROL",
+      type: "KNOWS",
+      weight: 2,
+    });
+  });
+});
@@ -0,0 +1,332 @@
+import {
+  CustomGraphData,
+  CustomLink,
+  CustomNode,
+} from "../models/custom-graph-data";
+
+export type ExportFormat =
+  "graphml" | "gexf" | "cypher-create" | "cypher-merge" | "json";
+
+type Attributes = { [key: string]: unknown };
+
+// Render state and object references added by react-force-graph and GraphViewer
+const INTERNAL_KEYS = new Set([
+  "neighbors",
+  "links",
+  "index",
+  "vx",
+  "vy",
+  "vz",
+  "fx",
+  "fy",
+  "fz",
+  "isDragging",
+  "__threeObj",
+  "__lineObj",
+  "__arrowObj",
+  "__curve",
+  "__indexColor",
+  "__photons",
+  "__controlPoints",
+]);
+
+const linkEndId = (end: string | CustomNode) =>
+  typeof end === "object" ? (end as CustomNode).id : end;
+
+const nodeAttributes = (node: CustomNode): Attributes =>
+  Object.fromEntries(
+    Object.entries(node).filter(
+      ([key, value]) =>
+        value !== undefined && !INTERNAL_KEYS.has(key) && !key.startsWith("__")
+    )
+  );
+
+const linkAttributes = (link: CustomLink): Attributes => ({
+  ...Object.fromEntries(
+    Object.entries(link).filter(
+      ([key, value]) =>
+        value !== undefined && !INTERNAL_KEYS.has(key) && !key.startsWith("__")
+    )
+  ),
+  source: linkEndId(link.source),
+  target: linkEndId(link.target),
+});
+
+export const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+
+// Lists and nested objects are flattened to JSON strings in XML formats
+const toXmlValue = (value: unknown) =>
+  escapeXml(typeof value === "object" ? JSON.stringify(value) : String(value));
+
+type AttributeType = "string" | "double" | "boolean";
+
+// Declare each attribute once, typed by the values it actually holds
+const collectAttributeTypes = (items: Attributes[], skip: string[]) => {
+  const types = new Map<string, AttributeType>();
+  items.forEach((item) =>
+    Object.entries(item).forEach(([key, value]) => {
+      if (skip.includes(key)) return;
+      const type: AttributeType =
+        typeof value === "number"
+          ? "double"
+          : typeof value === "boolean"
+            ? "boolean"
+            : "string";
+      const known = types.get(key);
+      types.set(key, known === undefined || known === type ? type : "string");
+    })
+  );
+  return types;
+};
+
+export const toGraphML = (data: CustomGraphData): string => {
+  const nodes = data.nodes.map(nodeAttributes);
+  const links = data.links.map(linkAttributes);
+  const nodeKeys = collectAttributeTypes(nodes, ["id"]);
+  const linkKeys = collectAttributeTypes(links, ["source", "target"]);
+
+  const keyLines = [
+    ...Array.from(nodeKeys.entries()).map(
+      ([key, type]) =>
+        `  <key id="n_${escapeXml(key)}" for="node" attr.name="${escapeXml(key)}" attr.type="${type}"/>`
+    ),
+    ...Array.from(linkKeys.entries()).map(
+      ([key, type]) =>
+        `  <key id="e_${escapeXml(key)}" for="edge" attr.name="${escapeXml(key)}" attr.type="${type}"/>`
+    ),
+  ];
+  const dataLines = (item: Attributes, prefix: string, skip: string[]) =>
+    Object.entries(item)
+      .filter(([key]) => !skip.includes(key))
+      .map(
+        ([key, value]) =>
+          `      <data key="${prefix}_${escapeXml(key)}">${toXmlValue(value)}</data>`
+      );
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<graphml xmlns="http://graphml.graphdrawing.org/xmlns">`,
+    ...keyLines,
+    `  <graph id="G" edgedefault="directed">`,
+    ...nodes.flatMap((node) => [
+      `    <node id="${toXmlValue(node.id)}">`,
+      ...dataLines(node, "n", ["id"]),
+      `    </node>`,
+    ]),
+    ...links.flatMap((link, index) => [
+      `    <edge id="e${index}" source="${toXmlValue(link.source)}" target="${toXmlValue(link.target)}">`,
+      ...dataLines(link, "e", ["source", "target"]),
+      `    </edge>`,
+    ]),
+    `  </graph>`,
+    `</graphml>`,
+  ].join("\n");
+};
+
+export const toGEXF = (data: CustomGraphData): string => {
+  const nodes = data.nodes.map(nodeAttributes);
+  const links = data.links.map(linkAttributes);
+  const nodeKeys = collectAttributeTypes(nodes, ["id"]);
+  const linkKeys = collectAttributeTypes(links, ["source", "target"]);
+  const nodeIndex = new Map(Array.from(nodeKeys.keys()).map((k, i) => [k, i]));
+  const linkIndex = new Map(Array.from(linkKeys.keys()).map((k, i) => [k, i]));
+
+  const attributeLines = (keys: Map<string, AttributeType>) =>
+    Array.from(keys.entries()).map(
+      ([key, type], index) =>
+        `      <attribute id="${index}" title="${escapeXml(key)}" type="${type}"/>`
+    );
+  const valueLines = (item: Attributes, index: Map<string, number>) =>
+    Object.entries(item)
+      .filter(([key]) => index.has(key))
+      .map(
+        ([key, value]) =>
+          `          <attvalue for="${index.get(key)}" value="${toXmlValue(value)}"/>`
+      );
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<gexf xmlns="http://gexf.net/1.3" version="1.3">`,
+    `  <graph mode="static" defaultedgetype="directed">`,
+    `    <attributes class="node">`,
+    ...attributeLines(nodeKeys),
+    `    </attributes>`,
+    `    <attributes class="edge">`,
+    ...attributeLines(linkKeys),
+    `    </attributes>`,
+    `    <nodes>`,
+    ...nodes.flatMap((node) => [
+      `      <node id="${toXmlValue(node.id)}" label="${toXmlValue(node.name ?? node.id)}">`,
+      `        <attvalues>`,
+      ...valueLines(node, nodeIndex),
+      `        </attvalues>`,
+      `      </node>`,
+    ]),
+    `    </nodes>`,
+    `    <edges>`,
+    ...links.flatMap((link, index) => [
+      `      <edge id="${index}" source="${toXmlValue(link.source)}" target="${toXmlValue(link.target)}"${
+        typeof link.weight === "number" ? ` weight="${link.weight}"` : ""
+      }>`,
+      `        <attvalues>`,
+      ...valueLines(link, linkIndex),
+      `        </attvalues>`,
+      `      </edge>`,
+    ]),
+    `    </edges>`,
+    `  </graph>`,
+    `</gexf>`,
+  ].join("\n");
+};
+
+const cypherIdentifier = (name: string) =>
+  "`" + (name || "Unknown").replace(/`/g, "``") + "`";
+
+const cypherString = (value: string) =>
+  `'${value.replace(/\\/g, "\\\\").replace(/'/g, "\\'").replace(/\n/g, "\\n")}'`;
+
+// Neo4j properties may be primitives or lists of primitives; anything else is
+// stored as a JSON string, and missing values as null
+const cypherValue = (value: unknown): string => {
+  if (value === undefined || value === null) return "null";
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? String(value) : "null";
+  }
+  if (typeof value === "boolean") return String(value);
+  if (typeof value === "string") return cypherString(value);
+  if (
+    Array.isArray(value) &&
+    value.every((item) => ["string", "number", "boolean"].includes(typeof item))
+  ) {
+    return `[${value.map(cypherValue).join(", ")}]`;
+  }
+  return cypherString(JSON.stringify(value));
+};
+
+const cypherMap = (item: Attributes, skip: string[] = []) =>
+  `{${Object.entries(item)
+    .filter(([key]) => !skip.includes(key))
+    .map(([key, value]) => `${cypherIdentifier(key)}: ${cypherValue(value)}`)
+    .join(", ")}}`;
+
+// Every node also gets the :Node label so relationships can match it by id
+export const toCypher = (
+  data: CustomGraphData,
+  mode: "CREATE" | "MERGE"
+): string => {
+  const nodes = data.nodes.map(nodeAttributes);
+  const links = data.links.map(linkAttributes);
+
+  const nodeStatements = nodes.map((node) => {
+    const label = `:Node:${cypherIdentifier(String(node.type ?? ""))}`;
+    return mode === "CREATE"
+      ? `CREATE (${label} ${cypherMap(node)});`
+      : `MERGE (n${label} {id: ${cypherValue(node.id)}}) SET n += ${cypherMap(node, ["id"])};`;
+  });
+
+  const linkStatements = links.map((link) => {
+    const match = `MATCH (a:Node {id: ${cypherValue(link.source)}}), (b:Node {id: ${cypherValue(link.target)}})`;
+    const type = cypherIdentifier(String(link.type ?? "RELATED"));
+    const properties = cypherMap(link, ["source", "target"]);
+    return mode === "CREATE"
+      ? `${match} CREATE (a)-[:${type} ${properties}]->(b);`
+      : `${match} MERGE (a)-[r:${type}${
+          // MERGE can't match on a null property, so links without an id are
+          // merged on their type alone
+          link.id === undefined ? "" : ` {id: ${cypherValue(link.id)}}`
+        }]->(b) SET r += ${properties};`;
+  });
+
+  return [
+    "CREATE INDEX node_id IF NOT EXISTS FOR (n:Node) ON (n.id);",
+    ...nodeStatements,
+    ...linkStatements,
+  ].join("\n");
+};
+
+// Same shape as networkx's node_link_data
+export const toNodeLinkJSON = (data: CustomGraphData): string =>
+  JSON.stringify(
+    {
+      directed: true,
+      multigraph: false,
+      graph: {},
+      nodes: data.nodes.map(nodeAttributes),
+      links: data.links.map(linkAttributes),
+    },
+    null,
+    2
+  );
+
+export const exportFormats: {
+  format: ExportFormat;
+  label: string;
+  extension: string;
+  mimeType: string;
+  serialize: (data: CustomGraphData) => string;
+}[] = [
+  {
+    format: "graphml",
+    label: "GraphML",
+    extension: "graphml",
+    mimeType: "application/xml",
+    serialize: toGraphML,
+  },
+  {
+    format: "gexf",
+    label: "GEXF (Gephi)",
+    extension: "gexf",
+    mimeType: "application/xml",
+    serialize: toGEXF,
+  },
+  {
+    format: "cypher-create",
+    label: "Cypher CREATE (Neo4j)",
+    extension: "cypher",
+    mimeType: "text/plain",
+    serialize: (data) => toCypher(data, "CREATE"),
+  },
+  {
+    format: "cypher-merge",
+    label: "Cypher MERGE (Neo4j)",
+    extension: "cypher",
+    mimeType: "text/plain",
+    serialize: (data) => toCypher(data, "MERGE"),
+  },
+  {
+    format: "json",
+    label: "Node-link JSON",
+    extension: "json",
+    mimeType: "application/json",
+    serialize: toNodeLinkJSON,
+  },
+];
+
+export const downloadFile = (
+  content: BlobPart,
+  fileName: string,
+  mimeType: string
+) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const anchor = document.createElement("a");
+  anchor.href = url;
+  anchor.download = fileName;
+  anchor.click();
+  URL.revokeObjectURL(url);
+};
+
+export const exportGraph = (data: CustomGraphData, format: ExportFormat) => {
+  const exporter = exportFormats.find((entry) => entry.format === format);
+  if (!exporter) return;
+  downloadFile(
+    exporter.serialize(data),
+    `graphrag-graph.${exporter.extension}`,
+    exporter.mimeType
+  );
+};
@@ -0,0 +1,290 @@
+import { group, hierarchy, pack } from "d3";
+import { CustomLink, CustomNode } from "../models/custom-graph-data";
+
+export type LayoutId = "force" | "hierarchical" | "radial" | "community" | "stored";
+
+export interface LayoutPosition {
+  x: number;
+  y: number;
+}
+
+export interface LayoutContext {
+  nodes: CustomNode[];
+  links: CustomLink[];
+  // Center of the radial layout; falls back to the best connected node
+  focusNodeId?: string;
+  // Positions read from create_final_nodes.parquet, keyed by node id
+  storedPositions: Map<string, LayoutPosition>;
+}
+
+export interface LayoutEngine {
+  id: LayoutId;
+  label: string;
+  // Returns null when the force simulation should place the nodes instead
+  layout: (context: LayoutContext) => Map<string, LayoutPosition> | null;
+  isAvailable?: (context: LayoutContext) => boolean;
+}
+
+const NODE_SPACING = 20;
+const LAYER_SPACING = 120;
+const MAX_NODES_PER_ROW = 80;
+const RING_SPACING = 80;
+
+const linkEndId = (end: string | CustomNode) =>
+  typeof end === "object" ? (end as CustomNode).id : end;
+
+const buildAdjacency = (nodes: CustomNode[], links: CustomLink[]) => {
+  const adjacency = new Map<string, string[]>(
+    nodes.map((node) => [node.id, []])
+  );
+  links.forEach((link) => {
+    const source = linkEndId(link.source);
+    const target = linkEndId(link.target);
+    if (!adjacency.has(source) || !adjacency.has(target)) return;
+    adjacency.get(source)!.push(target);
+    adjacency.get(target)!.push(source);
+  });
+  return adjacency;
+};
+
+const byName = (a: CustomNode, b: CustomNode) =>
+  (a.name || a.id).localeCompare(b.name || b.id);
+
+// Breadth-first depths from each start node, visiting components in order
+const breadthFirst = (
+  starts: string[],
+  adjacency: Map<string, string[]>
+): Map<string, number> => {
+  const depths = new Map<string, number>();
+  starts.forEach((start) => {
+    if (depths.has(start)) return;
+    depths.set(start, 0);
+    const queue = [start];
+    for (let i = 0; i < queue.length; i++) {
+      const current = queue[i];
+      adjacency.get(current)?.forEach((neighbor) => {
+        if (depths.has(neighbor)) return;
+        depths.set(neighbor, depths.get(current)! + 1);
+        queue.push(neighbor);
+      });
+    }
+  });
+  return depths;
+};
+
+// Document → TextUnit → Entity/Covariate → Community → Finding
+const artifactLayer = (node: CustomNode) => {
+  switch (node.type) {
+    case "RAW_DOCUMENT":
+      return 0;
+    case "CHUNK":
+      return 1;
+    case "COMMUNITY":
+      return 3;
+    case "FINDING":
+      return 4;
+    default:
+      return 2;
+  }
+};
+
+const hierarchicalLayout = ({ nodes, links }: LayoutContext) => {
+  const adjacency = buildAdjacency(nodes, links);
+  let layerOf = new Map(nodes.map((node) => [node.id, artifactLayer(node)]));
+
+  // An entity-only graph has a single artifact layer, so layer it by hops
+  // from the best connected node of each component instead
+  if (new Set(layerOf.values()).size === 1) {
+    const starts = [...nodes]
+      .sort(
+        (a, b) =>
+          adjacency.get(b.id)!.length - adjacency.get(a.id)!.length ||
+          byName(a, b)
+      )
+      .map((node) => node.id);
+    layerOf = breadthFirst(starts, adjacency);
+  }
+
+  const layers = group(nodes, (node) => layerOf.get(node.id)!);
+
+  // Order each layer by the mean column of its neighbours in earlier layers
+  const column = new Map<string, number>();
+  const positions = new Map<string, LayoutPosition>();
+  let y = 0;
+  Array.from(layers.keys())
+    .sort((a, b) => a - b)
+    .forEach((layer) => {
+      const barycenter = (node: CustomNode) => {
+        const placed = adjacency
+          .get(node.id)!
+          .filter((neighbor) => column.has(neighbor));
+        return placed.length > 0
+          ? placed.reduce((sum, neighbor) => sum + column.get(neighbor)!, 0) /
+              placed.length
+          : Infinity;
+      };
+      const ordered = layers
+        .get(layer)!
+        .map((node) => ({ node, order: barycenter(node) }))
+        .sort((a, b) => a.order - b.order || byName(a.node, b.node))
+        .map(({ node }) => node);
+
+      // Wrap wide layers onto several rows so they stay readable
+      const rowLength = Math.min(ordered.length, MAX_NODES_PER_ROW);
+      ordered.forEach((node, index) => {
+        const row = Math.floor(index / MAX_NODES_PER_ROW);
+        const col = index % MAX_NODES_PER_ROW;
+        column.set(node.id, index / ordered.length);
+        positions.set(node.id, {
+          x: (col - (rowLength - 1) / 2) * NODE_SPACING,
+          y: y + row * NODE_SPACING * 2,
+        });
+      });
+      const rows = Math.ceil(ordered.length / MAX_NODES_PER_ROW);
+      y += (rows - 1) * NODE_SPACING * 2 + LAYER_SPACING;
+    });
+
+  return positions;
+};
+
+const radialLayout = ({ nodes, links, focusNodeId }: LayoutContext) => {
+  const adjacency = buildAdjacency(nodes, links);
+  const focus =
+    focusNodeId && adjacency.has(focusNodeId)
+      ? focusNodeId
+      : [...nodes].sort(
+          (a, b) => adjacency.get(b.id)!.length - adjacency.get(a.id)!.length
+        )[0]?.id;
+  if (!focus) return new Map<string, LayoutPosition>();
+
+  // Breadth-first discovery order keeps siblings next to each other on a ring
+  const depths = breadthFirst([focus], adjacency);
+  const maxDepth = Math.max(0, ...Array.from(depths.values()));
+  const rings: string[][] = Array.from({ length: maxDepth + 2 }, () => []);
+  depths.forEach((depth, id) => rings[depth].push(id));
+  nodes
+    .filter((node) => !depths.has(node.id))
+    .sort(byName)
+    .forEach((node) => rings[maxDepth + 1].push(node.id));
+
+  const positions = new Map<string, LayoutPosition>();
+  let radius = 0;
+  rings.forEach((ring, depth) => {
+    if (depth > 0) {
+      const circumference = ring.length * NODE_SPACING;
+      radius = Math.max(radius + RING_SPACING, circumference / (2 * Math.PI));
+    }
+    ring.forEach((id, index) => {
+      const angle = (2 * Math.PI * index) / ring.length;
+      positions.set(id, {
+        x: radius * Math.cos(angle),
+        y: radius * Math.sin(angle),
+      });
+    });
+  });
+  return positions;
+};
+
+const communityLayout = ({ nodes, links }: LayoutContext) => {
+  // Entities carry their community at the selected level; other nodes join
+  // the community node they are linked to, or a group for their type
+  const memberOf = new Map<string, string>();
+  links.forEach((link) => {
+    const source = linkEndId(link.source);
+    const target = linkEndId(link.target);
+    if (link.type === "IN_COMMUNITY" && !memberOf.has(source)) {
+      memberOf.set(source, `node:${target}`);
+    } else if (link.type === "HAS_FINDING") {
+      memberOf.set(target, `node:${source}`);
+    }
+  });
+  const groupOf = (node: CustomNode) => {
+    if (node.community !== undefined) return `community:${node.community}`;
+    if (node.type === "COMMUNITY") return `node:${node.id}`;
+    return memberOf.get(node.id) ?? `type:${node.type}`;
+  };
+
+  const groups = group(nodes, groupOf);
+
+  type PackDatum = { node?: CustomNode; children?: PackDatum[] };
+  const root = hierarchy<PackDatum>({
+    children: Array.from(groups.values()).map((members) => ({
+      children: members.sort(byName).map((node) => ({ node })),
+    })),
+  })
+    .sum((datum) => (datum.node ? 1 : 0))
+    .sort((a, b) => (b.value ?? 0) - (a.value ?? 0));
+
+  const size = Math.sqrt(nodes.length) * NODE_SPACING * 1.5;
+  const positions = new Map<string, LayoutPosition>();
+  pack<PackDatum>()
+    .size([size, size])
+    .padding(NODE_SPACING / 2)(root)
+    .leaves()
+    .forEach((leaf) => {
+      if (!leaf.data.node) return;
+      positions.set(leaf.data.node.id, {
+        x: leaf.x - size / 2,
+        y: leaf.y - size / 2,
+      });
+    });
+  return positions;
+};
+
+const storedLayout = ({ nodes, storedPositions }: LayoutContext) => {
+  const positions = new Map<string, LayoutPosition>();
+  let extent = 0;
+  nodes.forEach((node) => {
+    const position = storedPositions.get(node.id);
+    if (!position) return;
+    positions.set(node.id, position);
+    extent = Math.max(extent, Math.hypot(position.x, position.y));
+  });
+
+  // Artifacts without a stored position go on a ring around the stored ones
+  const unplaced = nodes.filter((node) => !positions.has(node.id)).sort(byName);
+  const radius = Math.max(
+    extent + RING_SPACING,
+    (unplaced.length * NODE_SPACING) / (2 * Math.PI)
+  );
+  unplaced.forEach((node, index) => {
+    const angle = (2 * Math.PI * index) / unplaced.length;
+    positions.set(node.id, {
+      x: radius * Math.cos(angle),
+      y: radius * Math.sin(angle),
+    });
+  });
+  return positions;
+};
+
+export const layoutEngines: LayoutEngine[] = [
+  {
+    id: "force",
+    label: "Force",
+    layout: () => null,
+  },
+  {
+    id: "hierarchical",
+    label: "Hierarchical",
+    layout: hierarchicalLayout,
+  },
+  {
+    id: "radial",
+    label: "Radial",
+    layout: radialLayout,
+  },
+  {
+    id: "community",
+    label: "Community Packing",
+    layout: communityLayout,
+  },
+  {
+    id: "stored",
+    label: "Stored Positions",
+    layout: storedLayout,
+    isAvailable: ({ storedPositions }) => storedPositions.size > 0,
+  },
+];
+
+export const getLayoutEngine = (id: LayoutId): LayoutEngine =>
+  layoutEngines.find((engine) => engine.id === id) ?? layoutEngines[0];
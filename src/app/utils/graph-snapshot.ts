@@ -0,0 +1,280 @@
+import { PerspectiveCamera, Scene, Vector2, WebGLRenderer } from "three";
+import { CustomLink, CustomNode } from "../models/custom-graph-data";
+import { escapeXml } from "./graph-export";
+
+export interface LegendEntry {
+  label: string;
+  color: string;
+}
+
+export interface SnapshotDecorations {
+  title?: string;
+  legend?: LegendEntry[];
+}
+
+// Graph-space rectangle currently visible in the 2D canvas
+export interface GraphViewport {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+export interface Snapshot2DOptions {
+  nodes: CustomNode[];
+  links: CustomLink[];
+  viewport: GraphViewport;
+  width: number;
+  height: number;
+  scale: number;
+  background: string;
+  textColor: string;
+  linkColor: (link: CustomLink) => string;
+  linkWidth: (link: CustomLink) => number;
+  // Same painters GraphViewer hands to ForceGraph2D, in graph coordinates
+  paintNode: (node: CustomNode, ctx: CanvasRenderingContext2D) => void;
+  paintLabel?: (node: CustomNode, ctx: CanvasRenderingContext2D) => void;
+  decorations: SnapshotDecorations;
+}
+
+export interface SvgSnapshotOptions {
+  nodes: CustomNode[];
+  links: CustomLink[];
+  viewport: GraphViewport;
+  width: number;
+  height: number;
+  background: string;
+  textColor: string;
+  nodeRadius: number;
+  nodeColor: (node: CustomNode) => string;
+  linkColor: (link: CustomLink) => string;
+  linkWidth: (link: CustomLink) => number;
+  showLabels: boolean;
+  decorations: SnapshotDecorations;
+}
+
+interface SceneHandle {
+  renderer: () => WebGLRenderer;
+  scene: () => Scene;
+  camera: () => PerspectiveCamera;
+}
+
+const LEGEND_FONT_SIZE = 12;
+const TITLE_FONT_SIZE = 20;
+const MARGIN = 12;
+
+const endpoint = (end: string | CustomNode) =>
+  typeof end === "object" ? (end as CustomNode) : undefined;
+
+const drawDecorations = (
+  ctx: CanvasRenderingContext2D,
+  height: number,
+  scale: number,
+  textColor: string,
+  { title, legend }: SnapshotDecorations
+) => {
+  ctx.save();
+  ctx.setTransform(scale, 0, 0, scale, 0, 0);
+  ctx.fillStyle = textColor;
+  ctx.textBaseline = "top";
+  ctx.textAlign = "left";
+
+  if (title) {
+    ctx.font = `bold ${TITLE_FONT_SIZE}px Sans-Serif`;
+    ctx.fillText(title, MARGIN, MARGIN);
+  }
+
+  if (legend && legend.length > 0) {
+    ctx.font = `${LEGEND_FONT_SIZE}px Sans-Serif`;
+    ctx.textBaseline = "middle";
+    const lineHeight = LEGEND_FONT_SIZE * 1.6;
+    const top = height / scale - MARGIN - legend.length * lineHeight;
+    legend.forEach(({ label, color }, index) => {
+      const y = top + index * lineHeight + lineHeight / 2;
+      ctx.beginPath();
+      ctx.arc(MARGIN + 5, y, 5, 0, 2 * Math.PI);
+      ctx.fillStyle = color;
+      ctx.fill();
+      ctx.fillStyle = textColor;
+      ctx.fillText(label, MARGIN + 16, y);
+    });
+  }
+  ctx.restore();
+};
+
+// Redraws the visible part of the 2D graph onto a canvas `scale` times larger
+export const render2DSnapshot = ({
+  nodes,
+  links,
+  viewport,
+  width,
+  height,
+  scale,
+  background,
+  textColor,
+  linkColor,
+  linkWidth,
+  paintNode,
+  paintLabel,
+  decorations,
+}: Snapshot2DOptions): HTMLCanvasElement => {
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+  const ctx = canvas.getContext("2d")!;
+
+  ctx.fillStyle = background;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  const zoom = width / (viewport.maxX - viewport.minX);
+  ctx.setTransform(
+    zoom * scale,
+    0,
+    0,
+    zoom * scale,
+    -viewport.minX * zoom * scale,
+    -viewport.minY * zoom * scale
+  );
+
+  links.forEach((link) => {
+    const source = endpoint(link.source);
+    const target = endpoint(link.target);
+    if (source?.x === undefined || target?.x === undefined) return;
+    ctx.beginPath();
+    ctx.moveTo(source.x, source.y!);
+    ctx.lineTo(target.x, target.y!);
+    ctx.strokeStyle = linkColor(link);
+    // Link widths are screen pixels in ForceGraph2D
+    ctx.lineWidth = linkWidth(link) / zoom;
+    ctx.stroke();
+  });
+  nodes.forEach((node) => paintNode(node, ctx));
+  if (paintLabel) {
+    nodes.forEach((node) => paintLabel(node, ctx));
+  }
+
+  drawDecorations(ctx, canvas.height, scale, textColor, decorations);
+  return canvas;
+};
+
+export const render2DSvg = ({
+  nodes,
+  links,
+  viewport,
+  width,
+  height,
+  background,
+  textColor,
+  nodeRadius,
+  nodeColor,
+  linkColor,
+  linkWidth,
+  showLabels,
+  decorations,
+}: SvgSnapshotOptions): string => {
+  const zoom = width / (viewport.maxX - viewport.minX);
+  const viewBox = `${viewport.minX} ${viewport.minY} ${viewport.maxX - viewport.minX} ${viewport.maxY - viewport.minY}`;
+
+  const linkElements = links.flatMap((link) => {
+    const source = endpoint(link.source);
+    const target = endpoint(link.target);
+    if (source?.x === undefined || target?.x === undefined) return [];
+    return [
+      `<line x1="${source.x}" y1="${source.y}" x2="${target.x}" y2="${target.y}" stroke="${linkColor(link)}" stroke-width="${linkWidth(link) / zoom}"/>`,
+    ];
+  });
+  const nodeElements = nodes.flatMap((node) =>
+    node.x === undefined
+      ? []
+      : [
+          `<circle cx="${node.x}" cy="${node.y}" r="${nodeRadius}" fill="${nodeColor(node)}"><title>${escapeXml(node.name || node.id)}</title></circle>`,
+        ]
+  );
+  const labelElements = showLabels
+    ? nodes.flatMap((node) =>
+        node.x === undefined
+          ? []
+          : [
+              `<text x="${node.x}" y="${node.y! + nodeRadius * 2}" font-size="${nodeRadius}" text-anchor="middle" fill="${textColor}">${escapeXml(node.name || node.id)}</text>`,
+            ]
+      )
+    : [];
+
+  // Title and legend sit in screen space, outside the graph viewBox
+  const { title, legend = [] } = decorations;
+  const lineHeight = LEGEND_FONT_SIZE * 1.6;
+  const legendTop = height - MARGIN - legend.length * lineHeight;
+  const decorationElements = [
+    ...(title
+      ? [
+          `<text x="${MARGIN}" y="${MARGIN + TITLE_FONT_SIZE}" font-size="${TITLE_FONT_SIZE}" font-weight="bold" font-family="Sans-Serif" fill="${textColor}">${escapeXml(title)}</text>`,
+        ]
+      : []),
+    ...legend.flatMap(({ label, color }, index) => {
+      const y = legendTop + index * lineHeight + lineHeight / 2;
+      return [
+        `<circle cx="${MARGIN + 5}" cy="${y}" r="5" fill="${color}"/>`,
+        `<text x="${MARGIN + 16}" y="${y}" font-size="${LEGEND_FONT_SIZE}" font-family="Sans-Serif" dominant-baseline="middle" fill="${textColor}">${escapeXml(label)}</text>`,
+      ];
+    }),
+  ];
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">`,
+    `<rect width="100%" height="100%" fill="${background}"/>`,
+    `<svg x="0" y="0" width="${width}" height="${height}" viewBox="${viewBox}">`,
+    `<g>${linkElements.join("")}</g>`,
+    `<g>${nodeElements.join("")}</g>`,
+    `<g>${labelElements.join("")}</g>`,
+    `</svg>`,
+    ...decorationElements,
+    `</svg>`,
+  ].join("\n");
+};
+
+// Renders the WebGL scene once at the requested size and restores the view
+export const capture3DSnapshot = (
+  graph: SceneHandle,
+  width: number,
+  height: number,
+  textColor: string,
+  decorations: SnapshotDecorations
+): HTMLCanvasElement => {
+  const renderer = graph.renderer();
+  const camera = graph.camera();
+  const previousSize = renderer.getSize(new Vector2());
+  const previousPixelRatio = renderer.getPixelRatio();
+  const previousAspect = camera.aspect;
+
+  renderer.setPixelRatio(1);
+  renderer.setSize(width, height, false);
+  camera.aspect = width / height;
+  camera.updateProjectionMatrix();
+  renderer.render(graph.scene(), camera);
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d")!;
+  ctx.drawImage(renderer.domElement, 0, 0, width, height);
+
+  renderer.setPixelRatio(previousPixelRatio);
+  renderer.setSize(previousSize.x, previousSize.y, false);
+  camera.aspect = previousAspect;
+  camera.updateProjectionMatrix();
+  renderer.render(graph.scene(), camera);
+
+  // Scale decorations with the output so they stay legible at 4K
+  const scale = Math.max(1, height / 1080);
+  drawDecorations(ctx, height, scale, textColor, decorations);
+  return canvas;
+};
+
+export const canvasToBlob = (canvas: HTMLCanvasElement): Promise<Blob> =>
+  new Promise((resolve, reject) =>
+    canvas.toBlob(
+      (blob) =>
+        blob ? resolve(blob) : reject(new Error("Failed to encode snapshot")),
+      "image/png"
+    )
+  );
@@ -0,0 +1,158 @@
+import {
+  ColumnSpec,
+  schemaSpecs,
+  SchemaSpec,
+  toNumber,
+} from "./parquet-schemas";
+
+export type GraphRAGVersion = "0.3" | "0.5" | "1.x" | "2.x";
+
+export interface DetectedFile {
+  name: string;
+  schema?: string;
+  columns: string[];
+}
+
+export interface VersionAdapter {
+  version: GraphRAGVersion;
+  label: string;
+  fileSchemas: { [fileName: string]: string };
+  // Per-schema column specs that differ from the current model layout
+  overrides: { [schema: string]: { [field: string]: ColumnSpec } };
+  matches: (files: DetectedFile[]) => boolean;
+}
+
+const legacyFileSchemas: { [key: string]: string } = {
+  "create_final_entities.parquet": "entity",
+  "create_final_relationships.parquet": "relationship",
+  "create_final_text_units.parquet": "text_unit",
+  "create_final_communities.parquet": "community",
+  "create_final_community_reports.parquet": "community_report",
+  "create_final_documents.parquet": "document",
+  "create_final_covariates.parquet": "covariate",
+  "create_final_nodes.parquet": "node",
+};
+
+const fileSchemasV2: { [key: string]: string } = {
+  "entities.parquet": "entity",
+  "relationships.parquet": "relationship",
+  "text_units.parquet": "text_unit",
+  "communities.parquet": "community",
+  "community_reports.parquet": "community_report",
+  "documents.parquet": "document",
+  "covariates.parquet": "covariate",
+};
+
+const hasColumn = (files: DetectedFile[], schema: string, column: string) =>
+  files.some((file) => file.schema === schema && file.columns.includes(column));
+
+const adapterV2: VersionAdapter = {
+  version: "2.x",
+  label: "GraphRAG 2.x",
+  fileSchemas: fileSchemasV2,
+  overrides: {
+    community_report: {
+      rank_explanation: { column: "rating_explanation" },
+    },
+  },
+  matches: (files) => files.some((file) => file.name in fileSchemasV2),
+};
+
+const adapterV1: VersionAdapter = {
+  version: "1.x",
+  label: "GraphRAG 1.x",
+  fileSchemas: legacyFileSchemas,
+  overrides: {},
+  matches: (files) =>
+    hasColumn(files, "community", "parent") ||
+    hasColumn(files, "community_report", "parent"),
+};
+
+const adapterV03: VersionAdapter = {
+  version: "0.3",
+  label: "GraphRAG 0.3.x",
+  fileSchemas: legacyFileSchemas,
+  overrides: {
+    entity: {
+      title: { column: "name", required: true },
+    },
+    relationship: {
+      combined_degree: { column: "rank", parse: toNumber },
+    },
+    document: {
+      human_readable_id: { optional: true },
+      text: { column: "raw_content" },
+    },
+    text_unit: {
+      human_readable_id: { optional: true },
+    },
+    community: {
+      human_readable_id: { optional: true },
+      community: { column: "raw_community", parse: toNumber },
+      entity_ids: { optional: true, fallback: [] },
+      period: { optional: true },
+      size: { optional: true },
+    },
+    community_report: {
+      human_readable_id: { optional: true },
+      period: { optional: true },
+      size: { optional: true },
+    },
+  },
+  matches: (files) =>
+    (hasColumn(files, "entity", "name") &&
+      !hasColumn(files, "entity", "title")) ||
+    hasColumn(files, "document", "raw_content") ||
+    hasColumn(files, "community", "raw_community"),
+};
+
+const adapterV05: VersionAdapter = {
+  version: "0.5",
+  label: "GraphRAG 0.5.x",
+  fileSchemas: legacyFileSchemas,
+  overrides: {},
+  matches: () => true,
+};
+
+// Checked in order; 0.5 is the layout the models follow and the fallback.
+export const versionAdapters: VersionAdapter[] = [
+  adapterV2,
+  adapterV03,
+  adapterV1,
+  adapterV05,
+];
+
+export const getFileSchema = (fileName: string): string | undefined =>
+  versionAdapters
+    .map((adapter) => adapter.fileSchemas[fileName])
+    .find((schema) => schema !== undefined);
+
+export const getSchemaFileName = (
+  schema: string,
+  version: GraphRAGVersion = "0.5"
+): string | undefined => {
+  const { fileSchemas } = getVersionAdapter(version);
+  return Object.keys(fileSchemas).find((name) => fileSchemas[name] === schema);
+};
+
+export const getVersionAdapter = (version: GraphRAGVersion): VersionAdapter =>
+  versionAdapters.find((adapter) => adapter.version === version) ?? adapterV05;
+
+export const detectVersion = (files: DetectedFile[]): VersionAdapter =>
+  versionAdapters.find((adapter) => adapter.matches(files)) ?? adapterV05;
+
+export const getSchemaSpec = (
+  schema: string,
+  version: GraphRAGVersion = "0.5"
+): SchemaSpec<any> | undefined => {
+  const spec = schemaSpecs[schema];
+  if (!spec) return undefined;
+
+  const overrides = getVersionAdapter(version).overrides[schema] ?? {};
+  return Object.fromEntries(
+    Object.entries(spec).map(([field, columnSpec]) => [
+      field,
+      { ...columnSpec, ...overrides[field] },
+    ])
+  );
+};
@@ -0,0 +1,149 @@
+import { Community } from "../models/community";
+import { CommunityReport } from "../models/community-report";
+import { Entity } from "../models/entity";
+import { IndexArtifacts } from "../models/index-artifacts";
+import { Relationship } from "../models/relationship";
+import { buildDiffGraphData, computeIndexDiff } from "./index-diff";
+
+const entity = (title: string, description = ""): Entity =>
+  ({ id: `id-${title}`, title, type: "PERSON", description }) as Entity;
+
+const relationship = (
+  source: string,
+  target: string,
+  weight = 1,
+  description = ""
+): Relationship =>
+  ({
+    id: `id-${source}-${target}`,
+    source,
+    target,
+    weight,
+    description,
+  }) as Relationship;
+
+const artifacts = (parts: Partial<IndexArtifacts>): IndexArtifacts => ({
+  entities: [],
+  relationships: [],
+  documents: [],
+  textunits: [],
+  communities: [],
+  communityReports: [],
+  covariates: [],
+  nodes: [],
+  graphragVersion: "2.x",
+  ...parts,
+});
+
+const byKey = <T extends { key: string }>(records: T[]) =>
+  new Map(records.map((record) => [record.key, record]));
+
+describe("computeIndexDiff", () => {
+  it("matches entities by title", () => {
+    const diff = computeIndexDiff(
+      artifacts({
+        entities: [entity("ALICE", "a"), entity("BOB"), entity("CAROL")],
+      }),
+      artifacts({
+        entities: [entity("ALICE", "b"), entity("BOB"), entity("DAVE")],
+      })
+    );
+    const records = byKey(diff.entities);
+
+    expect(records.get("ALICE")).toMatchObject({
+      status: "changed",
+      changes: ["description"],
+      description_before: "a",
+      description_after: "b",
+    });
+    expect(records.get("BOB")?.status).toBe("unchanged");
+    expect(records.get("CAROL")?.status).toBe("removed");
+    expect(records.get("DAVE")?.status).toBe("added");
+  });
+
+  it("matches relationships regardless of direction", () => {
+    const diff = computeIndexDiff(
+      artifacts({
+        relationships: [
+          relationship("ALICE", "BOB", 1),
+          relationship("BOB", "CAROL", 2),
+        ],
+      }),
+      artifacts({
+        relationships: [
+          relationship("BOB", "ALICE", 1),
+          relationship("CAROL", "BOB", 3),
+        ],
+      })
+    );
+
+    expect(diff.relationships).toHaveLength(2);
+    const records = byKey(diff.relationships);
+    expect(records.get("ALICE — BOB")?.status).toBe("unchanged");
+    expect(records.get("BOB — CAROL")).toMatchObject({
+      status: "changed",
+      changes: ["weight"],
+      weight_before: 2,
+      weight_after: 3,
+    });
+  });
+
+  it("compares communities by the summary of their own report", () => {
+    const community = (id: number, title: string) =>
+      ({ id, community: id, title, size: 2 }) as Community;
+    const report = (community: number, summary: string) =>
+      ({ community, summary }) as CommunityReport;
+
+    const diff = computeIndexDiff(
+      artifacts({
+        communities: [community(0, "Community 0")],
+        communityReports: [report(0, "before")],
+      }),
+      artifacts({
+        communities: [community(5, "Community 0")],
+        communityReports: [report(5, "after")],
+      })
+    );
+
+    expect(diff.communities).toEqual([
+      expect.objectContaining({
+        key: "Community 0",
+        status: "changed",
+        changes: ["description"],
+        description_before: "before",
+        description_after: "after",
+      }),
+    ]);
+  });
+});
+
+describe("buildDiffGraphData", () => {
+  it("covers both indexes and annotates nodes and links", () => {
+    const base = artifacts({
+      entities: [entity("ALICE"), entity("BOB")],
+      relationships: [relationship("ALICE", "BOB")],
+    });
+    const comparison = artifacts({
+      entities: [entity("ALICE"), entity("CAROL")],
+      relationships: [relationship("ALICE", "CAROL")],
+    });
+    const { nodes, links } = buildDiffGraphData(
+      base,
+      comparison,
+      computeIndexDiff(base, comparison)
+    );
+
+    expect(
+      Object.fromEntries(nodes.map((node) => [node.id, node.diff_status]))
+    ).toEqual({ ALICE: "unchanged", BOB: "removed", CAROL: "added" });
+    expect(
+      links.map((link) => [link.source, link.target, link.diff_status])
+    ).toEqual([
+      ["ALICE", "BOB", "removed"],
+      ["ALICE", "CAROL", "added"],
+    ]);
+    expect(nodes.find((node) => node.id === "ALICE")?.neighbors).toHaveLength(
+      2
+    );
+  });
+});
@@ -0,0 +1,198 @@
+import { Entity } from "../models/entity";
+import { Relationship } from "../models/relationship";
+import { Community } from "../models/community";
+import { IndexArtifacts } from "../models/index-artifacts";
+import {
+  DiffChange,
+  DiffRecord,
+  DiffStatus,
+  IndexDiff,
+} from "../models/index-diff";
+import {
+  CustomGraphData,
+  CustomLink,
+  CustomNode,
+} from "../models/custom-graph-data";
+
+const WEIGHT_TOLERANCE = 1e-9;
+
+interface DiffAccessors<T> {
+  key: (item: T) => string;
+  description: (item: T) => string | undefined;
+  weight?: (item: T) => number | undefined;
+}
+
+// Re-indexing may swap source and target, so relationships match either way
+const relationshipKey = (relationship: Relationship) =>
+  [relationship.source, relationship.target].sort().join(" — ");
+
+const diffByKey = <T>(
+  kind: DiffRecord["kind"],
+  before: T[],
+  after: T[],
+  { key, description, weight }: DiffAccessors<T>
+): DiffRecord[] => {
+  const beforeMap = new Map(before.map((item) => [key(item), item]));
+  const afterMap = new Map(after.map((item) => [key(item), item]));
+  const keys = Array.from(
+    new Set([...Array.from(beforeMap.keys()), ...Array.from(afterMap.keys())])
+  );
+
+  return keys.map((itemKey) => {
+    const oldItem = beforeMap.get(itemKey);
+    const newItem = afterMap.get(itemKey);
+    const changes: DiffChange[] = [];
+    if (oldItem && newItem) {
+      if ((description(oldItem) ?? "") !== (description(newItem) ?? "")) {
+        changes.push("description");
+      }
+      if (
+        weight &&
+        Math.abs((weight(oldItem) ?? 0) - (weight(newItem) ?? 0)) >
+          WEIGHT_TOLERANCE
+      ) {
+        changes.push("weight");
+      }
+    }
+
+    const status: DiffStatus = !oldItem
+      ? "added"
+      : !newItem
+        ? "removed"
+        : changes.length > 0
+          ? "changed"
+          : "unchanged";
+
+    return {
+      kind,
+      key: itemKey,
+      status,
+      changes,
+      description_before: oldItem && description(oldItem),
+      description_after: newItem && description(newItem),
+      weight_before: oldItem && weight?.(oldItem),
+      weight_after: newItem && weight?.(newItem),
+    };
+  });
+};
+
+// Entities, relationships and communities are merged by title between the
+// base index and the comparison index
+export const computeIndexDiff = (
+  base: IndexArtifacts,
+  comparison: IndexArtifacts
+): IndexDiff => {
+  // Community descriptions live in the reports of their own index
+  const communitySummaries = new Map<Community, string>();
+  [base, comparison].forEach((artifacts) => {
+    const summaries = new Map(
+      artifacts.communityReports.map((report) => [
+        report.community.toString(),
+        report.summary,
+      ])
+    );
+    artifacts.communities.forEach((community) => {
+      const summary = summaries.get(
+        (community.community ?? community.id).toString()
+      );
+      if (summary !== undefined) communitySummaries.set(community, summary);
+    });
+  });
+
+  return {
+    entities: diffByKey<Entity>("entity", base.entities, comparison.entities, {
+      key: (entity) => entity.title,
+      description: (entity) => entity.description,
+    }),
+    relationships: diffByKey<Relationship>(
+      "relationship",
+      base.relationships,
+      comparison.relationships,
+      {
+        key: relationshipKey,
+        description: (relationship) => relationship.description,
+        weight: (relationship) => relationship.weight,
+      }
+    ),
+    communities: diffByKey<Community>(
+      "community",
+      base.communities,
+      comparison.communities,
+      {
+        key: (community) => community.title,
+        description: (community) => communitySummaries.get(community),
+        weight: (community) => community.size,
+      }
+    ),
+  };
+};
+
+// Entity/relationship graph covering both indexes, annotated with diff status
+export const buildDiffGraphData = (
+  base: IndexArtifacts,
+  comparison: IndexArtifacts,
+  diff: IndexDiff
+): CustomGraphData => {
+  const entityStatus = new Map(
+    diff.entities.map((record) => [record.key, record.status])
+  );
+  const relationshipStatus = new Map(
+    diff.relationships.map((record) => [record.key, record.status])
+  );
+
+  // Prefer the comparison version of anything present in both indexes
+  const entities = new Map<string, Entity>();
+  [...base.entities, ...comparison.entities].forEach((entity) =>
+    entities.set(entity.title, entity)
+  );
+  const relationships = new Map<string, Relationship>();
+  [...base.relationships, ...comparison.relationships].forEach((relationship) =>
+    relationships.set(relationshipKey(relationship), relationship)
+  );
+
+  const nodesMap: { [key: string]: CustomNode } = {};
+  const nodes: CustomNode[] = Array.from(entities.values()).map((entity) => {
+    const node: CustomNode = {
+      uuid: entity.id,
+      id: entity.title,
+      name: entity.title,
+      type: entity.type,
+      description: entity.description,
+      human_readable_id: entity.human_readable_id,
+      text_unit_ids: entity.text_unit_ids,
+      diff_status: entityStatus.get(entity.title),
+      neighbors: [],
+      links: [],
+    };
+    nodesMap[node.id] = node;
+    return node;
+  });
+
+  const links: CustomLink[] = Array.from(relationships.entries())
+    .map(([key, relationship]) => ({
+      source: relationship.source,
+      target: relationship.target,
+      type: relationship.type,
+      weight: relationship.weight,
+      description: relationship.description,
+      text_unit_ids: relationship.text_unit_ids,
+      id: relationship.id,
+      human_readable_id: relationship.human_readable_id,
+      combined_degree: relationship.combined_degree,
+      diff_status: relationshipStatus.get(key),
+    }))
+    .filter((link) => nodesMap[link.source] && nodesMap[link.target]);
+
+  links.forEach((link) => {
+    const sourceNode = nodesMap[link.source];
+    const targetNode = nodesMap[link.target];
+    if (!sourceNode.neighbors!.includes(targetNode))
+      sourceNode.neighbors!.push(targetNode);
+    if (!targetNode.neighbors!.includes(sourceNode))
+      targetNode.neighbors!.push(sourceNode);
+    sourceNode.links!.push(link);
+    targetNode.links!.push(link);
+  });
+
+  return { nodes, links };
+};
@@ -0,0 +1,195 @@
+/**
+ * @jest-environment node
+ */
+import { Blob as NodeBlob } from "buffer";
+import { readLanceVectors } from "./lance-reader";
+
+// jest's node environment has no global Blob; Node's own behaves the same
+const toBlob = (parts: Uint8Array[]) => new NodeBlob(parts) as unknown as Blob;
+
+// Just enough of a protobuf and Lance v2.0 writer to build small fixtures
+
+const varint = (value: number) => {
+  const bytes: number[] = [];
+  do {
+    bytes.push((value % 128) | (value >= 128 ? 0x80 : 0));
+    value = Math.floor(value / 128);
+  } while (value > 0);
+  return bytes;
+};
+
+const concat = (parts: ArrayLike<number>[]) => {
+  const bytes = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  parts.forEach((part) => {
+    bytes.set(part, offset);
+    offset += part.length;
+  });
+  return bytes;
+};
+
+const varintField = (field: number, value: number) =>
+  concat([varint(field * 8), varint(value)]);
+
+const bytesField = (field: number, bytes: ArrayLike<number>) =>
+  concat([varint(field * 8 + 2), varint(bytes.length), bytes]);
+
+const message = (...fields: Uint8Array[]) => concat(fields);
+
+const stringField = (field: number, value: string) =>
+  bytesField(field, new TextEncoder().encode(value));
+
+const uint64s = (values: number[]) => {
+  const view = new DataView(new ArrayBuffer(values.length * 8));
+  values.forEach((value, i) => view.setBigUint64(i * 8, BigInt(value), true));
+  return new Uint8Array(view.buffer);
+};
+
+// Flat encoding of the page buffer at `index`
+const flat = (bitsPerValue: number, index: number) =>
+  bytesField(
+    1,
+    message(
+      varintField(1, bitsPerValue),
+      bytesField(2, message(varintField(1, index)))
+    )
+  );
+
+// ArrayEncoding wrapped in a google.protobuf.Any, wrapped in a direct encoding
+const pageEncoding = (encoding: Uint8Array) =>
+  message(
+    bytesField(2, message(bytesField(1, message(bytesField(2, encoding)))))
+  );
+
+interface FixturePage {
+  buffers: Uint8Array[];
+  length: number;
+  encoding: Uint8Array;
+}
+
+const buildLanceFile = (
+  fields: { name: string; logicalType: string }[],
+  columns: FixturePage[],
+  version: [number, number] = [0, 3]
+) => {
+  const chunks: Uint8Array[] = [];
+  let position = 0;
+  const append = (bytes: Uint8Array) => {
+    chunks.push(bytes);
+    position += bytes.length;
+    return position - bytes.length;
+  };
+
+  const columnMetadata = columns.map(({ buffers, length, encoding }) => {
+    const offsets = buffers.map(append);
+    const metadata = message(
+      bytesField(
+        2,
+        message(
+          bytesField(1, concat(offsets.map(varint))),
+          bytesField(2, concat(buffers.map((buffer) => varint(buffer.length)))),
+          varintField(3, length),
+          bytesField(4, pageEncoding(encoding))
+        )
+      )
+    );
+    return [append(metadata), metadata.length];
+  });
+
+  const schema = message(
+    bytesField(
+      1,
+      message(
+        ...fields.map(({ name, logicalType }) =>
+          bytesField(
+            1,
+            message(stringField(2, name), stringField(5, logicalType))
+          )
+        )
+      )
+    )
+  );
+  const schemaOffset = append(schema);
+  const columnOffsetsStart = append(uint64s(columnMetadata.flat()));
+  const globalOffsetsStart = append(uint64s([schemaOffset, schema.length]));
+
+  const footer = new DataView(new ArrayBuffer(40));
+  footer.setBigUint64(8, BigInt(columnOffsetsStart), true);
+  footer.setBigUint64(16, BigInt(globalOffsetsStart), true);
+  footer.setUint32(24, 1, true);
+  footer.setUint32(28, columns.length, true);
+  footer.setUint16(32, version[0], true);
+  footer.setUint16(34, version[1], true);
+  new Uint8Array(footer.buffer).set(new TextEncoder().encode("LANC"), 36);
+  append(new Uint8Array(footer.buffer));
+
+  return toBlob(chunks);
+};
+
+const fields = [
+  { name: "id", logicalType: "string" },
+  { name: "text", logicalType: "string" },
+  { name: "vector", logicalType: "fixed_size_list:float:2" },
+];
+
+// Ids "a", null and "bc", with nulls marked by a null adjustment on the offsets
+const idPage: FixturePage = {
+  buffers: [uint64s([1, 1 + 1000, 3]), new TextEncoder().encode("abc")],
+  length: 3,
+  encoding: bytesField(
+    6,
+    message(
+      bytesField(1, flat(64, 0)),
+      bytesField(2, flat(8, 1)),
+      varintField(3, 1000)
+    )
+  ),
+};
+
+const textPage: FixturePage = {
+  buffers: [uint64s([0, 0, 0]), new Uint8Array()],
+  length: 3,
+  encoding: bytesField(
+    6,
+    message(bytesField(1, flat(64, 0)), bytesField(2, flat(8, 1)))
+  ),
+};
+
+const vectorPage: FixturePage = {
+  buffers: [new Uint8Array(new Float32Array([1, 2, 3, 4, 5.5, -6]).buffer)],
+  length: 3,
+  encoding: bytesField(
+    3,
+    message(varintField(1, 2), bytesField(2, flat(32, 0)))
+  ),
+};
+
+describe("readLanceVectors", () => {
+  it("decodes ids and vectors, dropping rows without an id", async () => {
+    const file = buildLanceFile(fields, [idPage, textPage, vectorPage]);
+
+    await expect(readLanceVectors(file)).resolves.toEqual([
+      { id: "a", vector: [1, 2] },
+      { id: "bc", vector: [5.5, -6] },
+    ]);
+  });
+
+  it("rejects files that aren't Lance v2.0", async () => {
+    await expect(
+      readLanceVectors(toBlob([new Uint8Array(64)]))
+    ).rejects.toThrow("Not a Lance file");
+    await expect(
+      readLanceVectors(
+        buildLanceFile(fields, [idPage, textPage, vectorPage], [2, 1])
+      )
+    ).rejects.toThrow("Lance file version 2.1 is not supported");
+  });
+
+  it("names the missing columns", async () => {
+    const file = buildLanceFile(fields.slice(0, 2), [idPage, textPage]);
+
+    await expect(readLanceVectors(file)).rejects.toThrow(
+      "Lance file has no id and vector columns"
+    );
+  });
+});
@@ -0,0 +1,368 @@
+// Reader for the columns GraphRAG keeps in its LanceDB vector store. Only
+// Lance file format v2.0 (the LanceDB default) with the plain encodings used
+// for ids and float vectors is supported; everything else is rejected with an
+// error naming the unsupported part.
+
+export interface VectorRecord {
+  id: string;
+  vector: number[];
+}
+
+type ProtoValue = number | Uint8Array;
+type ProtoMessage = Map<number, ProtoValue[]>;
+
+interface LanceField {
+  name: string;
+  logicalType: string;
+}
+
+interface LancePage {
+  buffers: Uint8Array[];
+  length: number;
+  encoding: ProtoMessage;
+}
+
+const FOOTER_SIZE = 40;
+const MAGIC = "LANC";
+
+const readBytes = async (file: Blob, offset: number, length: number) =>
+  new Uint8Array(await file.slice(offset, offset + length).arrayBuffer());
+
+const toNumber = (view: DataView, offset: number) =>
+  Number(view.getBigUint64(offset, true));
+
+// Reads the varint at `pos`, returning it and the position after it
+const readVarint = (bytes: Uint8Array, pos: number): [number, number] => {
+  let value = 0;
+  let factor = 1;
+  let byte: number;
+  do {
+    byte = bytes[pos++];
+    value += (byte & 0x7f) * factor;
+    factor *= 128;
+  } while (byte & 0x80);
+  return [value, pos];
+};
+
+// Minimal protobuf decoder: varints become numbers, length-delimited fields
+// stay as bytes and fixed-width fields are skipped
+const decodeMessage = (bytes: Uint8Array): ProtoMessage => {
+  const message: ProtoMessage = new Map();
+  let pos = 0;
+  while (pos < bytes.length) {
+    let key: number;
+    [key, pos] = readVarint(bytes, pos);
+    const field = Math.floor(key / 8);
+    const wireType = key % 8;
+    let value: ProtoValue;
+    if (wireType === 0) {
+      [value, pos] = readVarint(bytes, pos);
+    } else if (wireType === 2) {
+      let length: number;
+      [length, pos] = readVarint(bytes, pos);
+      value = bytes.subarray(pos, pos + length);
+      pos += length;
+    } else if (wireType === 1 || wireType === 5) {
+      pos += wireType === 1 ? 8 : 4;
+      continue;
+    } else {
+      throw new Error(`Unsupported protobuf wire type ${wireType}`);
+    }
+    const values = message.get(field);
+    if (values) values.push(value);
+    else message.set(field, [value]);
+  }
+  return message;
+};
+
+const getVarint = (message: ProtoMessage, field: number) => {
+  const value = message.get(field)?.[0];
+  return typeof value === "number" ? value : undefined;
+};
+
+// Repeated varints, packed or not
+const getVarints = (message: ProtoMessage, field: number) =>
+  (message.get(field) ?? []).flatMap((value) => {
+    if (typeof value === "number") return [value];
+    const values: number[] = [];
+    for (let pos = 0; pos < value.length;) {
+      let varint: number;
+      [varint, pos] = readVarint(value, pos);
+      values.push(varint);
+    }
+    return values;
+  });
+
+const getMessages = (message: ProtoMessage, field: number) =>
+  (message.get(field) ?? []).flatMap((value) =>
+    value instanceof Uint8Array ? [decodeMessage(value)] : []
+  );
+
+const getMessage = (
+  message: ProtoMessage,
+  field: number
+): ProtoMessage | undefined => getMessages(message, field)[0];
+
+const requireMessage = (message: ProtoMessage, field: number) => {
+  const value = getMessage(message, field);
+  if (!value) {
+    throw new Error(`Malformed Lance encoding, field ${field} is missing`);
+  }
+  return value;
+};
+
+const getString = (message: ProtoMessage, field: number) => {
+  const value = message.get(field)?.[0];
+  return value instanceof Uint8Array ? new TextDecoder().decode(value) : "";
+};
+
+// Page encodings are stored as a google.protobuf.Any holding an ArrayEncoding
+const unwrapEncoding = (encoding: ProtoMessage) => {
+  const direct = getMessage(encoding, 2);
+  const any = direct && direct.get(1)?.[0];
+  if (!(any instanceof Uint8Array)) {
+    throw new Error("Only directly stored Lance encodings are supported");
+  }
+  return getMessage(decodeMessage(any), 2) ?? new Map();
+};
+
+const describeEncoding = (encoding: ProtoMessage) =>
+  Array.from(encoding.keys()).join(", ");
+
+// Bytes of a Flat encoding's page buffer
+const readFlat = (encoding: ProtoMessage, buffers: Uint8Array[]) => {
+  const flat = getMessage(encoding, 1);
+  if (!flat) {
+    throw new Error(
+      `Unsupported Lance encoding (fields ${describeEncoding(encoding)})`
+    );
+  }
+  if (flat.has(3)) {
+    throw new Error("Compressed Lance pages are not supported");
+  }
+  const buffer = getMessage(flat, 2);
+  if (buffer && (getVarint(buffer, 2) ?? 0) !== 0) {
+    throw new Error("Only page-level Lance buffers are supported");
+  }
+  return {
+    bitsPerValue: getVarint(flat, 1) ?? 0,
+    bytes: buffers[(buffer && getVarint(buffer, 1)) ?? 0],
+  };
+};
+
+// Decodes a possibly Nullable encoding, leaving null in invalid slots
+const decodeNullable = <T>(
+  encoding: ProtoMessage,
+  buffers: Uint8Array[],
+  length: number,
+  decode: (encoding: ProtoMessage, buffers: Uint8Array[], length: number) => T[]
+): (T | null)[] => {
+  const nullable = getMessage(encoding, 2);
+  if (!nullable) return decode(encoding, buffers, length);
+
+  const noNulls = getMessage(nullable, 1);
+  if (noNulls) return decode(requireMessage(noNulls, 1), buffers, length);
+
+  const someNulls = getMessage(nullable, 3);
+  if (!someNulls) return new Array(length).fill(null);
+  const validity = readFlat(requireMessage(someNulls, 1), buffers).bytes;
+  return decode(requireMessage(someNulls, 2), buffers, length).map(
+    (value, i) => ((validity[i >> 3] >> (i & 7)) & 1 ? value : null)
+  );
+};
+
+const decodeUint64 = (
+  encoding: ProtoMessage,
+  buffers: Uint8Array[],
+  length: number
+) => {
+  const { bitsPerValue, bytes } = readFlat(encoding, buffers);
+  if (bitsPerValue !== 64) {
+    throw new Error(`Unsupported ${bitsPerValue}-bit Lance offsets`);
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  return Array.from({ length }, (_, i) => toNumber(view, i * 8));
+};
+
+const decodeStrings = (
+  encoding: ProtoMessage,
+  buffers: Uint8Array[],
+  length: number
+): (string | null)[] => {
+  const binary = getMessage(encoding, 6);
+  if (!binary) {
+    throw new Error(
+      `Unsupported Lance string encoding (fields ${describeEncoding(encoding)})`
+    );
+  }
+  const ends = decodeNullable(
+    requireMessage(binary, 1),
+    buffers,
+    length,
+    decodeUint64
+  );
+  const bytes = readFlat(requireMessage(binary, 2), buffers).bytes;
+  // Null strings have this added to their end offset
+  const nullAdjustment = getVarint(binary, 3) ?? 0;
+  const decoder = new TextDecoder();
+
+  let start = 0;
+  return ends.map((end) => {
+    if (end === null) return null;
+    const isNull = nullAdjustment > 0 && end >= nullAdjustment;
+    const actualEnd = isNull ? end - nullAdjustment : end;
+    const value = isNull
+      ? null
+      : decoder.decode(bytes.subarray(start, actualEnd));
+    start = actualEnd;
+    return value;
+  });
+};
+
+const decodeVectors =
+  (bitsPerValue: number) =>
+  (
+    encoding: ProtoMessage,
+    buffers: Uint8Array[],
+    length: number
+  ): number[][] => {
+    const fixedSizeList = getMessage(encoding, 3);
+    if (!fixedSizeList) {
+      throw new Error(
+        `Unsupported Lance vector encoding (fields ${describeEncoding(encoding)})`
+      );
+    }
+    const dimension = getVarint(fixedSizeList, 1) ?? 0;
+    // Vector items are never null on their own, only whole vectors are
+    let itemEncoding = requireMessage(fixedSizeList, 2);
+    const itemsNullable = getMessage(itemEncoding, 2);
+    if (itemsNullable) {
+      itemEncoding = requireMessage(requireMessage(itemsNullable, 1), 1);
+    }
+    const flat = readFlat(itemEncoding, buffers);
+    if (flat.bitsPerValue !== bitsPerValue) {
+      throw new Error(`Unexpected ${flat.bitsPerValue}-bit vector values`);
+    }
+    // Copy so the typed array starts on an aligned offset
+    const copy = flat.bytes.slice().buffer;
+    const items =
+      bitsPerValue === 64 ? new Float64Array(copy) : new Float32Array(copy);
+    return Array.from({ length }, (_, i) =>
+      Array.from(items.subarray(i * dimension, (i + 1) * dimension))
+    );
+  };
+
+const readSchema = async (
+  file: Blob,
+  view: DataView
+): Promise<LanceField[]> => {
+  const globalBufferOffsetsStart = toNumber(view, 16);
+  const numGlobalBuffers = view.getUint32(24, true);
+  if (numGlobalBuffers === 0) {
+    throw new Error("Lance file has no schema buffer");
+  }
+  const offsets = new DataView(
+    (await readBytes(file, globalBufferOffsetsStart, 16)).buffer
+  );
+  const descriptor = decodeMessage(
+    await readBytes(file, toNumber(offsets, 0), toNumber(offsets, 8))
+  );
+  return getMessages(requireMessage(descriptor, 1), 1).map((field) => ({
+    name: getString(field, 2),
+    logicalType: getString(field, 5),
+  }));
+};
+
+const readColumnPages = async (
+  file: Blob,
+  view: DataView,
+  column: number
+): Promise<LancePage[]> => {
+  const columnMetaOffsetsStart = toNumber(view, 8);
+  const offsets = new DataView(
+    (await readBytes(file, columnMetaOffsetsStart + column * 16, 16)).buffer
+  );
+  const metadata = decodeMessage(
+    await readBytes(file, toNumber(offsets, 0), toNumber(offsets, 8))
+  );
+
+  return Promise.all(
+    getMessages(metadata, 2).map(async (page) => {
+      const bufferOffsets = getVarints(page, 1);
+      const bufferSizes = getVarints(page, 2);
+      return {
+        buffers: await Promise.all(
+          bufferOffsets.map((offset, index) =>
+            readBytes(file, offset, bufferSizes[index])
+          )
+        ),
+        length: getVarint(page, 3) ?? 0,
+        encoding: unwrapEncoding(requireMessage(page, 4)),
+      };
+    })
+  );
+};
+
+const readColumn = async <T>(
+  file: Blob,
+  view: DataView,
+  column: number,
+  decode: (encoding: ProtoMessage, buffers: Uint8Array[], length: number) => T[]
+) => {
+  const pages = await readColumnPages(file, view, column);
+  return pages.flatMap(({ encoding, buffers, length }) =>
+    decodeNullable(encoding, buffers, length, decode)
+  );
+};
+
+// Reads the id and vector columns of one Lance data file
+export const readLanceVectors = async (
+  file: Blob,
+  idColumn = "id",
+  vectorColumn = "vector"
+): Promise<VectorRecord[]> => {
+  if (file.size < FOOTER_SIZE) {
+    throw new Error("File is too small to be a Lance file");
+  }
+  const footer = await readBytes(file, file.size - FOOTER_SIZE, FOOTER_SIZE);
+  const view = new DataView(footer.buffer);
+  if (new TextDecoder().decode(footer.subarray(36)) !== MAGIC) {
+    throw new Error("Not a Lance file");
+  }
+  const majorVersion = view.getUint16(32, true);
+  const minorVersion = view.getUint16(34, true);
+  // v2.0 files are written with version 0.3
+  if (majorVersion !== 0 || minorVersion !== 3) {
+    throw new Error(
+      `Lance file version ${majorVersion}.${minorVersion} is not supported`
+    );
+  }
+
+  const fields = await readSchema(file, view);
+  const idIndex = fields.findIndex(({ name }) => name === idColumn);
+  const vectorIndex = fields.findIndex(({ name }) => name === vectorColumn);
+  if (idIndex === -1 || vectorIndex === -1) {
+    throw new Error(
+      `Lance file has no ${idColumn} and ${vectorColumn} columns`
+    );
+  }
+  // e.g. "fixed_size_list:float:1536"
+  const [, valueType] = fields[vectorIndex].logicalType.split(":");
+  if (valueType !== "float" && valueType !== "double") {
+    throw new Error(
+      `Unsupported vector type ${fields[vectorIndex].logicalType}`
+    );
+  }
+
+  const ids = await readColumn(file, view, idIndex, decodeStrings);
+  const vectors = await readColumn(
+    file,
+    view,
+    vectorIndex,
+    decodeVectors(valueType === "double" ? 64 : 32)
+  );
+  return ids.flatMap((id, index) => {
+    const vector = vectors[index];
+    return id !== null && vector ? [{ id, vector }] : [];
+  });
+};
@@ -0,0 +1,127 @@
+import { Community } from "../models/community";
+import { CommunityReport } from "../models/community-report";
+import { Entity } from "../models/entity";
+import { IndexArtifacts } from "../models/index-artifacts";
+import { Relationship } from "../models/relationship";
+import { TextUnit } from "../models/text-unit";
+import { buildLocalSearchContext, matchEntities } from "./local-context";
+
+const entity = (id: string, title: string, description = ""): Entity =>
+  ({
+    id,
+    human_readable_id: Number(id.slice(1)),
+    title,
+    type: "PERSON",
+    description,
+    text_unit_ids: ["t1"],
+  }) as Entity;
+
+const alice = entity("e1", "ALICE", "Leads the research team");
+const bob = entity("e2", "BOB", "Works with Alice");
+const carol = entity("e3", "CAROL", "Runs the lab");
+
+// GraphRAG 2.x: communities have a UUID id and a separate community number,
+// which is what reports refer to
+const community = (
+  id: string,
+  number: number,
+  entityIds: string[]
+): Community =>
+  ({
+    id: id as unknown as number,
+    community: number,
+    level: 0,
+    title: `Community ${number}`,
+    entity_ids: entityIds,
+  }) as Community;
+
+const report = (number: number, rank: number): CommunityReport =>
+  ({
+    community: number,
+    title: `Report ${number}`,
+    full_content: `Content of community ${number}`,
+    rank,
+  }) as CommunityReport;
+
+const artifacts = (parts: Partial<IndexArtifacts> = {}): IndexArtifacts => ({
+  entities: [alice, bob, carol],
+  relationships: [
+    {
+      id: "r1",
+      human_readable_id: 1,
+      source: "ALICE",
+      target: "BOB",
+      description: "colleagues",
+      weight: 1,
+      combined_degree: 2,
+      text_unit_ids: ["t1"],
+    } as Relationship,
+  ],
+  documents: [],
+  textunits: [
+    { id: "t1", human_readable_id: 1, text: "Alice and Bob" } as TextUnit,
+  ],
+  communities: [
+    community("9b2f0c1e-uuid-a", 3, ["e1", "e2"]),
+    community("4d7e2a90-uuid-b", 7, ["e3"]),
+  ],
+  communityReports: [report(3, 5), report(7, 9)],
+  covariates: [],
+  nodes: [],
+  graphragVersion: "2.x",
+  ...parts,
+});
+
+// Context tables by name, as the local search builds them
+const contextTables = (artifacts: IndexArtifacts, seeds: Entity[]) =>
+  buildLocalSearchContext(artifacts, seeds).context_data as Record<
+    string,
+    Record<string, any>[]
+  >;
+
+describe("matchEntities", () => {
+  it("ranks title matches above description matches", () => {
+    expect(
+      matchEntities(artifacts().entities, [], "alice", 10).map(
+        (match) => match.title
+      )
+    ).toEqual(["ALICE", "BOB"]);
+  });
+});
+
+describe("buildLocalSearchContext", () => {
+  it("joins 2.x communities to reports by community number", () => {
+    const tables = contextTables(artifacts(), [alice]);
+
+    expect(tables.reports).toEqual([
+      { id: "3", title: "Report 3", content: "Content of community 3" },
+    ]);
+  });
+
+  it("orders reports by how many selected entities they cover", () => {
+    const tables = contextTables(artifacts(), [alice, bob, carol]);
+
+    expect(tables.reports.map((row) => row.id)).toEqual(["3", "7"]);
+  });
+
+  it("falls back to the node table for membership", () => {
+    const tables = contextTables(
+      artifacts({
+        communities: [],
+        nodes: [{ id: "e3", community: 7 }] as IndexArtifacts["nodes"],
+      }),
+      [carol]
+    );
+
+    expect(tables.reports.map((row) => row.id)).toEqual(["7"]);
+  });
+
+  it("includes the relationships and sources of the selected entities", () => {
+    const tables = contextTables(artifacts(), [alice, bob]);
+
+    expect(tables.relationships).toEqual([
+      expect.objectContaining({ source: "ALICE", target: "BOB" }),
+    ]);
+    expect(tables.sources).toEqual([{ id: 1, text: "Alice and Bob" }]);
+  });
+});
@@ -0,0 +1,385 @@
+import { Entity } from "../models/entity";
+import { IndexArtifacts } from "../models/index-artifacts";
+import { Relationship } from "../models/relationship";
+import { SearchResult } from "../models/search-result";
+
+// Mirrors the defaults of GraphRAG's LocalSearchMixedContext
+export interface LocalContextOptions {
+  maxTokens: number;
+  textUnitProp: number;
+  communityProp: number;
+  topKEntities: number;
+  topKRelationships: number;
+}
+
+export const defaultLocalContextOptions: LocalContextOptions = {
+  maxTokens: 12000,
+  textUnitProp: 0.5,
+  communityProp: 0.1,
+  topKEntities: 10,
+  topKRelationships: 10,
+};
+
+type ContextRow = Record<string, string | number>;
+
+interface ContextTable {
+  name: string;
+  rows: ContextRow[];
+  text: string;
+  tokens: number;
+}
+
+// Rough tiktoken stand-in; text units carry their real n_tokens
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+const COLUMN_DELIMITER = "|";
+
+const formatRow = (row: ContextRow) =>
+  Object.values(row)
+    .map((value) => String(value ?? "").replace(/\n/g, " "))
+    .join(COLUMN_DELIMITER);
+
+// Adds rows in order until the next one would exceed the token budget, the
+// way GraphRAG builds each "-----Name-----" section of the prompt
+const buildTable = (
+  name: string,
+  header: string[],
+  rows: ContextRow[],
+  budget: number,
+  rowTokens: (row: ContextRow, index: number) => number = (row) =>
+    estimateTokens(formatRow(row))
+): ContextTable => {
+  const headerText = `-----${name}-----\n${header.join(COLUMN_DELIMITER)}`;
+  let tokens = estimateTokens(headerText);
+  const included: ContextRow[] = [];
+  for (let index = 0; index < rows.length; index++) {
+    const cost = rowTokens(rows[index], index);
+    if (tokens + cost > budget) break;
+    tokens += cost;
+    included.push(rows[index]);
+  }
+  return {
+    name: name.toLowerCase(),
+    rows: included,
+    text: [headerText, ...included.map(formatRow)].join("\n"),
+    tokens,
+  };
+};
+
+const getDegrees = (relationships: Relationship[]) => {
+  const degrees = new Map<string, number>();
+  relationships.forEach(({ source, target }) => {
+    degrees.set(source, (degrees.get(source) ?? 0) + 1);
+    degrees.set(target, (degrees.get(target) ?? 0) + 1);
+  });
+  return degrees;
+};
+
+// Offline replacement for mapping the query to entities by embedding: rank
+// entities by how many query terms appear in their title and description
+export const matchEntities = (
+  entities: Entity[],
+  relationships: Relationship[],
+  query: string,
+  topK: number
+): Entity[] => {
+  const text = query.toLowerCase();
+  const terms = Array.from(
+    new Set(text.split(/[^\p{L}\p{N}]+/u).filter((term) => term.length > 2))
+  );
+  const degrees = getDegrees(relationships);
+
+  return entities
+    .map((entity) => {
+      const title = entity.title.toLowerCase();
+      const description = (entity.description ?? "").toLowerCase();
+      const score =
+        (text.includes(title) ? 5 : 0) +
+        terms.reduce(
+          (sum, term) =>
+            sum +
+            (title.includes(term) ? 2 : 0) +
+            (description.includes(term) ? 1 : 0),
+          0
+        );
+      return { entity, score };
+    })
+    .filter(({ score }) => score > 0)
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        (degrees.get(b.entity.title) ?? 0) - (degrees.get(a.entity.title) ?? 0)
+    )
+    .slice(0, topK)
+    .map(({ entity }) => entity);
+};
+
+const buildCommunityContext = (
+  { communities, communityReports, nodes }: IndexArtifacts,
+  selected: Entity[],
+  budget: number
+) => {
+  // Community membership comes from communities.entity_ids when present and
+  // from the per-level node table otherwise. Both are keyed by the community
+  // number reports refer to; 1.x and later give communities a UUID id as well.
+  const membership = new Map<string, Set<string>>();
+  const addMember = (entityId: string, community: string) =>
+    membership.set(
+      entityId,
+      (membership.get(entityId) ?? new Set()).add(community)
+    );
+  communities.forEach((community) =>
+    (community.entity_ids ?? []).forEach((entityId) =>
+      addMember(entityId, (community.community ?? community.id).toString())
+    )
+  );
+  nodes.forEach((node) => {
+    if (node.community !== null && node.community !== undefined) {
+      addMember(node.id, node.community.toString());
+    }
+  });
+
+  const matches = new Map<string, number>();
+  selected.forEach((entity) =>
+    membership
+      .get(entity.id)
+      ?.forEach((community) =>
+        matches.set(community, (matches.get(community) ?? 0) + 1)
+      )
+  );
+
+  const reports = communityReports
+    .filter((report) => matches.has(report.community.toString()))
+    .sort(
+      (a, b) =>
+        matches.get(b.community.toString())! -
+          matches.get(a.community.toString())! || (b.rank ?? 0) - (a.rank ?? 0)
+    );
+
+  return buildTable(
+    "Reports",
+    ["id", "title", "content"],
+    reports.map((report) => ({
+      id: report.community.toString(),
+      title: report.title,
+      content: report.full_content,
+    })),
+    budget
+  );
+};
+
+const filterRelationships = (
+  selected: Entity[],
+  relationships: Relationship[],
+  topK: number
+) => {
+  const names = new Set(selected.map((entity) => entity.title));
+  const inNetwork = relationships
+    .filter(({ source, target }) => names.has(source) && names.has(target))
+    .sort((a, b) => (b.combined_degree ?? 0) - (a.combined_degree ?? 0));
+
+  // Out-of-network relationships that reach entities linked to several
+  // selected entities come first
+  const outNetwork = relationships.filter(
+    ({ source, target }) => names.has(source) !== names.has(target)
+  );
+  const outsideLinks = new Map<string, number>();
+  outNetwork.forEach(({ source, target }) => {
+    const outside = names.has(source) ? target : source;
+    outsideLinks.set(outside, (outsideLinks.get(outside) ?? 0) + 1);
+  });
+  const links = (relationship: Relationship) =>
+    outsideLinks.get(
+      names.has(relationship.source) ? relationship.target : relationship.source
+    ) ?? 0;
+  outNetwork.sort(
+    (a, b) =>
+      links(b) - links(a) || (b.combined_degree ?? 0) - (a.combined_degree ?? 0)
+  );
+
+  return [
+    ...inNetwork.map((relationship) => ({ relationship, links: 0 })),
+    ...outNetwork
+      .slice(0, topK * selected.length)
+      .map((relationship) => ({ relationship, links: links(relationship) })),
+  ];
+};
+
+const buildLocalTables = (
+  { relationships, covariates }: IndexArtifacts,
+  selected: Entity[],
+  added: Entity[],
+  budget: number,
+  topKRelationships: number
+) => {
+  const degrees = getDegrees(relationships);
+  const entities = buildTable(
+    "Entities",
+    ["id", "entity", "description", "number of relationships"],
+    selected.map((entity) => ({
+      id: entity.human_readable_id,
+      entity: entity.title,
+      description: entity.description,
+      "number of relationships": degrees.get(entity.title) ?? 0,
+    })),
+    budget
+  );
+  const relationshipTable = buildTable(
+    "Relationships",
+    ["id", "source", "target", "description", "weight", "links"],
+    filterRelationships(added, relationships, topKRelationships).map(
+      ({ relationship, links }) => ({
+        id: relationship.human_readable_id,
+        source: relationship.source,
+        target: relationship.target,
+        description: relationship.description,
+        weight: relationship.weight,
+        links,
+      })
+    ),
+    budget
+  );
+  const names = new Set(added.map((entity) => entity.title));
+  const claims = buildTable(
+    "Claims",
+    [
+      "id",
+      "entity",
+      "object_id",
+      "status",
+      "start_date",
+      "end_date",
+      "description",
+    ],
+    covariates
+      .filter((covariate) => names.has(covariate.subject_id))
+      .map((covariate) => ({
+        id: covariate.human_readable_id,
+        entity: covariate.subject_id,
+        object_id: covariate.object_id,
+        status: covariate.status,
+        start_date: covariate.start_date,
+        end_date: covariate.end_date,
+        description: covariate.description,
+      })),
+    budget
+  );
+  return [entities, relationshipTable, claims];
+};
+
+const buildLocalContext = (
+  artifacts: IndexArtifacts,
+  selected: Entity[],
+  budget: number,
+  topKRelationships: number
+) => {
+  // Grow the set of entities whose relationships and claims are included
+  // until the tables no longer fit, keeping the last set that did
+  let tables = buildLocalTables(
+    artifacts,
+    selected,
+    [],
+    budget,
+    topKRelationships
+  );
+  for (let count = 1; count <= selected.length; count++) {
+    const candidate = buildLocalTables(
+      artifacts,
+      selected,
+      selected.slice(0, count),
+      budget,
+      topKRelationships
+    );
+    if (candidate.reduce((sum, { tokens }) => sum + tokens, 0) > budget) break;
+    tables = candidate;
+  }
+  return tables;
+};
+
+const buildTextUnitContext = (
+  { textunits, relationships }: IndexArtifacts,
+  selected: Entity[],
+  budget: number
+) => {
+  const textUnitsById = new Map(textunits.map((unit) => [unit.id, unit]));
+  const seen = new Set<string>();
+  const candidates: { id: string; order: number; relationships: number }[] = [];
+
+  // Text units of earlier entities first, then those backing more of the
+  // entity's relationships
+  selected.forEach((entity, order) => {
+    const entityRelationships = relationships.filter(
+      ({ source, target }) => source === entity.title || target === entity.title
+    );
+    (entity.text_unit_ids ?? []).forEach((id) => {
+      if (seen.has(id) || !textUnitsById.has(id)) return;
+      seen.add(id);
+      candidates.push({
+        id,
+        order,
+        relationships: entityRelationships.filter((relationship) =>
+          (relationship.text_unit_ids ?? []).includes(id)
+        ).length,
+      });
+    });
+  });
+  candidates.sort(
+    (a, b) => a.order - b.order || b.relationships - a.relationships
+  );
+
+  const units = candidates.map(({ id }) => textUnitsById.get(id)!);
+  return buildTable(
+    "Sources",
+    ["id", "text"],
+    units.map((unit) => ({ id: unit.human_readable_id, text: unit.text })),
+    budget,
+    (row, index) =>
+      (units[index].n_tokens || estimateTokens(String(row.text))) +
+      estimateTokens(String(row.id)) +
+      1
+  );
+};
+
+// Assembles the context tables GraphRAG local search would send to the LLM,
+// in the shape of an API SearchResult
+export const buildLocalSearchContext = (
+  artifacts: IndexArtifacts,
+  seeds: Entity[],
+  options: LocalContextOptions = defaultLocalContextOptions
+): SearchResult => {
+  const start = performance.now();
+  const { maxTokens, textUnitProp, communityProp, topKRelationships } = options;
+
+  const reports = buildCommunityContext(
+    artifacts,
+    seeds,
+    maxTokens * communityProp
+  );
+  const localTables = buildLocalContext(
+    artifacts,
+    seeds,
+    maxTokens * (1 - communityProp - textUnitProp),
+    topKRelationships
+  );
+  const sources = buildTextUnitContext(
+    artifacts,
+    seeds,
+    maxTokens * textUnitProp
+  );
+
+  const tables = [reports, ...localTables, sources].filter(
+    ({ rows }) => rows.length > 0
+  );
+  return {
+    response: `Context assembled offline for ${seeds
+      .map((entity) => entity.title)
+      .join(", ")}`,
+    context_data: Object.fromEntries(
+      tables.map(({ name, rows }) => [name, rows])
+    ),
+    context_text: tables.map(({ text }) => text).join("\n\n"),
+    completion_time: Math.round(performance.now() - start),
+    llm_calls: 0,
+    prompt_tokens: tables.reduce((sum, { tokens }) => sum + tokens, 0),
+  };
+};
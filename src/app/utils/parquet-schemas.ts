@@ -0,0 +1,151 @@
+import { Entity } from "../models/entity";
+import { Relationship } from "../models/relationship";
+import { Document } from "../models/document";
+import { TextUnit } from "../models/text-unit";
+import { Community } from "../models/community";
+import { CommunityReport, Finding } from "../models/community-report";
+import { Covariate } from "../models/covariate";
+import { Node } from "../models/node";
+
+export interface ColumnSpec {
+  column?: string; // parquet column name, defaults to the model field name
+  required?: boolean; // the whole file is rejected when it lacks the column
+  optional?: boolean; // not reported when missing
+  parse?: (value: any) => any;
+  fallback?: any; // value used when the column is absent from the file
+}
+
+export type SchemaSpec<T> = { [K in keyof T]-?: ColumnSpec };
+
+export const parseValue = (value: any, type: "number" | "bigint"): any => {
+  if (typeof value === "string" && value.endsWith("n")) {
+    return BigInt(value.slice(0, -1));
+  }
+  return type === "bigint" ? BigInt(value) : Number(value);
+};
+
+export const toNumber = (value: any) =>
+  value === null || value === undefined ? value : parseValue(value, "number");
+
+const toFindings = (value: any): Finding[] =>
+  Array.isArray(value)
+    ? value.map((finding: any) => ({
+        explanation: finding?.explanation,
+        summary: finding?.summary,
+      }))
+    : [];
+
+// Embeddings come back as arrays of (possibly bigint-encoded) numbers
+const toVector = (value: any): number[] | undefined =>
+  Array.isArray(value) || ArrayBuffer.isView(value)
+    ? Array.from(value as ArrayLike<any>, Number)
+    : undefined;
+
+const entitySchema: SchemaSpec<Entity> = {
+  id: { required: true },
+  human_readable_id: { parse: toNumber },
+  title: { required: true },
+  type: {},
+  description: {},
+  text_unit_ids: {},
+  description_embedding: { optional: true, parse: toVector },
+  graph_embedding: { optional: true, parse: toVector },
+};
+
+const relationshipSchema: SchemaSpec<Relationship> = {
+  id: { required: true },
+  human_readable_id: { parse: toNumber },
+  source: { required: true },
+  target: { required: true },
+  description: {},
+  weight: { parse: toNumber },
+  combined_degree: { parse: toNumber },
+  text_unit_ids: {},
+  type: { optional: true, fallback: "RELATED" }, // Custom field to match neo4j
+};
+
+const documentSchema: SchemaSpec<Document> = {
+  id: { required: true },
+  human_readable_id: { parse: toNumber },
+  title: {},
+  text: {},
+  text_unit_ids: {},
+};
+
+const textUnitSchema: SchemaSpec<TextUnit> = {
+  id: { required: true },
+  human_readable_id: { parse: toNumber },
+  text: {},
+  n_tokens: { parse: toNumber },
+  document_ids: {},
+  entity_ids: {},
+  relationship_ids: {},
+  text_embedding: { optional: true, parse: toVector },
+};
+
+const communitySchema: SchemaSpec<Community> = {
+  id: { required: true },
+  human_readable_id: { parse: toNumber },
+  community: { parse: toNumber },
+  parent: { optional: true, parse: toNumber },
+  level: { parse: toNumber },
+  title: {},
+  entity_ids: {},
+  relationship_ids: {},
+  text_unit_ids: {},
+  period: {},
+  size: { parse: toNumber },
+};
+
+const communityReportSchema: SchemaSpec<CommunityReport> = {
+  id: { required: true },
+  human_readable_id: { parse: toNumber },
+  community: { required: true, parse: toNumber },
+  level: { parse: toNumber },
+  title: {},
+  summary: {},
+  full_content: {},
+  rank: { parse: toNumber },
+  rank_explanation: {},
+  findings: { parse: toFindings, fallback: [] },
+  full_content_json: {},
+  period: {},
+  size: { parse: toNumber },
+};
+
+const covariateSchema: SchemaSpec<Covariate> = {
+  id: { required: true },
+  human_readable_id: { parse: toNumber },
+  covariate_type: {},
+  type: {},
+  description: {},
+  subject_id: {},
+  object_id: {},
+  status: {},
+  start_date: {},
+  end_date: {},
+  source_text: {},
+  text_unit_id: {},
+};
+
+const nodeSchema: SchemaSpec<Node> = {
+  id: { required: true },
+  human_readable_id: { parse: toNumber },
+  title: {},
+  community: { parse: toNumber },
+  level: { required: true, parse: toNumber },
+  degree: { parse: toNumber },
+  x: { parse: toNumber },
+  y: { parse: toNumber },
+};
+
+export const schemaSpecs: { [schema: string]: SchemaSpec<any> } = {
+  entity: entitySchema,
+  relationship: relationshipSchema,
+  document: documentSchema,
+  text_unit: textUnitSchema,
+  community: communitySchema,
+  community_report: communityReportSchema,
+  covariate: covariateSchema,
+  node: nodeSchema,
+};
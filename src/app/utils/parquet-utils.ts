@@ -1,151 +1,166 @@
-import { parquetRead, ParquetReadOptions } from "hyparquet";
+import {
+  FileMetaData,
+  parquetMetadataAsync,
+  parquetRead,
+  parquetSchema,
+  ParquetReadOptions,
+} from "hyparquet";
+import { SchemaSpec } from "./parquet-schemas";
+import { getSchemaSpec, GraphRAGVersion } from "./graphrag-versions";
 
+// Reads byte ranges straight from the Blob so large files never sit in memory
 export class AsyncBuffer {
-  private buffer: ArrayBuffer;
+  private blob: Blob;
 
-  constructor(buffer: ArrayBuffer) {
-    this.buffer = buffer;
+  constructor(blob: Blob) {
+    this.blob = blob;
   }
 
-  async slice(start: number, end: number): Promise<ArrayBuffer> {
-    return this.buffer.slice(start, end);
+  async slice(start: number, end?: number): Promise<ArrayBuffer> {
+    return this.blob.slice(start, end).arrayBuffer();
   }
 
   get byteLength() {
-    return this.buffer.byteLength;
+    return this.blob.size;
   }
 }
 
-const parseValue = (value: any, type: "number" | "bigint"): any => {
-  if (typeof value === "string" && value.endsWith("n")) {
-    return BigInt(value.slice(0, -1));
-  }
-  return type === "bigint" ? BigInt(value) : Number(value);
+export interface ColumnReport {
+  schema: string;
+  missing: string[];
+  missingRequired: string[];
+  extra: string[];
+}
+
+// Pandas writes its index as "__index_level_0__"; it is never part of a model.
+const isInternalColumn = (column: string) => column.startsWith("__");
+
+export const getColumnNames = (metadata: FileMetaData): string[] =>
+  parquetSchema(metadata).children.map(
+    (child: { element: { name: string } }) => child.element.name
+  );
+
+export const readParquetColumns = async (
+  file: File | Blob
+): Promise<string[]> => {
+  const metadata = await parquetMetadataAsync(new AsyncBuffer(file));
+  return getColumnNames(metadata);
 };
 
-export const readParquetFile = async (
+export const checkColumns = (
+  columns: string[],
+  schema: string,
+  version?: GraphRAGVersion
+): ColumnReport => {
+  const spec = getSchemaSpec(schema, version) ?? {};
+  const expected = Object.entries(spec).map(
+    ([field, columnSpec]) => [columnSpec.column ?? field, columnSpec] as const
+  );
+  const present = new Set(columns);
+  const known = new Set(expected.map(([column]) => column));
+
+  return {
+    schema,
+    missing: expected
+      .filter(
+        ([column, columnSpec]) => !columnSpec.optional && !present.has(column)
+      )
+      .map(([column]) => column),
+    missingRequired: expected
+      .filter(
+        ([column, columnSpec]) => columnSpec.required && !present.has(column)
+      )
+      .map(([column]) => column),
+    extra: columns.filter(
+      (column) => !known.has(column) && !isInternalColumn(column)
+    ),
+  };
+};
+
+const mapRow = (
+  record: { [column: string]: any },
+  spec: SchemaSpec<any>
+): { [field: string]: any } =>
+  Object.fromEntries(
+    Object.entries(spec).map(([field, columnSpec]) => {
+      const column = columnSpec.column ?? field;
+      if (!(column in record)) {
+        return [field, columnSpec.fallback];
+      }
+      const value = record[column];
+      return [field, columnSpec.parse ? columnSpec.parse(value) : value];
+    })
+  );
+
+export const readParquetRowGroups = async (
   file: File | Blob,
-  schema?: string
-): Promise<any[]> => {
-  try {
-    const arrayBuffer = await file.arrayBuffer();
-    const asyncBuffer = new AsyncBuffer(arrayBuffer);
+  schema: string | undefined,
+  version: GraphRAGVersion | undefined,
+  onBatch: (rows: any[], rowsRead: number, totalRows: number) => void,
+  onWarning: (message: string) => void = console.warn
+): Promise<void> => {
+  const fileName =
+    file instanceof File ? file.name : (schema ?? "parquet file");
+  const asyncBuffer = new AsyncBuffer(file);
+  const metadata = await parquetMetadataAsync(asyncBuffer);
+  const columns = getColumnNames(metadata);
+  const spec = schema ? getSchemaSpec(schema, version) : undefined;
 
-    return new Promise((resolve, reject) => {
+  if (schema && spec) {
+    const report = checkColumns(columns, schema, version);
+    if (report.missingRequired.length > 0) {
+      throw new Error(
+        `${fileName} is missing required ${schema} columns: ${report.missingRequired.join(", ")}`
+      );
+    }
+    if (report.missing.length > 0) {
+      onWarning(
+        `${fileName} is missing ${schema} columns: ${report.missing.join(", ")}`
+      );
+    }
+    if (report.extra.length > 0) {
+      onWarning(
+        `${fileName} has unknown ${schema} columns: ${report.extra.join(", ")}`
+      );
+    }
+  }
+
+  const totalRows = Number(metadata.num_rows);
+  let rowsRead = 0;
+  for (const rowGroup of metadata.row_groups) {
+    // Hand hyparquet a single row group so it only fetches that byte range
+    const rows = await new Promise<any[][]>((resolve, reject) => {
       const options: ParquetReadOptions = {
         file: asyncBuffer,
-        onComplete: (rows: any[][]) => {
-          if (schema === "entity") {
-            resolve(
-              rows.map((row) => ({
-                id: row[0],
-                human_readable_id: parseValue(row[1], "number"),
-                title: row[2],
-                type: row[3],
-                description: row[4],                                
-                text_unit_ids: row[5],                
-              }))
-            );
-          } else if (schema === "relationship") {
-            resolve(
-              rows.map((row) => ({
-                id: row[0],
-                human_readable_id: parseValue(row[1], "number"),
-                source: row[2],
-                target: row[3],
-                description: row[4],
-                weight: row[5],
-                combined_degree: parseValue(row[6], "number"),
-                text_unit_ids: row[7],
-                type: "RELATED", // Custom field to match neo4j                
-              }))
-            );
-          } else if (schema === "document") {
-            resolve(
-              rows.map((row) => ({
-                id: row[0],
-                human_readable_id: parseValue(row[1], "number"),
-                title: row[2],
-                text: row[3],
-                text_unit_ids: row[4],                
-              }))
-            );
-          } else if (schema === "text_unit") {
-            resolve(
-              rows.map((row) => ({
-                id: row[0],
-                human_readable_id: parseValue(row[1], "number"),
-                text: row[2],
-                n_tokens: parseValue(row[3], "number"),
-                document_ids: row[4],
-                entity_ids: row[5],
-                relationship_ids: row[6],
-              }))
-            );
-          } else if (schema === "community") {
-            resolve(
-              rows.map((row) => ({
-                id: row[0],
-                human_readable_id: parseValue(row[1], "number"),
-                community: parseValue(row[2], "number"),
-                level: parseValue(row[3], "number"),
-                title: row[4],
-                entity_ids: row[5],
-                relationship_ids: row[6],
-                text_unit_ids: row[7],
-                period: row[8],
-                size: parseValue(row[9], "number"),
-              }))
-            );
-          } else if (schema === "community_report") {
-            resolve(
-              rows.map((row) => ({
-                id: row[0],
-                human_readable_id: parseValue(row[1], "number"),
-                community: parseValue(row[2], "number"),
-                level: parseValue(row[3], "number"),
-                title: row[4],
-                summary: row[5],
-                full_content: row[6],
-                rank: parseValue(row[7], "number"),                
-                rank_explanation: row[8],                
-                findings: row[9].map((finding: any) => ({
-                  explanation: finding.explanation,
-                  summary: finding.summary,
-                })),
-                full_content_json: row[10],  
-                period: row[11],
-                size: parseValue(row[12], "number"),              
-              }))
-            );
-          } else if (schema === "covariate") {
-            resolve(
-              rows.map((row) => ({
-                id: row[0],
-                human_readable_id: parseValue(row[1], "number"),
-                covariate_type: row[2],
-                type: row[3],
-                description: row[4],
-                subject_id: row[5],                
-                object_id: row[6],                
-                status: row[7],
-                start_date: row[8],
-                end_date: row[9],
-                source_text: row[10],
-                text_unit_id: row[11],                
-              }))
-            );
-          } else {
-            resolve(
-              rows.map((row) =>
-                Object.fromEntries(row.map((value, index) => [index, value]))
-              )
-            );
-          }
-        },
+        metadata: { ...metadata, row_groups: [rowGroup] },
+        onComplete: resolve,
       };
       parquetRead(options).catch(reject);
     });
+
+    const records = rows.map((row) =>
+      Object.fromEntries(columns.map((column, index) => [column, row[index]]))
+    );
+    rowsRead += rows.length;
+    onBatch(
+      spec ? records.map((record) => mapRow(record, spec)) : records,
+      rowsRead,
+      totalRows
+    );
+  }
+};
+
+export const readParquetFile = async (
+  file: File | Blob,
+  schema?: string,
+  version?: GraphRAGVersion
+): Promise<any[]> => {
+  try {
+    const rows: any[] = [];
+    await readParquetRowGroups(file, schema, version, (batch) => {
+      for (const row of batch) rows.push(row);
+    });
+    return rows;
   } catch (err) {
     console.error("Error reading Parquet file", err);
     return [];
@@ -0,0 +1,77 @@
+import type { ParquetWorkerResponse } from "../workers/parquet.worker";
+import { GraphRAGVersion } from "./graphrag-versions";
+
+export interface ParquetProgress {
+  rowsRead: number;
+  totalRows: number;
+}
+
+// A problem with one of the loaded files, shown once loading finishes
+export interface LoadIssue {
+  fileName: string;
+  severity: "error" | "warning";
+  message: string;
+}
+
+export const isAbortError = (err: unknown) =>
+  err instanceof DOMException && err.name === "AbortError";
+
+// Decodes one parquet file off the main thread, one row group per batch.
+// Aborting the signal terminates the worker and rejects with an AbortError.
+export const readParquetFileInWorker = (
+  file: File,
+  schema: string | undefined,
+  version: GraphRAGVersion | undefined,
+  onProgress?: (progress: ParquetProgress) => void,
+  signal?: AbortSignal,
+  onWarning?: (message: string) => void
+): Promise<any[]> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException("Parquet read cancelled", "AbortError"));
+      return;
+    }
+
+    const worker = new Worker(
+      new URL("../workers/parquet.worker.ts", import.meta.url)
+    );
+    const rows: any[] = [];
+
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener("abort", handleAbort);
+    };
+
+    const handleAbort = () => {
+      finish();
+      reject(new DOMException("Parquet read cancelled", "AbortError"));
+    };
+
+    signal?.addEventListener("abort", handleAbort);
+
+    worker.onmessage = (event: MessageEvent<ParquetWorkerResponse>) => {
+      const message = event.data;
+      if (message.type === "batch") {
+        for (const row of message.rows) rows.push(row);
+        onProgress?.({
+          rowsRead: message.rowsRead,
+          totalRows: message.totalRows,
+        });
+      } else if (message.type === "warning") {
+        onWarning?.(message.message);
+      } else if (message.type === "done") {
+        finish();
+        resolve(rows);
+      } else {
+        finish();
+        reject(new Error(message.message));
+      }
+    };
+
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(event.message));
+    };
+
+    worker.postMessage({ file, schema, version });
+  });
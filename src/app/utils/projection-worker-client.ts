@@ -0,0 +1,69 @@
+import type {
+  ProjectionMethod,
+  ProjectionWorkerResponse,
+} from "../workers/projection.worker";
+
+export type { ProjectionMethod };
+
+// Exact t-SNE keeps several n×n matrices in memory, so larger sets are
+// projected with another method instead
+export const MAX_TSNE_POINTS = 2500;
+
+// Projects embedding vectors to 2D off the main thread. Aborting the signal
+// terminates the worker and rejects with an AbortError.
+export const projectEmbeddingsInWorker = (
+  vectors: number[][],
+  method: ProjectionMethod,
+  onProgress?: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<[number, number][]> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException("Projection cancelled", "AbortError"));
+      return;
+    }
+    if (method === "tsne" && vectors.length > MAX_TSNE_POINTS) {
+      reject(new Error(`t-SNE is limited to ${MAX_TSNE_POINTS} embeddings`));
+      return;
+    }
+
+    const worker = new Worker(
+      new URL("../workers/projection.worker.ts", import.meta.url)
+    );
+
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener("abort", handleAbort);
+    };
+
+    const handleAbort = () => {
+      finish();
+      reject(new DOMException("Projection cancelled", "AbortError"));
+    };
+
+    signal?.addEventListener("abort", handleAbort);
+
+    worker.onmessage = (event: MessageEvent<ProjectionWorkerResponse>) => {
+      const message = event.data;
+      if (message.type === "progress") {
+        onProgress?.(message.progress);
+      } else if (message.type === "done") {
+        finish();
+        const points: [number, number][] = [];
+        for (let i = 0; i < message.coordinates.length; i += 2) {
+          points.push([message.coordinates[i], message.coordinates[i + 1]]);
+        }
+        resolve(points);
+      } else {
+        finish();
+        reject(new Error(message.message));
+      }
+    };
+
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(event.message));
+    };
+
+    worker.postMessage({ vectors, method });
+  });
@@ -0,0 +1,46 @@
+import { SearchHistoryEntry } from "../models/search-history";
+import {
+  openDatabase,
+  requestToPromise,
+  SEARCH_HISTORY_STORE,
+  transactionDone,
+} from "./workspace-db";
+
+export const listSearchHistory = async (): Promise<SearchHistoryEntry[]> => {
+  const db = await openDatabase();
+  try {
+    const entries = await requestToPromise<SearchHistoryEntry[]>(
+      db
+        .transaction(SEARCH_HISTORY_STORE)
+        .objectStore(SEARCH_HISTORY_STORE)
+        .getAll()
+    );
+    return entries.sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+  } finally {
+    db.close();
+  }
+};
+
+export const putSearchHistoryEntry = async (
+  entry: SearchHistoryEntry
+): Promise<void> => {
+  const db = await openDatabase();
+  try {
+    const transaction = db.transaction(SEARCH_HISTORY_STORE, "readwrite");
+    transaction.objectStore(SEARCH_HISTORY_STORE).put(entry);
+    await transactionDone(transaction);
+  } finally {
+    db.close();
+  }
+};
+
+export const deleteSearchHistoryEntry = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  try {
+    const transaction = db.transaction(SEARCH_HISTORY_STORE, "readwrite");
+    transaction.objectStore(SEARCH_HISTORY_STORE).delete(id);
+    await transactionDone(transaction);
+  } finally {
+    db.close();
+  }
+};
@@ -0,0 +1,115 @@
+import {
+  DriftNode,
+  DriftTree,
+  SearchResult,
+  SearchType,
+} from "../models/search-result";
+
+export const searchTypeLabels: Record<SearchType, string> = {
+  local: "Local Search",
+  global: "Global Search",
+  drift: "DRIFT Search",
+  basic: "Basic Search",
+};
+
+export const searchTypes = Object.keys(searchTypeLabels) as SearchType[];
+
+type ContextRecords = Record<string, Record<string, any>[]>;
+
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+  value !== null && typeof value === "object" && !Array.isArray(value);
+
+export const getContextText = (contextText: SearchResult["context_text"]) =>
+  typeof contextText === "string"
+    ? contextText
+    : Object.values(contextText).join("\n\n");
+
+export const isDriftTree = (value: any): value is DriftTree =>
+  Array.isArray(value?.nodes) && Array.isArray(value?.edges);
+
+// DRIFT keeps the local search context of every query it ran; merge them into
+// one table per name, skipping rows already added for another query
+const mergeContextData = (contexts: unknown[]): ContextRecords => {
+  const merged: ContextRecords = {};
+  const seen = new Map<string, Set<string>>();
+  contexts.filter(isPlainObject).forEach((context) =>
+    Object.entries(context).forEach(([name, rows]) => {
+      if (!Array.isArray(rows)) return;
+      const keys = seen.get(name) ?? new Set<string>();
+      seen.set(name, keys);
+      rows.forEach((row) => {
+        const key = JSON.stringify(row?.id ?? row);
+        if (keys.has(key)) return;
+        keys.add(key);
+        (merged[name] ??= []).push(row);
+      });
+    })
+  );
+  return merged;
+};
+
+export const getDriftHierarchy = ({ nodes, edges }: DriftTree) => {
+  const nodesById = new Map(nodes.map((node) => [node.id, node]));
+  const children = new Map<number, DriftNode[]>();
+  const hasParent = new Set<number>();
+  edges.forEach(({ source, target }) => {
+    const child = nodesById.get(target);
+    if (!child || !nodesById.has(source)) return;
+    hasParent.add(target);
+    const siblings = children.get(source);
+    if (siblings) siblings.push(child);
+    else children.set(source, [child]);
+  });
+  children.forEach((list) =>
+    list.sort((a, b) => (b.score ?? 0) - (a.score ?? 0))
+  );
+  return {
+    roots: nodes.filter((node) => !hasParent.has(node.id)),
+    children,
+  };
+};
+
+// Without a reduce step DRIFT has no single response; the primer's answer is
+// the closest thing to one
+const getDriftAnswer = (tree?: DriftTree) =>
+  tree
+    ? getDriftHierarchy(tree)
+        .roots.map((node) => node.answer)
+        .filter(Boolean)
+        .join("\n\n")
+    : "";
+
+// Brings the results of every search type into the shape the drawer and
+// highlightContextData expect: DRIFT's per-query contexts are flattened into
+// ordinary context tables and its follow-up queries kept as drift_tree
+export const normalizeSearchResult = (
+  result: SearchResult,
+  searchType: SearchType
+): SearchResult => {
+  if (searchType !== "drift") return { ...result, search_type: searchType };
+
+  const raw: any = result;
+  const tree: DriftTree | undefined =
+    result.drift_tree ?? (isDriftTree(raw.response) ? raw.response : undefined);
+  const contextData = raw.context_data;
+  const byQuery =
+    isPlainObject(contextData) &&
+    Object.values(contextData).every(isPlainObject);
+
+  return {
+    ...result,
+    search_type: "drift",
+    response:
+      typeof raw.response === "string" && raw.response
+        ? raw.response
+        : getDriftAnswer(tree),
+    context_data: byQuery
+      ? mergeContextData(Object.values(contextData))
+      : !contextData && tree
+        ? mergeContextData(
+            tree.nodes.map((node) => node.metadata?.context_data)
+          )
+        : result.context_data,
+    drift_tree: tree,
+  };
+};
@@ -0,0 +1,118 @@
+import { CustomNode } from "../models/custom-graph-data";
+
+export type EmbeddingKey =
+  "description_embedding" | "graph_embedding" | "text_embedding";
+
+export const embeddingKeys: EmbeddingKey[] = [
+  "description_embedding",
+  "graph_embedding",
+  "text_embedding",
+];
+
+export interface SimilarityResult {
+  node: CustomNode;
+  score: number;
+}
+
+type EmbeddingAccessor = (node: CustomNode) => number[] | undefined;
+
+// Entity descriptions and text units are embedded with the same model, so
+// they are searched together; node2vec graph embeddings live in their own space
+const getTextEmbedding: EmbeddingAccessor = (node) =>
+  node.description_embedding ?? node.text_embedding;
+
+const getGraphEmbedding: EmbeddingAccessor = (node) => node.graph_embedding;
+
+const norm = (vector: number[]) =>
+  Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+
+const rankBySimilarity = (
+  query: number[],
+  nodes: CustomNode[],
+  k: number,
+  getEmbedding: EmbeddingAccessor,
+  exclude?: CustomNode
+): SimilarityResult[] => {
+  const queryNorm = norm(query);
+  if (queryNorm === 0) return [];
+
+  return nodes
+    .flatMap((node) => {
+      const embedding = getEmbedding(node);
+      if (node.id === exclude?.id || embedding?.length !== query.length) {
+        return [];
+      }
+      const embeddingNorm = norm(embedding);
+      if (embeddingNorm === 0) return [];
+      const dot = embedding.reduce(
+        (sum, value, index) => sum + value * query[index],
+        0
+      );
+      return [{ node, score: dot / (queryNorm * embeddingNorm) }];
+    })
+    .sort((a, b) => b.score - a.score)
+    .slice(0, k);
+};
+
+export const hasEmbedding = (node: CustomNode) =>
+  !!(getTextEmbedding(node) ?? getGraphEmbedding(node))?.length;
+
+// k nearest neighbors of a node by cosine similarity, in the space of the
+// node's text embedding if it has one and of its graph embedding otherwise
+export const findSimilarToNode = (
+  node: CustomNode,
+  nodes: CustomNode[],
+  k: number
+): SimilarityResult[] => {
+  const getEmbedding = getTextEmbedding(node)?.length
+    ? getTextEmbedding
+    : getGraphEmbedding;
+  const query = getEmbedding(node);
+  return query ? rankBySimilarity(query, nodes, k, getEmbedding, node) : [];
+};
+
+// k nearest neighbors of an arbitrary vector among nodes of the same dimension
+export const findSimilarToVector = (
+  vector: number[],
+  nodes: CustomNode[],
+  k: number
+): SimilarityResult[] =>
+  [
+    ...rankBySimilarity(vector, nodes, k, getTextEmbedding),
+    ...rankBySimilarity(vector, nodes, k, getGraphEmbedding),
+  ]
+    .sort((a, b) => b.score - a.score)
+    .filter(
+      (result, index, results) =>
+        results.findIndex(({ node }) => node === result.node) === index
+    )
+    .slice(0, k);
+
+// Accepts a JSON array, an object with an `embedding` or `vector` field (as
+// in OpenAI embedding responses) or plain comma/whitespace separated numbers
+export const parseQueryVector = (input: string): number[] | null => {
+  const text = input.trim();
+  if (!text) return null;
+
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    value = text
+      .split(/[\s,]+/)
+      .filter(Boolean)
+      .map(Number);
+  }
+  const candidate = value as any;
+  const vector = Array.isArray(candidate)
+    ? candidate
+    : (candidate?.embedding ??
+      candidate?.vector ??
+      candidate?.data?.[0]?.embedding);
+
+  return Array.isArray(vector) &&
+    vector.length > 0 &&
+    vector.every((item) => typeof item === "number" && Number.isFinite(item))
+    ? vector
+    : null;
+};
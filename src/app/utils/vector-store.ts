@@ -0,0 +1,91 @@
+import { tableFromIPC } from "apache-arrow";
+import { FileWithPath } from "react-dropzone";
+import { readLanceVectors, VectorRecord } from "./lance-reader";
+
+export type VectorTarget = "entity" | "text_unit";
+
+// Vectors by the id of the entity or text unit they embed
+export type VectorStore = Record<VectorTarget, Map<string, number[]>>;
+
+// GraphRAG names its vector store tables after the embedded field, e.g.
+// "default-entity-description" or "entity_description_embeddings"
+const vectorTables: { pattern: RegExp; target: VectorTarget }[] = [
+  { pattern: /entity[-_.]description/, target: "entity" },
+  { pattern: /text_unit[-_.]text/, target: "text_unit" },
+];
+
+const getTableName = (fileName: string) =>
+  fileName.split("/")[0].replace(/\.(lance|arrow|feather)$/, "");
+
+// Name of a vector store file relative to the store, e.g.
+// "default-entity-description.lance/data/<uuid>.lance", or null for files
+// that aren't table data (manifests, transactions, deletion files, ...)
+export const getVectorStoreFileName = (file: FileWithPath): string | null => {
+  // react-dropzone keeps the relative path of files picked from a folder;
+  // workspace files are saved under the name returned here
+  const path = file.path || file.webkitRelativePath || file.name;
+  const segments = path.split("/").filter(Boolean);
+  const tableIndex = segments.findIndex((segment) =>
+    segment.endsWith(".lance")
+  );
+
+  if (tableIndex !== -1) {
+    const [table, folder, fileName, ...rest] = segments.slice(tableIndex);
+    return folder === "data" && fileName?.endsWith(".lance") && !rest.length
+      ? [table, folder, fileName].join("/")
+      : null;
+  }
+  const fileName = segments[segments.length - 1] ?? "";
+  return /\.(arrow|feather)$/.test(fileName) ? fileName : null;
+};
+
+export const isVectorStoreFile = (file: File) =>
+  getVectorStoreFileName(file) !== null;
+
+const readArrowVectors = async (file: File): Promise<VectorRecord[]> => {
+  const table = tableFromIPC(new Uint8Array(await file.arrayBuffer()));
+  const ids = table.getChild("id");
+  const vectors = table.getChild("vector");
+  if (!ids || !vectors) {
+    throw new Error("Arrow file has no id and vector columns");
+  }
+  return Array.from({ length: table.numRows }, (_, index) => ({
+    id: ids.get(index),
+    vector: Array.from(vectors.get(index)?.toArray() ?? [], Number),
+  })).filter(({ id, vector }) => id !== null && vector.length > 0);
+};
+
+// Reads the entity description and text unit embeddings out of a LanceDB
+// folder (or Arrow exports of its tables). Other tables are skipped.
+export const readVectorStore = async (
+  files: File[],
+  signal?: AbortSignal
+): Promise<VectorStore> => {
+  const store: VectorStore = { entity: new Map(), text_unit: new Map() };
+
+  for (const file of files) {
+    if (signal?.aborted) {
+      throw new DOMException("Loading cancelled", "AbortError");
+    }
+    const fileName = getVectorStoreFileName(file);
+    if (!fileName) continue;
+    const tableName = getTableName(fileName);
+    const target = vectorTables.find(({ pattern }) =>
+      pattern.test(tableName)
+    )?.target;
+    if (!target) {
+      console.log(`Skipping vector store table ${tableName}`);
+      continue;
+    }
+
+    try {
+      const records = fileName.endsWith(".lance")
+        ? await readLanceVectors(file)
+        : await readArrowVectors(file);
+      records.forEach(({ id, vector }) => store[target].set(id, vector));
+    } catch (err) {
+      console.error(`Error reading vector store file ${fileName}`, err);
+    }
+  }
+  return store;
+};
@@ -0,0 +1,121 @@
+import { CustomLink, CustomNode } from "../models/custom-graph-data";
+import {
+  buildLinkColorScale,
+  buildLinkWidthScale,
+  buildNodeColorScale,
+  buildNodeSizeScale,
+  toNodePalette,
+} from "./visual-encoding";
+
+const node = (id: string, parts: Partial<CustomNode> = {}): CustomNode => ({
+  id,
+  uuid: id,
+  name: id,
+  type: "PERSON",
+  ...parts,
+});
+
+const typePalette = (type: string) =>
+  toNodePalette(type === "ORGANIZATION" ? "#ff0000" : "#00ff00");
+
+describe("buildNodeColorScale", () => {
+  it("uses the type palette and lists types alphabetically", () => {
+    const nodes = [
+      node("a", { type: "PERSON" }),
+      node("b", { type: "ORGANIZATION" }),
+      node("c", { type: "PERSON" }),
+      node("d", { type: "" }),
+    ];
+    const scale = buildNodeColorScale(nodes, "type", typePalette);
+
+    expect(scale.categories).toEqual([
+      {
+        key: "ORGANIZATION",
+        label: "ORGANIZATION",
+        color: "#ff0000",
+        count: 1,
+      },
+      { key: "PERSON", label: "PERSON", color: "#00ff00", count: 2 },
+      { key: "none", label: "Unknown", color: "#00ff00", count: 1 },
+    ]);
+    expect(scale.paletteOf(nodes[1]).primary).toBe("#ff0000");
+  });
+
+  it("orders communities by size, listing nodes without one last", () => {
+    const nodes = [
+      node("a", { community: 4 }),
+      node("b", { community: 9 }),
+      node("c", { community: 9 }),
+      node("d"),
+    ];
+    const scale = buildNodeColorScale(nodes, "community", typePalette);
+
+    expect(scale.categories.map(({ label, count }) => [label, count])).toEqual([
+      ["Community 9", 2],
+      ["Community 4", 1],
+      ["None", 1],
+    ]);
+    expect(scale.categoryOf(nodes[3])).toBe("none");
+    expect(scale.paletteOf(nodes[3]).primary).toBe("#9E9E9E");
+  });
+
+  it("bins degrees by quantile and labels the range of each bin", () => {
+    const nodes = [1, 1, 2, 3, 5, 8, 13, 21, 34, 55].map((degree) =>
+      node(`n${degree}`, { degree })
+    );
+    const scale = buildNodeColorScale(nodes, "degree", typePalette);
+
+    expect(scale.categories.map(({ label }) => label)).toEqual([
+      "Degree 1",
+      "Degree 2–3",
+      "Degree 5–8",
+      "Degree 13–21",
+      "Degree 34–55",
+    ]);
+  });
+});
+
+describe("buildNodeSizeScale", () => {
+  it("maps values onto node vals and skips placeholders", () => {
+    const nodes = [
+      node("a", { rank: 1 }),
+      node("b", { rank: 5 }),
+      node("c", { rank: -1 }),
+      node("d"),
+    ];
+    const scale = buildNodeSizeScale(nodes, "rank");
+
+    expect(scale.domain).toEqual([1, 5]);
+    expect(nodes.map(scale.valueOf)).toEqual([1, 9, undefined, undefined]);
+  });
+
+  it("encodes nothing without values", () => {
+    expect(buildNodeSizeScale([node("a")], "n_tokens").domain).toBeNull();
+    expect(buildNodeSizeScale([node("a")], "none").valueOf(node("a"))).toBe(
+      undefined
+    );
+  });
+});
+
+describe("link scales", () => {
+  const links = [
+    { source: "a", target: "b", weight: 2 },
+    { source: "b", target: "c", weight: 10 },
+    { source: "c", target: "a" },
+  ] as CustomLink[];
+
+  it("scales widths over the weight range", () => {
+    const scale = buildLinkWidthScale(links, "weight");
+
+    expect(scale.domain).toEqual([2, 10]);
+    expect(links.map(scale.valueOf)).toEqual([0.4, 4, undefined]);
+  });
+
+  it("colors links along the weight range", () => {
+    const scale = buildLinkColorScale(links, "weight");
+
+    expect(scale.valueOf(links[0])).not.toBe(scale.valueOf(links[1]));
+    expect(scale.valueOf(links[2])).toBeUndefined();
+    expect(buildLinkColorScale(links, "combined_degree").domain).toBeNull();
+  });
+});
@@ -0,0 +1,264 @@
+import * as d3 from "d3";
+import { CustomLink, CustomNode } from "../models/custom-graph-data";
+
+export type NodeColorAttribute = "type" | "community" | "level" | "degree";
+export type NodeSizeAttribute =
+  "none" | "degree" | "rank" | "n_tokens" | "text_units";
+export type LinkAttribute = "none" | "weight" | "combined_degree";
+
+export interface VisualEncoding {
+  nodeColor: NodeColorAttribute;
+  nodeSize: NodeSizeAttribute;
+  linkWidth: LinkAttribute;
+  linkColor: LinkAttribute;
+}
+
+export const defaultVisualEncoding: VisualEncoding = {
+  nodeColor: "type",
+  nodeSize: "none",
+  linkWidth: "none",
+  linkColor: "none",
+};
+
+export interface EncodingOption<T> {
+  value: T;
+  label: string;
+}
+
+export const nodeColorOptions: EncodingOption<NodeColorAttribute>[] = [
+  { value: "type", label: "Type" },
+  { value: "community", label: "Community" },
+  { value: "level", label: "Level" },
+  { value: "degree", label: "Degree" },
+];
+
+export const nodeSizeOptions: EncodingOption<NodeSizeAttribute>[] = [
+  { value: "none", label: "None" },
+  { value: "degree", label: "Degree" },
+  { value: "rank", label: "Rank" },
+  { value: "n_tokens", label: "Tokens" },
+  { value: "text_units", label: "Text Units" },
+];
+
+export const linkOptions: EncodingOption<LinkAttribute>[] = [
+  { value: "none", label: "None" },
+  { value: "weight", label: "Weight" },
+  { value: "combined_degree", label: "Combined Degree" },
+];
+
+// The shades a node is painted with
+export interface NodePalette {
+  primary: string;
+  secondary: string;
+  highlight: string;
+  glow: string;
+}
+
+export interface LegendCategory {
+  key: string;
+  label: string;
+  color: string;
+  count: number;
+}
+
+export interface NodeColorScale {
+  categoryOf: (node: CustomNode) => string;
+  paletteOf: (node: CustomNode) => NodePalette;
+  // The categories in legend order, with how many nodes fall in each
+  categories: LegendCategory[];
+}
+
+const MISSING = "none";
+const MISSING_COLOR = "#9E9E9E";
+const DEGREE_BINS = 5;
+const MAX_NODE_VAL = 9;
+const LINK_WIDTH_RANGE: [number, number] = [0.4, 4];
+
+export const toNodePalette = (color: string): NodePalette => ({
+  primary: color,
+  secondary: d3.color(color)?.darker(0.8).formatHex() ?? color,
+  highlight: d3.color(color)?.brighter(0.4).formatHex() ?? color,
+  glow: d3.interpolateRgb(color, "#ffffff")(0.85),
+});
+
+// Degrees are binned by quantile so that hubs don't squeeze everyone else
+// into a single bin
+const degreeBinOf = (nodes: CustomNode[]) => {
+  const quantile = d3
+    .scaleQuantile<number>()
+    .domain(nodes.map((node) => node.degree ?? 0))
+    .range(d3.range(DEGREE_BINS));
+  return (node: CustomNode) => quantile(node.degree ?? 0).toString();
+};
+
+const getCategoryOf = (
+  nodes: CustomNode[],
+  attribute: NodeColorAttribute
+): ((node: CustomNode) => string) => {
+  switch (attribute) {
+    case "community":
+      return (node) => node.community?.toString() ?? MISSING;
+    case "level":
+      return (node) => node.level?.toString() ?? MISSING;
+    case "degree":
+      return degreeBinOf(nodes);
+    default:
+      return (node) => node.type || MISSING;
+  }
+};
+
+export const buildNodeColorScale = (
+  nodes: CustomNode[],
+  attribute: NodeColorAttribute,
+  typePalette: (type: string) => NodePalette
+): NodeColorScale => {
+  const categoryOf = getCategoryOf(nodes, attribute);
+  const members = d3.group(nodes, categoryOf);
+  const keys = Array.from(members.keys()).filter((key) => key !== MISSING);
+
+  // Numeric categories read best in order, communities by size
+  if (attribute === "community") {
+    keys.sort((a, b) => members.get(b)!.length - members.get(a)!.length);
+  } else if (attribute === "type") {
+    keys.sort((a, b) => a.localeCompare(b));
+  } else {
+    keys.sort((a, b) => Number(a) - Number(b));
+  }
+
+  const palettes = new Map<string, NodePalette>(
+    keys.map((key, index) => {
+      if (attribute === "type") return [key, typePalette(key)];
+      const color =
+        attribute === "degree"
+          ? d3.interpolateViridis(Number(key) / (DEGREE_BINS - 1))
+          : d3.schemeTableau10[index % d3.schemeTableau10.length];
+      return [key, toNodePalette(color)];
+    })
+  );
+  const missingPalette =
+    attribute === "type" ? typePalette(MISSING) : toNodePalette(MISSING_COLOR);
+  if (members.has(MISSING)) keys.push(MISSING);
+
+  const labelOf = (key: string) => {
+    if (key === MISSING) return attribute === "type" ? "Unknown" : "None";
+    switch (attribute) {
+      case "community":
+        return `Community ${key}`;
+      case "level":
+        return `Level ${key}`;
+      case "degree": {
+        const [min, max] = d3.extent(
+          members.get(key)!,
+          (node) => node.degree ?? 0
+        );
+        return min === max ? `Degree ${min}` : `Degree ${min}–${max}`;
+      }
+      default:
+        return key;
+    }
+  };
+
+  return {
+    categoryOf,
+    paletteOf: (node) => palettes.get(categoryOf(node)) ?? missingPalette,
+    categories: keys.map((key) => ({
+      key,
+      label: labelOf(key),
+      color: (palettes.get(key) ?? missingPalette).primary,
+      count: members.get(key)!.length,
+    })),
+  };
+};
+
+const nodeSizeValues: Record<
+  Exclude<NodeSizeAttribute, "none">,
+  (node: CustomNode) => number | undefined
+> = {
+  degree: (node) => node.degree,
+  rank: (node) => node.rank,
+  n_tokens: (node) => node.n_tokens,
+  text_units: (node) => node.text_unit_ids?.length,
+};
+
+const linkValues: Record<
+  Exclude<LinkAttribute, "none">,
+  (link: CustomLink) => number | undefined
+> = {
+  weight: (link) => link.weight,
+  combined_degree: (link) => link.combined_degree,
+};
+
+// Placeholders such as a rank of -1 aren't values
+const isValue = (value: number | undefined): value is number =>
+  value !== undefined && value !== null && Number.isFinite(value) && value >= 0;
+
+const getDomain = <T>(items: T[], valueOf: (item: T) => number | undefined) => {
+  const [min, max] = d3.extent(items.map(valueOf).filter(isValue));
+  return min === undefined || max === undefined
+    ? null
+    : ([min, max] as [number, number]);
+};
+
+export interface EncodingScale<T, R> {
+  // Undefined when the item has no value, or nothing is encoded
+  valueOf: (item: T) => R | undefined;
+  domain: [number, number] | null;
+}
+
+const noEncoding = { valueOf: () => undefined, domain: null };
+
+// Sizes are given as force-graph vals, which grow the radius by their square
+// root so that areas stay proportional
+export const buildNodeSizeScale = (
+  nodes: CustomNode[],
+  attribute: NodeSizeAttribute
+): EncodingScale<CustomNode, number> => {
+  if (attribute === "none") return noEncoding;
+  const value = nodeSizeValues[attribute];
+  const domain = getDomain(nodes, value);
+  if (!domain) return noEncoding;
+  const scale = d3.scaleLinear(domain, [1, MAX_NODE_VAL]).clamp(true);
+  return {
+    valueOf: (node) => {
+      const size = value(node);
+      return isValue(size) ? scale(size) : undefined;
+    },
+    domain,
+  };
+};
+
+export const buildLinkWidthScale = (
+  links: CustomLink[],
+  attribute: LinkAttribute
+): EncodingScale<CustomLink, number> => {
+  if (attribute === "none") return noEncoding;
+  const value = linkValues[attribute];
+  const domain = getDomain(links, value);
+  if (!domain) return noEncoding;
+  const scale = d3.scaleLinear(domain, LINK_WIDTH_RANGE).clamp(true);
+  return {
+    valueOf: (link) => {
+      const width = value(link);
+      return isValue(width) ? scale(width) : undefined;
+    },
+    domain,
+  };
+};
+
+export const buildLinkColorScale = (
+  links: CustomLink[],
+  attribute: LinkAttribute
+): EncodingScale<CustomLink, string> => {
+  if (attribute === "none") return noEncoding;
+  const value = linkValues[attribute];
+  const domain = getDomain(links, value);
+  if (!domain) return noEncoding;
+  const scale = d3.scaleSequential(d3.interpolatePlasma).domain(domain);
+  return {
+    valueOf: (link) => {
+      const color = value(link);
+      return isValue(color) ? scale(color) : undefined;
+    },
+    domain,
+  };
+};
@@ -0,0 +1,183 @@
+import { Workspace } from "../models/workspace";
+import { GraphRAGVersion } from "./graphrag-versions";
+
+const DB_NAME = "graphrag-visualizer";
+const DB_VERSION = 2;
+const WORKSPACE_STORE = "workspaces";
+// Parquet blobs live apart from the metadata so listing stays cheap
+const FILE_STORE = "workspace-files";
+export const SEARCH_HISTORY_STORE = "search-history";
+
+interface StoredFile {
+  key: string;
+  workspaceId: string;
+  name: string;
+  blob: Blob;
+}
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    if (!db.objectStoreNames.contains(WORKSPACE_STORE)) {
+      db.createObjectStore(WORKSPACE_STORE, { keyPath: "id" });
+    }
+    if (!db.objectStoreNames.contains(FILE_STORE)) {
+      const files = db.createObjectStore(FILE_STORE, { keyPath: "key" });
+      files.createIndex("workspaceId", "workspaceId");
+    }
+    if (!db.objectStoreNames.contains(SEARCH_HISTORY_STORE)) {
+      db.createObjectStore(SEARCH_HISTORY_STORE, { keyPath: "id" });
+    }
+  };
+  return requestToPromise(request);
+};
+
+export const listWorkspaces = async (): Promise<Workspace[]> => {
+  const db = await openDatabase();
+  try {
+    const workspaces = await requestToPromise<Workspace[]>(
+      db.transaction(WORKSPACE_STORE).objectStore(WORKSPACE_STORE).getAll()
+    );
+    return workspaces.sort((a, b) => b.loadedAt.localeCompare(a.loadedAt));
+  } finally {
+    db.close();
+  }
+};
+
+const fileListKey = (files: { name: string; size: number }[]) =>
+  files
+    .map(({ name, size }) => `${name}:${size}`)
+    .sort()
+    .join("|");
+
+// Loading the same index again only marks its workspace as loaded now, so
+// the list holds one entry per index. Workspaces count as the same when they
+// have the same GraphRAG version and files of the same names and sizes.
+export const saveWorkspace = async (
+  name: string,
+  graphragVersion: GraphRAGVersion,
+  files: File[]
+): Promise<Workspace> => {
+  const loadedAt = new Date().toISOString();
+  const workspaceFiles = files.map((file) => ({
+    name: file.name,
+    size: file.size,
+  }));
+  const key = fileListKey(workspaceFiles);
+
+  const db = await openDatabase();
+  try {
+    const transaction = db.transaction(
+      [WORKSPACE_STORE, FILE_STORE],
+      "readwrite"
+    );
+    const workspaceStore = transaction.objectStore(WORKSPACE_STORE);
+    const existing = (
+      await requestToPromise<Workspace[]>(workspaceStore.getAll())
+    ).find(
+      (workspace) =>
+        workspace.graphragVersion === graphragVersion &&
+        fileListKey(workspace.files) === key
+    );
+    if (existing) {
+      const workspace = { ...existing, loadedAt };
+      workspaceStore.put(workspace);
+      await transactionDone(transaction);
+      return workspace;
+    }
+
+    const workspace: Workspace = {
+      id: crypto.randomUUID(),
+      name,
+      loadedAt,
+      graphragVersion,
+      files: workspaceFiles,
+    };
+    workspaceStore.put(workspace);
+    const fileStore = transaction.objectStore(FILE_STORE);
+    files.forEach((file) => {
+      const storedFile: StoredFile = {
+        key: `${workspace.id}/${file.name}`,
+        workspaceId: workspace.id,
+        name: file.name,
+        blob: file,
+      };
+      fileStore.put(storedFile);
+    });
+    await transactionDone(transaction);
+    return workspace;
+  } finally {
+    db.close();
+  }
+};
+
+export const getWorkspaceFiles = async (id: string): Promise<File[]> => {
+  const db = await openDatabase();
+  try {
+    const storedFiles = await requestToPromise<StoredFile[]>(
+      db
+        .transaction(FILE_STORE)
+        .objectStore(FILE_STORE)
+        .index("workspaceId")
+        .getAll(id)
+    );
+    return storedFiles.map(
+      (storedFile) => new File([storedFile.blob], storedFile.name)
+    );
+  } finally {
+    db.close();
+  }
+};
+
+export const renameWorkspace = async (
+  id: string,
+  name: string
+): Promise<void> => {
+  const db = await openDatabase();
+  try {
+    const transaction = db.transaction(WORKSPACE_STORE, "readwrite");
+    const store = transaction.objectStore(WORKSPACE_STORE);
+    const workspace = await requestToPromise<Workspace | undefined>(
+      store.get(id)
+    );
+    if (workspace) {
+      store.put({ ...workspace, name });
+    }
+    await transactionDone(transaction);
+  } finally {
+    db.close();
+  }
+};
+
+export const deleteWorkspace = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  try {
+    const transaction = db.transaction(
+      [WORKSPACE_STORE, FILE_STORE],
+      "readwrite"
+    );
+    transaction.objectStore(WORKSPACE_STORE).delete(id);
+    const fileStore = transaction.objectStore(FILE_STORE);
+    const keys = await requestToPromise(
+      fileStore.index("workspaceId").getAllKeys(id)
+    );
+    keys.forEach((key) => fileStore.delete(key));
+    await transactionDone(transaction);
+  } finally {
+    db.close();
+  }
+};
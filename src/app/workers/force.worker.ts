@@ -0,0 +1,125 @@
+/* eslint-disable no-restricted-globals */
+import {
+  forceCenter,
+  forceCollide,
+  forceLink,
+  forceManyBody,
+  forceSimulation,
+  Simulation,
+  SimulationNodeDatum,
+} from "d3";
+
+interface ForceNode extends SimulationNodeDatum {
+  id: string;
+}
+
+export type ForceWorkerRequest =
+  | {
+      type: "start";
+      nodes: { id: string; x?: number; y?: number }[];
+      links: { source: string; target: string }[];
+      iterations: number;
+      ticksPerBatch: number;
+      nodeRadius: number;
+    }
+  | { type: "pause" }
+  | { type: "resume" }
+  | { type: "stop" };
+
+export type ForceWorkerResponse =
+  | {
+      type: "tick";
+      positions: Float64Array; // x0, y0, x1, y1, ... in the order nodes were sent
+      iteration: number;
+      iterations: number;
+    }
+  | { type: "end" };
+
+let simulation: Simulation<ForceNode, undefined> | null = null;
+let nodes: ForceNode[] = [];
+let iteration = 0;
+let iterations = 0;
+let ticksPerBatch = 1;
+let paused = false;
+let timer: ReturnType<typeof setTimeout> | null = null;
+
+const post = (message: ForceWorkerResponse, transfer: Transferable[] = []) =>
+  self.postMessage(message, { transfer });
+
+const postPositions = () => {
+  const positions = new Float64Array(nodes.length * 2);
+  nodes.forEach((node, index) => {
+    positions[index * 2] = node.x ?? 0;
+    positions[index * 2 + 1] = node.y ?? 0;
+  });
+  post({ type: "tick", positions, iteration, iterations }, [positions.buffer]);
+};
+
+// Tick in small batches and yield between them so pause/stop messages get in
+const step = () => {
+  timer = null;
+  if (!simulation || paused) return;
+
+  const batch = Math.min(ticksPerBatch, iterations - iteration);
+  simulation.tick(batch);
+  iteration += batch;
+  postPositions();
+
+  if (iteration >= iterations) {
+    simulation = null;
+    post({ type: "end" });
+    return;
+  }
+  timer = setTimeout(step, 0);
+};
+
+const stop = () => {
+  if (timer) clearTimeout(timer);
+  timer = null;
+  simulation = null;
+};
+
+self.onmessage = (event: MessageEvent<ForceWorkerRequest>) => {
+  const message = event.data;
+  switch (message.type) {
+    case "start": {
+      stop();
+      nodes = message.nodes.map((node) => ({ ...node }));
+      iteration = 0;
+      iterations = Math.max(1, message.iterations);
+      ticksPerBatch = Math.max(1, message.ticksPerBatch);
+      paused = false;
+
+      simulation = forceSimulation<ForceNode>(nodes)
+        .force(
+          "link",
+          forceLink<ForceNode, { source: string; target: string }>(
+            message.links
+          )
+            .id((node) => node.id)
+            .distance(30)
+        )
+        .force("charge", forceManyBody<ForceNode>().strength(-30))
+        .force("collide", forceCollide<ForceNode>(message.nodeRadius * 1.5))
+        .force("center", forceCenter(0, 0))
+        // Cool down over exactly the requested number of iterations
+        .alphaDecay(1 - Math.pow(0.001, 1 / iterations))
+        .stop();
+
+      step();
+      break;
+    }
+    case "pause":
+      paused = true;
+      break;
+    case "resume":
+      if (paused) {
+        paused = false;
+        if (!timer) step();
+      }
+      break;
+    case "stop":
+      stop();
+      break;
+  }
+};
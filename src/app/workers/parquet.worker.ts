@@ -0,0 +1,37 @@
+/* eslint-disable no-restricted-globals */
+import { readParquetRowGroups } from "../utils/parquet-utils";
+import { GraphRAGVersion } from "../utils/graphrag-versions";
+
+export interface ParquetWorkerRequest {
+  file: File;
+  schema?: string;
+  version?: GraphRAGVersion;
+}
+
+export type ParquetWorkerResponse =
+  | { type: "batch"; rows: any[]; rowsRead: number; totalRows: number }
+  | { type: "warning"; message: string }
+  | { type: "done" }
+  | { type: "error"; message: string };
+
+const post = (message: ParquetWorkerResponse) => self.postMessage(message);
+
+self.onmessage = async (event: MessageEvent<ParquetWorkerRequest>) => {
+  const { file, schema, version } = event.data;
+  try {
+    await readParquetRowGroups(
+      file,
+      schema,
+      version,
+      (rows, rowsRead, totalRows) =>
+        post({ type: "batch", rows, rowsRead, totalRows }),
+      (message) => post({ type: "warning", message })
+    );
+    post({ type: "done" });
+  } catch (err) {
+    post({
+      type: "error",
+      message: err instanceof Error ? err.message : String(err),
+    });
+  }
+};
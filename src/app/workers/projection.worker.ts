@@ -0,0 +1,226 @@
+/* eslint-disable no-restricted-globals */
+import { UMAP } from "umap-js";
+
+export type ProjectionMethod = "umap" | "tsne" | "pca";
+
+export interface ProjectionWorkerRequest {
+  vectors: number[][];
+  method: ProjectionMethod;
+}
+
+export type ProjectionWorkerResponse =
+  | { type: "progress"; progress: number }
+  | {
+      type: "done";
+      coordinates: Float64Array; // x0, y0, x1, y1, ... in input order
+    }
+  | { type: "error"; message: string };
+
+const PCA_ITERATIONS = 100;
+const TSNE_ITERATIONS = 500;
+const TSNE_PERPLEXITY = 30;
+const TSNE_LEARNING_RATE = 200;
+const PROGRESS_INTERVAL = 10;
+
+// Seeded so the same vectors always give the same picture
+const createRandom = (seed: number) => () => {
+  seed = (seed * 1664525 + 1013904223) % 4294967296;
+  return seed / 4294967296;
+};
+
+const postProgress = (progress: number) =>
+  self.postMessage({ type: "progress", progress });
+
+const flatten = (points: number[][]) => {
+  const coordinates = new Float64Array(points.length * 2);
+  points.forEach(([x, y], index) => {
+    coordinates[index * 2] = x;
+    coordinates[index * 2 + 1] = y;
+  });
+  return coordinates;
+};
+
+// Top two principal components by power iteration with deflation
+const pca = (vectors: number[][]): number[][] => {
+  const n = vectors.length;
+  const dim = vectors[0].length;
+  const mean = new Float64Array(dim);
+  vectors.forEach((vector) => vector.forEach((v, j) => (mean[j] += v / n)));
+  const centered = vectors.map((vector) => vector.map((v, j) => v - mean[j]));
+
+  const random = createRandom(42);
+  const components: Float64Array[] = [];
+  for (let c = 0; c < 2; c++) {
+    let component = Float64Array.from({ length: dim }, () => random() - 0.5);
+    for (let iteration = 0; iteration < PCA_ITERATIONS; iteration++) {
+      // component <- X^T X component, minus what earlier components explain
+      const current = component;
+      const next = new Float64Array(dim);
+      centered.forEach((row) => {
+        let dot = 0;
+        for (let j = 0; j < dim; j++) dot += row[j] * current[j];
+        for (let j = 0; j < dim; j++) next[j] += dot * row[j];
+      });
+      components.forEach((previous) => {
+        let dot = 0;
+        for (let j = 0; j < dim; j++) dot += next[j] * previous[j];
+        for (let j = 0; j < dim; j++) next[j] -= dot * previous[j];
+      });
+      const norm = Math.hypot(...Array.from(next)) || 1;
+      component = next.map((v) => v / norm);
+      if (iteration % PROGRESS_INTERVAL === 0) {
+        postProgress((c + iteration / PCA_ITERATIONS) / 2);
+      }
+    }
+    components.push(component);
+  }
+
+  return centered.map((row) =>
+    components.map((component) =>
+      row.reduce((sum, v, j) => sum + v * component[j], 0)
+    )
+  );
+};
+
+// Exact t-SNE; quadratic in the number of points, fine for a few thousand
+const tsne = (vectors: number[][]): number[][] => {
+  const n = vectors.length;
+  const distances = new Float64Array(n * n);
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      let sum = 0;
+      for (let k = 0; k < vectors[i].length; k++) {
+        const diff = vectors[i][k] - vectors[j][k];
+        sum += diff * diff;
+      }
+      distances[i * n + j] = distances[j * n + i] = sum;
+    }
+  }
+
+  // Binary search each point's bandwidth to hit the target perplexity
+  const targetEntropy = Math.log(Math.min(TSNE_PERPLEXITY, (n - 1) / 3));
+  const p = new Float64Array(n * n);
+  for (let i = 0; i < n; i++) {
+    let beta = 1;
+    let betaMin = -Infinity;
+    let betaMax = Infinity;
+    for (let attempt = 0; attempt < 50; attempt++) {
+      let sum = 0;
+      for (let j = 0; j < n; j++) {
+        const value = i === j ? 0 : Math.exp(-distances[i * n + j] * beta);
+        p[i * n + j] = value;
+        sum += value;
+      }
+      let entropy = 0;
+      for (let j = 0; j < n; j++) {
+        const value = p[i * n + j] / (sum || 1);
+        p[i * n + j] = value;
+        if (value > 1e-7) entropy -= value * Math.log(value);
+      }
+      if (Math.abs(entropy - targetEntropy) < 1e-5) break;
+      if (entropy > targetEntropy) {
+        betaMin = beta;
+        beta = betaMax === Infinity ? beta * 2 : (beta + betaMax) / 2;
+      } else {
+        betaMax = beta;
+        beta = betaMin === -Infinity ? beta / 2 : (beta + betaMin) / 2;
+      }
+    }
+  }
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      const value = Math.max((p[i * n + j] + p[j * n + i]) / (2 * n), 1e-12);
+      p[i * n + j] = p[j * n + i] = value;
+    }
+  }
+
+  const random = createRandom(42);
+  const y = Array.from({ length: n }, () => [
+    (random() - 0.5) * 1e-4,
+    (random() - 0.5) * 1e-4,
+  ]);
+  const velocity = Array.from({ length: n }, () => [0, 0]);
+  const q = new Float64Array(n * n);
+
+  for (let iteration = 0; iteration < TSNE_ITERATIONS; iteration++) {
+    // Early exaggeration pulls clusters together before they settle
+    const exaggeration = iteration < 100 ? 4 : 1;
+    const momentum = iteration < 250 ? 0.5 : 0.8;
+
+    let qSum = 0;
+    for (let i = 0; i < n; i++) {
+      for (let j = i + 1; j < n; j++) {
+        const dx = y[i][0] - y[j][0];
+        const dy = y[i][1] - y[j][1];
+        const value = 1 / (1 + dx * dx + dy * dy);
+        q[i * n + j] = q[j * n + i] = value;
+        qSum += 2 * value;
+      }
+    }
+
+    for (let i = 0; i < n; i++) {
+      let gx = 0;
+      let gy = 0;
+      for (let j = 0; j < n; j++) {
+        if (i === j) continue;
+        const weight = q[i * n + j];
+        const force = (exaggeration * p[i * n + j] - weight / qSum) * weight;
+        gx += 4 * force * (y[i][0] - y[j][0]);
+        gy += 4 * force * (y[i][1] - y[j][1]);
+      }
+      velocity[i][0] = momentum * velocity[i][0] - TSNE_LEARNING_RATE * gx;
+      velocity[i][1] = momentum * velocity[i][1] - TSNE_LEARNING_RATE * gy;
+    }
+    for (let i = 0; i < n; i++) {
+      y[i][0] += velocity[i][0];
+      y[i][1] += velocity[i][1];
+    }
+
+    if (iteration % PROGRESS_INTERVAL === 0) {
+      postProgress(iteration / TSNE_ITERATIONS);
+    }
+  }
+  return y;
+};
+
+const umap = (vectors: number[][]): number[][] => {
+  const projection = new UMAP({
+    nComponents: 2,
+    nNeighbors: Math.min(15, vectors.length - 1),
+    minDist: 0.1,
+    random: createRandom(42),
+  });
+  const epochs = projection.initializeFit(vectors);
+  for (let epoch = 0; epoch < epochs; epoch++) {
+    projection.step();
+    if (epoch % PROGRESS_INTERVAL === 0) {
+      postProgress(epoch / epochs);
+    }
+  }
+  return projection.getEmbedding();
+};
+
+self.onmessage = (event: MessageEvent<ProjectionWorkerRequest>) => {
+  const { vectors, method } = event.data;
+  try {
+    if (vectors.length < 3) {
+      throw new Error("At least three embeddings are needed for a projection");
+    }
+    const points =
+      method === "pca"
+        ? pca(vectors)
+        : method === "tsne"
+          ? tsne(vectors)
+          : umap(vectors);
+    const coordinates = flatten(points);
+    self.postMessage(
+      { type: "done", coordinates },
+      { transfer: [coordinates.buffer] }
+    );
+  } catch (err) {
+    self.postMessage({
+      type: "error",
+      message: err instanceof Error ? err.message : String(err),
+    });
+  }
+};